@@ -0,0 +1,156 @@
+/**
+ * Achievements Test Suite
+ *
+ * Checks the daily goal, practice streaks and achievements, and that the app
+ * state records them when a finished session is saved.
+ * Run with: npx tsx __tests__/achievements.test.ts
+ */
+
+import { runWhenMain, TestSuite } from './harness';
+
+// Use require for TypeScript modules with tsx
+const { createMemoryStorageAdapter } = require('../lib/storageAdapters');
+const storage = require('../lib/storage');
+const { appStateReducer, createInitialState } = require('../lib/useAppState');
+const {
+  ACHIEVEMENTS,
+  evaluateAchievements,
+  exercisesOnDay,
+  practiceStreak,
+  sessionRewards,
+} = require('../lib/achievements');
+
+// A stored session completed at a local time, every exercise rated with the given option
+const session = (completedAt: Date, totalExercises = 10, option = 'correct', extra: object = {}) => ({
+  id: completedAt.toISOString(),
+  totalExercises,
+  exercisesCompleted: option === 'again' ? 0 : totalExercises,
+  scorePercentage: option === 'correct' ? 100 : 0,
+  completedAt: completedAt.toISOString(),
+  scores: Array.from({ length: totalExercises }, () => ({ option, exercise: { direction: 'overtaking' } })),
+  ...extra,
+});
+
+// Sessions on each of the given days of March 2026 (newest first, as stored)
+const onDays = (days: number[]) => days.map(day => session(new Date(2026, 2, day, 12)));
+
+const context = (history: object[], today = new Date(2026, 2, 10, 18), dailyGoal = 10) => ({
+  history,
+  streak: practiceStreak(history, today),
+  exercisesToday: exercisesOnDay(history, today),
+  dailyGoal,
+});
+
+class AchievementsTester extends TestSuite {
+  constructor() {
+    super({
+      title: 'Achievements',
+      report: 'ACHIEVEMENTS',
+      success: 'Streaks, goals and achievements add up!',
+    });
+  }
+
+  protected runTests() {
+    this.testDailyGoal();
+    this.testStreaks();
+    this.testAchievements();
+    this.testRewards();
+    this.testSavedSession();
+  }
+
+  // Test 1: Only today's completed exercises count towards the goal
+  testDailyGoal() {
+    console.log('1️⃣  Testing Daily Goal...');
+
+    const today = new Date(2026, 2, 10, 18);
+    const history = [
+      session(new Date(2026, 2, 10, 9), 5),
+      session(new Date(2026, 2, 10, 0, 5), 10, 'again'),
+      session(new Date(2026, 2, 10, 0, 1), 3),
+      session(new Date(2026, 2, 9, 23, 59), 20),
+    ];
+    this.expect('Exercises today', exercisesOnDay(history, today), 8);
+    this.expect('Nothing today', exercisesOnDay(history, new Date(2026, 2, 11)), 0);
+  }
+
+  // Test 2: Streaks count calendar days; today doesn't break one until it's over
+  testStreaks() {
+    console.log('2️⃣  Testing Streaks...');
+
+    const today = new Date(2026, 2, 10, 18);
+    this.expect('Up to today', practiceStreak(onDays([10, 9, 9, 8, 5, 4, 3, 2]), today), { current: 3, longest: 4 });
+    this.expect('Up to yesterday still counts', practiceStreak(onDays([9, 8]), today), { current: 2, longest: 2 });
+    this.expect('Broken streak', practiceStreak(onDays([8, 7, 6]), today), { current: 0, longest: 3 });
+    this.expect('No history', practiceStreak([], today), { current: 0, longest: 0 });
+    // Also crosses the 29 March 2026 clock change in Europe
+    this.expect('Across a month end', practiceStreak([session(new Date(2026, 3, 1, 9)), ...onDays([31, 30, 29, 28])], new Date(2026, 3, 1, 20)).current, 5);
+  }
+
+  // Test 3: Achievements are earned once and keep their date
+  testAchievements() {
+    console.log('3️⃣  Testing Achievements...');
+
+    const ids = (earned: object) => Object.keys(earned).sort();
+    const now = new Date(2026, 2, 10, 18);
+
+    const first = evaluateAchievements(context([session(new Date(2026, 2, 10, 9), 5, 'almost')]), {}, now);
+    this.expect('First session', ids(first), ['first-session']);
+    this.expect('Goal not met with 5 of 10', first['daily-goal'], undefined);
+
+    const kept = evaluateAchievements(context([session(new Date(2026, 2, 10, 9), 20)]), { 'first-session': '2026-01-01T00:00:00.000Z' }, now);
+    this.expect('Perfect 20-exercise session', ids(kept), ['daily-goal', 'first-session', 'perfect-10', 'perfect-20']);
+    this.expect('Earlier date kept', kept['first-session'], '2026-01-01T00:00:00.000Z');
+
+    const withReplay = session(new Date(2026, 2, 10, 9), 20);
+    withReplay.scores[3] = { option: 'correct', replay: true } as any;
+    this.expect('A replay is not perfect', evaluateAchievements(context([withReplay]), {}, now)['perfect-20'], undefined);
+
+    const overtaking = [session(new Date(2026, 2, 10, 9), 20), session(new Date(2026, 2, 9, 9), 20), session(new Date(2026, 2, 8, 9), 9)];
+    this.expect('49 overtaking calls', evaluateAchievements(context(overtaking), {}, now)['overtaking-50'], undefined);
+    overtaking.push(session(new Date(2026, 2, 7, 9), 1));
+    this.expect('50 overtaking calls', evaluateAchievements(context(overtaking), {}, now)['overtaking-50'], now.toISOString());
+
+    const week = evaluateAchievements(context(onDays([10, 9, 8, 7, 6, 5, 4])), {}, now);
+    this.expect('7-day streak', [week['streak-7'] !== undefined, week['streak-30']], [true, undefined]);
+    this.expect('Every achievement has its own id', new Set(ACHIEVEMENTS.map((a: any) => a.id)).size, ACHIEVEMENTS.length);
+  }
+
+  // Test 4: New achievements are the ones earned since the session started
+  testRewards() {
+    console.log('4️⃣  Testing End Screen Rewards...');
+
+    const history = onDays([10, 9]);
+    const earned = { 'first-session': '2026-03-09T12:00:00.000Z', 'daily-goal': '2026-03-10T12:05:00.000Z' };
+    const rewards = sessionRewards(context(history), earned, new Date('2026-03-10T12:00:00.000Z'));
+
+    this.expect('Goal and streak', [rewards.exercisesToday, rewards.dailyGoal, rewards.currentStreak, rewards.longestStreak], [10, 10, 2, 2]);
+    this.expect('Only the new one', rewards.newAchievements.map((a: any) => [a.id, a.title]), [['daily-goal', 'Goal Reached']]);
+    this.expect('Earned so far', [rewards.achievementsEarned, rewards.achievementsTotal], [2, ACHIEVEMENTS.length]);
+  }
+
+  // Test 5: Goal and achievements are stored per profile; rewards wait in app state for the end screen
+  testSavedSession() {
+    console.log('5️⃣  Testing Storage and App State...');
+
+    storage.setStorageAdapter(createMemoryStorageAdapter());
+
+    storage.saveSettings({ ...storage.DEFAULT_SETTINGS, dailyGoal: 5 });
+    this.expect('Daily goal saved', storage.loadSettings().dailyGoal, 5);
+    this.expect('No achievements yet', storage.loadAchievements(), {});
+
+    const earned = evaluateAchievements(context(onDays([10])), {}, new Date(2026, 2, 10, 18));
+    this.expect('Achievements saved', storage.saveAchievements(earned), true);
+    this.expect('Achievements loaded', Object.keys(storage.loadAchievements()), Object.keys(earned));
+
+    const other = storage.createProfile('Ben');
+    this.expect('Kept per profile', storage.loadAchievements(other.id), {});
+
+    const rewards = sessionRewards(context(onDays([10])), earned, new Date(2026, 2, 10, 9));
+    let state = appStateReducer(createInitialState(), { type: 'SESSION_SAVED', payload: rewards });
+    this.expect('Rewards in state', state.rewards.newAchievements.length, Object.keys(earned).length);
+    state = appStateReducer(state, { type: 'START_SESSION' });
+    this.expect('Cleared by the next session', state.rewards, null);
+  }
+}
+
+runWhenMain(module, () => new AchievementsTester());
@@ -0,0 +1,157 @@
+/**
+ * Adaptive Difficulty Test Suite
+ *
+ * Checks that recent scores shift the direction weights, traffic mix and
+ * difficulty towards the trainee's weak areas, and that every change is explained.
+ * Run with: npx tsx __tests__/adaptive.test.ts
+ */
+
+import { runWhenMain, TestSuite } from './harness';
+
+// Use require for TypeScript modules with tsx
+const { adaptGeneratorOptions, recordAdaptivePlan } = require('../lib/adaptive');
+const { appStateReducer, createInitialState } = require('../lib/useAppState');
+const { DEFAULT_GENERATOR_OPTIONS } = require('../lib/constants');
+
+const POINTS: Record<string, number> = { correct: 3, almost: 2, hard: 1, again: 0 };
+
+// Builds a score for a scenario (live scores have Date timestamps, stored ones strings)
+const score = (option: string, exercise: object = {}, timestamp: Date | string = new Date('2026-01-01T10:00:00.000Z')) => ({
+  option,
+  points: POINTS[option],
+  timestamp,
+  exercise: {
+    direction: 'converging',
+    clock: 2,
+    distance: 5,
+    flightRule: 'VFR',
+    military: false,
+    levelChange: false,
+    seed: 1,
+    ...exercise,
+  },
+});
+
+const repeat = (count: number, make: () => object) => Array.from({ length: count }, make);
+
+class AdaptiveTester extends TestSuite {
+  constructor() {
+    super({
+      title: 'Adaptive Difficulty',
+      report: 'ADAPTIVE DIFFICULTY',
+      success: 'Exercises adapt to the trainee\'s weak areas!',
+    });
+  }
+
+  protected runTests() {
+    this.testNoData();
+    this.testWeakDirection();
+    this.testFlightRulesAndLevelChanges();
+    this.testDifficultySteps();
+    this.testRecentWindow();
+    this.testSessionRecord();
+  }
+
+  // Test 1: Without scores the options stay as they are
+  testNoData() {
+    console.log('1️⃣  Testing New Trainee (No scores yet)...');
+
+    const plan = adaptGeneratorOptions(DEFAULT_GENERATOR_OPTIONS, [], []);
+    this.expect('Options unchanged', plan.options, DEFAULT_GENERATOR_OPTIONS);
+    this.expect('No focus', plan.focus, []);
+    this.expect('No difficulty change', plan.difficultyChange, undefined);
+  }
+
+  // Test 2: A weak direction gets more weight, a strong one keeps its weight
+  testWeakDirection() {
+    console.log('2️⃣  Testing Direction Weights...');
+
+    const recent = [
+      ...repeat(3, () => score('again', { direction: 'overtaking' })),
+      ...repeat(3, () => score('correct', { direction: 'converging' })),
+    ];
+    const plan = adaptGeneratorOptions(DEFAULT_GENERATOR_OPTIONS, recent, []);
+    this.expect('Overtaking tripled', plan.options.directionWeights.overtaking, DEFAULT_GENERATOR_OPTIONS.directionWeights.overtaking * 3);
+    this.expect('Converging unchanged', plan.options.directionWeights.converging, DEFAULT_GENERATOR_OPTIONS.directionWeights.converging);
+    this.expect('Focus explains why', plan.focus, [{ area: 'overtaking', scorePercentage: 0, attempts: 3 }]);
+    this.expect('Settings not changed', DEFAULT_GENERATOR_OPTIONS.directionWeights.overtaking, 5);
+
+    const tooFew = adaptGeneratorOptions(DEFAULT_GENERATOR_OPTIONS, repeat(2, () => score('again', { direction: 'overtaking' })), []);
+    this.expect('Two attempts are not enough', tooFew.focus, []);
+
+    const switchedOff = { ...DEFAULT_GENERATOR_OPTIONS, directions: ['converging'] };
+    this.expect('Disabled directions ignored', adaptGeneratorOptions(switchedOff, recent, []).focus, []);
+  }
+
+  // Test 3: The VFR/IFR mix and the level-change rate lean towards weak areas
+  testFlightRulesAndLevelChanges() {
+    console.log('3️⃣  Testing Traffic Mix and Level Changes...');
+
+    const recent = [
+      ...repeat(3, () => score('correct', { flightRule: 'VFR' })),
+      ...repeat(3, () => score('hard', { flightRule: 'IFR', levelChange: true })),
+    ];
+    const plan = adaptGeneratorOptions(DEFAULT_GENERATOR_OPTIONS, recent, []);
+    this.expect('More IFR', plan.options.vfrProbability, 0.6);
+    this.expect('More level changes', Math.round(plan.options.levelChangeRate * 100), 50);
+    this.expect('Focus weakest first', plan.focus.map((focus: any) => focus.area), ['IFR traffic', 'level changes', 'converging']);
+
+    const vfrOnly = { ...DEFAULT_GENERATOR_OPTIONS, vfrProbability: 1 };
+    this.expect('VFR-only mix kept', adaptGeneratorOptions(vfrOnly, recent, []).options.vfrProbability, 1);
+  }
+
+  // Test 4: The difficulty moves one step with the overall score
+  testDifficultySteps() {
+    console.log('4️⃣  Testing Difficulty Steps...');
+
+    const strong = adaptGeneratorOptions(DEFAULT_GENERATOR_OPTIONS, repeat(10, () => score('correct')), []);
+    this.expect('Step up', strong.options.difficulty, 'advanced');
+    this.expect('Step up reason', strong.difficultyChange, { from: 'intermediate', to: 'advanced', raised: true, scorePercentage: 100, attempts: 10 });
+
+    const weak = adaptGeneratorOptions(DEFAULT_GENERATOR_OPTIONS, repeat(10, () => score('hard')), []);
+    this.expect('Step down', weak.options.difficulty, 'beginner');
+    this.expect('Beginners keep no level changes', weak.focus.some((focus: any) => focus.area === 'level changes'), false);
+
+    const advanced = { ...DEFAULT_GENERATOR_OPTIONS, difficulty: 'advanced' };
+    this.expect('Already hardest', adaptGeneratorOptions(advanced, repeat(10, () => score('correct')), []).difficultyChange, undefined);
+    this.expect('Too few scores', adaptGeneratorOptions(DEFAULT_GENERATOR_OPTIONS, repeat(9, () => score('correct')), []).difficultyChange, undefined);
+  }
+
+  // Test 5: Only the latest 40 scores count, this session first, then stored history
+  testRecentWindow() {
+    console.log('5️⃣  Testing Recent Window (Session + history)...');
+
+    const history = [
+      { id: '2', scores: repeat(20, () => score('correct', {}, '2026-01-02T10:00:00.000Z')) },
+      { id: '1', scores: repeat(30, () => score('again', { direction: 'overtaking' }, '2026-01-01T10:00:00.000Z')) },
+    ];
+    const plan = adaptGeneratorOptions(DEFAULT_GENERATOR_OPTIONS, repeat(10, () => score('correct')), history);
+    this.expect('Old failures partly counted', plan.focus, [{ area: 'overtaking', scorePercentage: 0, attempts: 10 }]);
+    this.expect('Overall 75% keeps difficulty', plan.difficultyChange, undefined);
+  }
+
+  // Test 6: The session keeps every emphasized area and difficulty step, not just the last plan's
+  testSessionRecord() {
+    console.log('6️⃣  Testing Session Record...');
+
+    const strong = adaptGeneratorOptions(DEFAULT_GENERATOR_OPTIONS, repeat(10, () => score('correct')), []);
+    const overtaking = adaptGeneratorOptions(DEFAULT_GENERATOR_OPTIONS, repeat(4, () => score('again', { direction: 'overtaking' })), []);
+    const calm = adaptGeneratorOptions(DEFAULT_GENERATOR_OPTIONS, [], []);
+
+    let state = appStateReducer(createInitialState(), { type: 'START_SESSION' });
+    for (const plan of [overtaking, strong, strong, calm]) state = appStateReducer(state, { type: 'RECORD_ADAPTIVE_PLAN', payload: plan });
+    this.expect('Areas kept', state.session.adaptations.focus.map((focus: any) => focus.area), ['overtaking']);
+    this.expect('Step kept once', state.session.adaptations.difficultyChanges.map((change: any) => [change.from, change.to]), [['intermediate', 'advanced']]);
+    this.expect('Back to the usual difficulty', state.session.difficulty, 'intermediate');
+
+    state = appStateReducer(state, { type: 'RECORD_ADAPTIVE_PLAN', payload: strong });
+    this.expect('Stepped up again', state.session.adaptations.difficultyChanges.length, 2);
+    this.expect('Difficulty practised', state.session.difficulty, 'advanced');
+
+    const later = recordAdaptivePlan({ focus: [{ area: 'overtaking', scorePercentage: 60, attempts: 3 }], difficultyChanges: [] }, overtaking, 'advanced');
+    this.expect('Latest results per area', later.focus, overtaking.focus);
+    this.expect('Cleared by the next session', appStateReducer(state, { type: 'START_SESSION' }).session.adaptations, undefined);
+  }
+}
+
+runWhenMain(module, () => new AdaptiveTester());
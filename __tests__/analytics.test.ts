@@ -0,0 +1,131 @@
+/**
+ * Performance Analytics Test Suite
+ *
+ * Checks that scores carry their scenario and that stored history is broken down
+ * by direction, clock, distance, traffic and level change.
+ * Run with: npx tsx __tests__/analytics.test.ts
+ */
+
+import { runWhenMain, TestSuite } from './harness';
+
+// Use require for TypeScript modules with tsx
+const { describeExercise, analyzeHistory } = require('../lib/analytics');
+const { generateExercise } = require('../lib/generator');
+const { advanceExercise, MAX_SIMULATION_SECONDS } = require('../lib/simulation');
+
+// Builds a stored score for a scenario
+const score = (option: string, points: number, exercise?: object) => ({
+  option,
+  points,
+  timestamp: '2026-01-01T10:00:00.000Z',
+  exercise: exercise && {
+    direction: 'overtaking',
+    clock: 6,
+    distance: 4,
+    flightRule: 'VFR',
+    military: false,
+    levelChange: false,
+    seed: 1,
+    ...exercise,
+  },
+});
+
+const HISTORY = [
+  {
+    id: '2',
+    scores: [
+      score('again', 0, {}),
+      score('correct', 3, { direction: 'opposite direction', clock: 12, distance: 11, flightRule: 'IFR' }),
+      score('hard', 1, { levelChange: true, military: true }),
+    ],
+  },
+  {
+    id: '1',
+    scores: [
+      score('correct', 3, {}),
+      score('almost', 2), // Stored before scenarios were recorded
+    ],
+  },
+];
+
+class AnalyticsTester extends TestSuite {
+  constructor() {
+    super({
+      title: 'Performance Analytics',
+      report: 'ANALYTICS',
+      success: 'Performance is broken down by scenario correctly!',
+    });
+  }
+
+  protected runTests() {
+    this.testDescribeExercise();
+    this.testLevelOff();
+    this.testBreakdown();
+    this.testEmptyHistory();
+  }
+
+  // Test 1: A score's scenario comes from the first intruder
+  testDescribeExercise() {
+    console.log('1️⃣  Testing Scenario (First intruder of the exercise)...');
+
+    const exercise = generateExercise(42, { intruderCount: 2 });
+    const meta = describeExercise(exercise);
+    this.expect('Direction', meta.direction, exercise.situations[0].direction);
+    this.expect('Clock', meta.clock, exercise.situations[0].clock);
+    this.expect('Distance', meta.distance, exercise.situations[0].distance);
+    this.expect('Flight rule', meta.flightRule, exercise.intruders[0].flightRule);
+    this.expect('Level change', meta.levelChange, exercise.intruders[0].levelChange !== undefined);
+    this.expect('Seed', meta.seed, 42);
+  }
+
+  // Test 1b: A level-change exercise stays one after the intruder levels off on the radar
+  testLevelOff() {
+    console.log('1️⃣  Testing Scenario (Level change after level-off)...');
+
+    let levelledOff = 0;
+    let wrongTags = 0;
+    let liveClock = 0;
+    for (let seed = 0; seed < 50; seed++) {
+      const shown = generateExercise(seed, { vfrProbability: 0, levelChangeRate: 1 });
+      if (!shown.intruders[0].levelChange) continue;
+      const rated = advanceExercise(shown, MAX_SIMULATION_SECONDS);
+      if (rated.intruders[0].levelChange) continue;
+      levelledOff++;
+
+      const meta = describeExercise(shown, rated);
+      if (!meta.levelChange || meta.flightRule !== 'IFR' || meta.direction !== shown.situations[0].direction) wrongTags++;
+      if (meta.clock === rated.situations[0].clock && meta.distance === rated.situations[0].distance) liveClock++;
+    }
+    this.expect('Level-offs found', levelledOff > 0, true);
+    this.expect('Still tagged as level change', wrongTags, 0);
+    this.expect('Clock and distance from the live picture', liveClock, levelledOff);
+  }
+
+  // Test 2: Scores land in the right buckets with the right averages
+  testBreakdown() {
+    console.log('2️⃣  Testing Breakdown (Buckets per dimension)...');
+
+    const breakdowns = analyzeHistory(HISTORY);
+    const find = (dimension: string) => breakdowns.find((b: any) => b.dimension === dimension);
+
+    this.expect('Dimensions', breakdowns.map((b: any) => b.dimension), ['Direction', 'Clock', 'Distance', 'Traffic', 'Level change']);
+    this.expect('Direction rows', find('Direction').rows, [
+      { label: 'opposite direction', attempts: 1, scorePercentage: 100, againCount: 0 },
+      { label: 'overtaking', attempts: 3, scorePercentage: (4 / 9) * 100, againCount: 1 },
+    ]);
+    this.expect('Clock labels', find('Clock').rows.map((row: any) => row.label), ["6 o'clock", "12 o'clock"]);
+    this.expect('Distance bands', find('Distance').rows.map((row: any) => [row.label, row.attempts]), [['4-6 NM', 3], ['10+ NM', 1]]);
+    this.expect('Traffic', find('Traffic').rows.map((row: any) => [row.label, row.attempts]), [['IFR', 1], ['VFR', 2], ['Military', 1]]);
+    this.expect('Level change', find('Level change').rows.map((row: any) => [row.label, Math.round(row.scorePercentage)]), [['Level', 67], ['Climbing or descending', 33]]);
+  }
+
+  // Test 3: Old history without scenarios gives no breakdown
+  testEmptyHistory() {
+    console.log('3️⃣  Testing Old History (Scores without scenario)...');
+
+    this.expect('No history', analyzeHistory([]), []);
+    this.expect('Only old scores', analyzeHistory([{ id: '1', scores: [score('correct', 3)] }]), []);
+  }
+}
+
+runWhenMain(module, () => new AnalyticsTester());
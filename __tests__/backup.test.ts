@@ -0,0 +1,174 @@
+/**
+ * Backup Test Suite
+ *
+ * Checks the JSON backup and CSV export, and that importing merges sessions by id,
+ * keeps the newer schedule entries and runs through the same checks as loading.
+ * Run with: npx tsx __tests__/backup.test.ts
+ */
+
+import { runWhenMain, TestSuite } from './harness';
+
+// Use require for TypeScript modules with tsx
+const { createMemoryStorageAdapter } = require('../lib/storageAdapters');
+const storage = require('../lib/storage');
+const { createBackup, historyToCSV, importBackup, backupFileName } = require('../lib/backup');
+const { STORAGE_SCHEMA_VERSION } = require('../lib/storageSchema');
+
+// A stored session with one scenario-tagged score
+const storedSession = (id: string, completedAt: string, option = 'correct') => ({
+  id,
+  totalScore: option === 'correct' ? 3 : 0,
+  maxPossibleScore: 3,
+  exercisesCompleted: option === 'again' ? 0 : 1,
+  totalExercises: 1,
+  scorePercentage: option === 'correct' ? 100 : 0,
+  duration: 2,
+  completedAt,
+  difficulty: 'intermediate',
+  scores: [{
+    option,
+    points: option === 'correct' ? 3 : 0,
+    timestamp: completedAt,
+    exercise: { direction: 'converging', clock: 2, distance: 5, flightRule: 'VFR', military: false, levelChange: false, seed: 42 },
+    seconds: 14,
+  }],
+});
+
+const review = (lastReviewed: string) => ({ repetitions: 1, interval: 1, easeFactor: 2.5, due: lastReviewed, lastReviewed });
+
+// Fresh in-memory storage holding the given drawers (stored in the current format)
+function useStorage(drawers: Record<string, unknown> = {}) {
+  storage.setStorageAdapter(createMemoryStorageAdapter(Object.fromEntries(
+    Object.entries(drawers).map(([key, data]) => [key, JSON.stringify({ schemaVersion: STORAGE_SCHEMA_VERSION, data })])
+  )));
+}
+
+class BackupTester extends TestSuite {
+  constructor() {
+    super({
+      title: 'Backup',
+      report: 'BACKUP',
+      success: 'Training records move between devices safely!',
+    });
+  }
+
+  protected runTests() {
+    this.testExport();
+    this.testCSV();
+    this.testImportMerge();
+    this.testImportChecks();
+  }
+
+  // Test 1: The backup holds one profile's history, settings and schedule with a version
+  testExport() {
+    console.log('1️⃣  Testing JSON Backup...');
+
+    const history = [storedSession('2', '2026-01-02T10:00:00.000Z'), storedSession('1', '2026-01-01T10:00:00.000Z')];
+    useStorage({ 'atc-ready-session-history': history, 'atc-ready-schedule': { 'converging|VFR': review('2026-01-02T10:00:00.000Z') } });
+
+    const backup = createBackup(new Date('2026-01-03T09:00:00.000Z'));
+    this.expect('Format and version', [backup.format, backup.schemaVersion, backup.exportedAt], ['atc-ready-backup', STORAGE_SCHEMA_VERSION, '2026-01-03T09:00:00.000Z']);
+    this.expect('Profile name', backup.profileName, 'Trainee');
+    this.expect('History', backup.data.history.map((s: any) => s.id), ['2', '1']);
+    this.expect('Settings (with defaults)', backup.data.settings, storage.DEFAULT_SETTINGS);
+    this.expect('Schedule', Object.keys(backup.data.schedule), ['converging|VFR']);
+    const other = storage.createProfile('Ben');
+    this.expect('Another profile exported', [createBackup(undefined, other.id).profileName, createBackup(undefined, other.id).data.history], ['Ben', []]);
+    this.expect('File name', backupFileName('json', 'Anna Smith', new Date('2026-01-03T09:00:00.000Z')), 'atc-ready-anna-smith-2026-01-03.json');
+  }
+
+  // Test 2: One CSV row per rated exercise, oldest first, fields quoted when needed
+  testCSV() {
+    console.log('2️⃣  Testing CSV Export...');
+
+    const older = { ...storedSession('a,1', '2026-01-01T10:00:00.000Z'), difficulty: undefined };
+    older.scores = [...older.scores, { option: 'again', points: 0, timestamp: '2026-01-01T10:01:00.000Z', replay: true } as any];
+    const lines = historyToCSV([storedSession('b', '2026-01-02T10:00:00.000Z', 'again'), older]).trimEnd().split('\n');
+
+    this.expect('Header', lines[0].split(',').slice(0, 5), ['session_id', 'session_completed_at', 'difficulty', 'session_score_percentage', 'exercise']);
+    this.expect('Rows', lines.length, 4);
+    this.expect('Oldest first, comma quoted', lines[1], '"a,1",2026-01-01T10:00:00.000Z,,100.0,1,2026-01-01T10:00:00.000Z,correct,3,false,14,converging,2,5,VFR,false,false,42');
+    this.expect('Old score without scenario', lines[2], '"a,1",2026-01-01T10:00:00.000Z,,100.0,2,2026-01-01T10:01:00.000Z,again,0,true,,,,,,,,');
+    this.expect('Newer session last', lines[3].split(',').slice(0, 1), ['b']);
+  }
+
+  // Test 3: Import merges by session id and keeps the newer schedule entries
+  testImportMerge() {
+    console.log('3️⃣  Testing Import (Merge by session id)...');
+
+    useStorage({
+      'atc-ready-session-history': [storedSession('2', '2026-01-02T10:00:00.000Z')],
+      'atc-ready-schedule': {
+        'converging|VFR': review('2026-01-05T10:00:00.000Z'),
+        'overtaking|VFR': review('2026-01-01T10:00:00.000Z'),
+      },
+    });
+    const file = JSON.stringify({
+      format: 'atc-ready-backup',
+      schemaVersion: STORAGE_SCHEMA_VERSION,
+      exportedAt: '2026-01-04T10:00:00.000Z',
+      data: {
+        history: [
+          storedSession('3', '2026-01-03T10:00:00.000Z'),
+          { ...storedSession('2', '2026-01-02T10:00:00.000Z'), totalScore: 0 },
+          storedSession('1', '2026-01-01T10:00:00.000Z'),
+          storedSession('1', '2026-01-01T10:00:00.000Z'),
+        ],
+        settings: { ...storage.DEFAULT_SETTINGS, totalExercises: 20 },
+        schedule: {
+          'converging|VFR': review('2026-01-03T10:00:00.000Z'),
+          'overtaking|VFR': review('2026-01-03T10:00:00.000Z'),
+          'opposite direction|IFR': review('2026-01-03T10:00:00.000Z'),
+        },
+      },
+    });
+
+    const result = importBackup(file);
+    this.expect('Imported', result.ok, true);
+    this.expect('Summary', [result.summary.sessionsAdded, result.summary.sessionsSkipped, result.summary.sessionsRejected, result.summary.categoriesUpdated], [2, 2, 0, 2]);
+    this.expect('Settings handed back', result.summary.settings.totalExercises, 20);
+    this.expect('Settings not written yet', storage.loadSettings().totalExercises, storage.DEFAULT_SETTINGS.totalExercises);
+
+    const history = storage.loadSessionHistory();
+    this.expect('Merged newest first', history.map((s: any) => s.id), ['3', '2', '1']);
+    this.expect('Existing session kept', history[1].totalScore, 3);
+
+    const schedule = storage.loadSchedule();
+    this.expect('Newer local entry kept', schedule['converging|VFR'].lastReviewed, '2026-01-05T10:00:00.000Z');
+    this.expect('Newer backup entry taken', schedule['overtaking|VFR'].lastReviewed, '2026-01-03T10:00:00.000Z');
+    this.expect('New category added', Object.keys(schedule).length, 3);
+
+    const again = importBackup(file);
+    this.expect('Importing twice adds nothing', [again.summary.sessionsAdded, storage.loadSessionHistory().length], [0, 3]);
+  }
+
+  // Test 4: Imports go through the storage checks and migrations
+  testImportChecks() {
+    console.log('4️⃣  Testing Import Checks...');
+
+    useStorage();
+    this.expect('Not JSON', importBackup('{oops').reason, 'The file is not valid JSON.');
+    this.expect('Not a backup', importBackup('{"history": []}').reason, 'The file is not an ATC Ready backup.');
+
+    const newer = { format: 'atc-ready-backup', schemaVersion: STORAGE_SCHEMA_VERSION + 1, data: { history: [] } };
+    this.expect('Newer version refused', importBackup(JSON.stringify(newer)).reason,
+      `The backup's history could not be read (saved by a newer version (schema ${STORAGE_SCHEMA_VERSION + 1})).`);
+
+    const wrongShape = { format: 'atc-ready-backup', schemaVersion: STORAGE_SCHEMA_VERSION, data: { history: [], schedule: [] } };
+    this.expect('Broken part refused', importBackup(JSON.stringify(wrongShape)).ok, false);
+    this.expect('Nothing written on failure', storage.loadSessionHistory(), []);
+
+    const broken = { ...storedSession('2', '2026-01-02T10:00:00.000Z'), completedAt: 'yesterday' };
+    const version1 = { format: 'atc-ready-backup', schemaVersion: 1, data: { history: [storedSession('1', '2026-01-01T10:00:00.000Z'), broken], settings: { phraseology: 'uk' } } };
+    storage.saveSettings({ ...storage.DEFAULT_SETTINGS, totalExercises: 15 });
+    const result = importBackup(JSON.stringify(version1));
+    this.expect('Version 1 backup migrated', result.ok, true);
+    this.expect('Broken session rejected', [result.summary.sessionsAdded, result.summary.sessionsRejected], [1, 1]);
+    this.expect('Other settings kept as they are', [result.summary.settings.phraseology, result.summary.settings.totalExercises], ['uk', 15]);
+
+    const noSettings = { format: 'atc-ready-backup', schemaVersion: STORAGE_SCHEMA_VERSION, data: { history: [] } };
+    this.expect('No settings in the backup, none to apply', importBackup(JSON.stringify(noSettings)).summary.settings, undefined);
+  }
+}
+
+runWhenMain(module, () => new BackupTester());
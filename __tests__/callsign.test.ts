@@ -0,0 +1,89 @@
+/**
+ * Radiotelephony Callsign Test Suite
+ *
+ * Checks that filed callsigns are turned into their radio form: airline telephony,
+ * phonetic registrations, spoken military callsigns and abbreviated callsigns.
+ * Run with: npx tsx __tests__/callsign.test.ts
+ */
+
+import { runWhenMain, TestSuite } from './harness';
+
+// Use require for TypeScript modules with tsx
+const { parseCallsign, abbreviateCallsign, radiotelephonyCallsign } = require('../lib/callsign');
+const { pronounceCallsign } = require('../lib/pronunciation');
+const { renderSolution } = require('../lib/phraseology');
+const { generateExercise } = require('../lib/generator');
+
+class CallsignTester extends TestSuite {
+  constructor() {
+    super({
+      title: 'Radiotelephony Callsign',
+      report: 'CALLSIGN',
+      success: 'Callsigns are said the radiotelephony way!',
+    });
+  }
+
+  protected runTests() {
+    this.testParsing();
+    this.testRadiotelephony();
+    this.testAbbreviation();
+    this.testSolutions();
+  }
+
+  // Test 1: Each callsign is recognised as airline, military or registration
+  testParsing() {
+    console.log('1️⃣  Testing Parsing (Airline, military, registration)...');
+
+    this.expect('Airline', parseCallsign('BAW123'), { kind: 'airline', telephony: 'speedbird', identifier: '123' });
+    this.expect('Military', parseCallsign('RRR12'), { kind: 'military', telephony: 'ascot', identifier: '12' });
+    this.expect('Registration', parseCallsign('D-EABC'), { kind: 'registration', identifier: 'DEABC' });
+    this.expect('Registration starting like an airline', parseCallsign('BAWXY').kind, 'registration');
+  }
+
+  // Test 2: Radio form as written
+  testRadiotelephony() {
+    console.log('2️⃣  Testing Radiotelephony (Written radio form)...');
+
+    this.expect('Airline', radiotelephonyCallsign('BAW123'), 'Speedbird 123');
+    this.expect('Two word telephony', radiotelephonyCallsign('ACA45'), 'Air Canada 45');
+    this.expect('Registration', radiotelephonyCallsign('DEABC'), 'Delta Echo Alfa Bravo Charlie');
+    this.expect('US registration', radiotelephonyCallsign('N7WMW'), 'November 7 Whiskey Mike Whiskey');
+    this.expect('Military with telephony', radiotelephonyCallsign('RRR12'), 'Ascot 12');
+    this.expect('Military name', radiotelephonyCallsign('COBRA05'), 'Cobra 05');
+    this.expect('Military letters spelled', radiotelephonyCallsign('HR33'), 'Hotel Romeo 33');
+    this.expect('Longest military name wins', radiotelephonyCallsign('REDARROW01'), 'Red Arrow 01');
+  }
+
+  // Test 3: Abbreviated callsigns once contact is established
+  testAbbreviation() {
+    console.log('3️⃣  Testing Abbreviation (First and last two characters)...');
+
+    this.expect('Registration abbreviated', abbreviateCallsign('DEABC'), 'DBC');
+    this.expect('US registration abbreviated', abbreviateCallsign('N76NXW'), 'NXW');
+    this.expect('Airline never abbreviated', abbreviateCallsign('BAW123'), 'BAW123');
+    this.expect('Military never abbreviated', abbreviateCallsign('COBRA05'), 'COBRA05');
+    this.expect('Written abbreviated', radiotelephonyCallsign('GABCD', true), 'Golf Charlie Delta');
+    this.expect('Spoken abbreviated', pronounceCallsign('GABCD', true), 'golf charlie delta');
+  }
+
+  // Test 4: Every generated solution opens with the radio form of the callsign
+  testSolutions() {
+    console.log('4️⃣  Testing Solutions (Radio callsign in every rendered call)...');
+
+    let rawCallsigns = 0;
+    for (let seed = 0; seed < 300; seed++) {
+      const exercise = generateExercise(seed);
+      const text = renderSolution(exercise.solutions[0]);
+      if (!text.startsWith(`${radiotelephonyCallsign(exercise.target.callsign)}, traffic`)) {
+        rawCallsigns++;
+        if (rawCallsigns <= 3) this.fail(`Seed ${seed}: "${text}" does not use the radio callsign`);
+      }
+    }
+    this.expect('Solutions without radio callsign', rawCallsigns, 0);
+
+    const abbreviated = renderSolution({ ...generateExercise(1).solutions[0], callsign: 'DEABC' }, 'icao', { abbreviatedCallsign: true });
+    this.expect('Abbreviated option reaches the solution', abbreviated.startsWith('Delta Bravo Charlie, traffic'), true);
+  }
+}
+
+runWhenMain(module, () => new CallsignTester());
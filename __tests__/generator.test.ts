@@ -8,7 +8,10 @@
 
 // Use require for TypeScript modules with tsx
 const { generateExercise } = require('../lib/generator');
-const { MILITARY_CALLSIGNS } = require('../lib/constants');
+const { MILITARY_CALLSIGNS, CONFLICT_LIMITS, DEFAULT_GENERATOR_OPTIONS } = require('../lib/constants');
+const { advanceExercise, SWEEP_SECONDS } = require('../lib/simulation');
+const { renderSolution, renderSolutions, cardinalDirection } = require('../lib/phraseology');
+const { radiotelephonyCallsign } = require('../lib/callsign');
 
 class GeneratorTester {
   private testCount = 10000; // Large sample for statistical validation
@@ -42,6 +45,14 @@ class GeneratorTester {
     this.testLevelChangeLogic();
     this.testSolutionFormat();
     this.testDataValidationRequirements();
+    this.testSeedReproducibility();
+    this.testGeneratorOptions();
+    this.testMultipleIntruders();
+    this.testDifficultyPresets();
+    this.testLiveSimulation();
+    this.testRealConflicts();
+    this.testPhraseologyProfiles();
+    this.testStructuredSolutions();
     
     // Print comprehensive report
     this.printTestReport();
@@ -88,13 +99,13 @@ class GeneratorTester {
     console.log('2️⃣  Testing Flight Rule Compatibility (Context: Never mix VFR with IFR)...');
     
     const mixedRules = this.results.filter(ex => 
-      ex.target.flightRule !== ex.intruder.flightRule
+      ex.target.flightRule !== ex.intruders[0].flightRule
     );
     
     if (mixedRules.length > 0) {
       this.errors.push(`${mixedRules.length} exercises mix VFR with IFR traffic (should be 0)`);
       mixedRules.slice(0, 3).forEach((ex, i) => {
-        this.errors.push(`  Example ${i + 1}: Target=${ex.target.flightRule}, Intruder=${ex.intruder.flightRule}`);
+        this.errors.push(`  Example ${i + 1}: Target=${ex.target.flightRule}, Intruder=${ex.intruders[0].flightRule}`);
       });
     }
     
@@ -107,7 +118,7 @@ class GeneratorTester {
     
     const vfrExercises = this.results.filter(ex => ex.target.flightRule === 'VFR');
     const invalidVFRLevels = vfrExercises.filter(ex => {
-      const levelDiff = Math.abs(ex.target.level - ex.intruder.level);
+      const levelDiff = Math.abs(ex.target.level - ex.intruders[0].level);
       return levelDiff < 200 || levelDiff > 1000;
     });
     
@@ -124,7 +135,7 @@ class GeneratorTester {
     
     const ifrExercises = this.results.filter(ex => ex.target.flightRule === 'IFR');
     const invalidIFRLevels = ifrExercises.filter(ex => {
-      const levelDiff = Math.abs(ex.target.level - ex.intruder.level);
+      const levelDiff = Math.abs(ex.target.level - ex.intruders[0].level);
       return levelDiff !== 1000;
     });
     
@@ -175,7 +186,7 @@ class GeneratorTester {
     
     const vfrTargetExercises = this.results.filter(ex => ex.target.flightRule === 'VFR');
     const militaryIntruders = vfrTargetExercises.filter(ex => 
-      this.milCallsigns.some((mil: string) => ex.intruder.callsign.startsWith(mil))
+      this.milCallsigns.some((mil: string) => ex.intruders[0].callsign.startsWith(mil))
     );
     
     const militaryPercentage = (militaryIntruders.length / vfrTargetExercises.length) * 100;
@@ -187,7 +198,7 @@ class GeneratorTester {
     
     // Check military callsign format (should end with 2 numbers)
     const invalidMilitaryFormat = militaryIntruders.filter(ex => {
-      const callsign = ex.intruder.callsign;
+      const callsign = ex.intruders[0].callsign;
       const lastTwoChars = callsign.slice(-2);
       return !/^\d{2}$/.test(lastTwoChars);
     });
@@ -212,11 +223,11 @@ class GeneratorTester {
     console.log('7️⃣  Testing Aircraft Levels (Context: Rounded to 10, max 1000ft diff)...');
     
     const invalidLevels = this.results.filter(ex => {
-      return (ex.target.level % 10 !== 0) || (ex.intruder.level % 10 !== 0);
+      return (ex.target.level % 10 !== 0) || (ex.intruders[0].level % 10 !== 0);
     });
     
     const largeLevelDifferences = this.results.filter(ex => {
-      return Math.abs(ex.target.level - ex.intruder.level) > 1000;
+      return Math.abs(ex.target.level - ex.intruders[0].level) > 1000;
     });
     
     // Check target aircraft don't have level changes
@@ -243,7 +254,7 @@ class GeneratorTester {
     
     const directionCounts: Record<string, number> = {};
     this.results.forEach(ex => {
-      const dir = ex.situation.direction;
+      const dir = ex.situations[0].direction;
       directionCounts[dir] = (directionCounts[dir] || 0) + 1;
     });
     
@@ -279,7 +290,7 @@ class GeneratorTester {
     const violations: string[] = [];
     
     this.results.forEach((ex, index) => {
-      const { clock, distance, direction } = ex.situation;
+      const { clock, distance, direction } = ex.situations[0];
       
       switch (direction) {
         case 'crossing left to right':
@@ -326,8 +337,8 @@ class GeneratorTester {
             violations.push(`Ex${index}: ${direction} has distance ${distance} (should be 2-6 miles)`);
           }
           // Check intruder speed > target speed
-          if (ex.intruder.speed <= ex.target.speed) {
-            violations.push(`Ex${index}: Overtaking intruder speed ${ex.intruder.speed} not > target speed ${ex.target.speed}`);
+          if (ex.intruders[0].speed <= ex.target.speed) {
+            violations.push(`Ex${index}: Overtaking intruder speed ${ex.intruders[0].speed} not > target speed ${ex.target.speed}`);
           }
           break;
       }
@@ -348,7 +359,7 @@ class GeneratorTester {
     console.log('🔟 Testing Distance Rules (Context: Proper distance calculations)...');
     
     const distanceIssues = this.results.filter(ex => {
-      const distance = ex.situation.distance;
+      const distance = ex.situations[0].distance;
       // Based on direction-specific rules, distance should be within reasonable ranges
       return distance < 2 || distance > 9;
     });
@@ -364,12 +375,12 @@ class GeneratorTester {
   testLevelChangeLogic() {
     console.log('1️⃣1️⃣ Testing Level Change Logic (Context: THROUGH level, not TO same level)...');
     
-    const levelChangeExercises = this.results.filter(ex => ex.intruder.levelChange);
+    const levelChangeExercises = this.results.filter(ex => ex.intruders[0].levelChange);
     const invalidLevelChanges = levelChangeExercises.filter(ex => {
       const targetLevel = ex.target.level;
-      const intruderLevel = ex.intruder.level;
-      const changeToLevel = ex.intruder.levelChange.to;
-      const direction = ex.intruder.levelChange.dir;
+      const intruderLevel = ex.intruders[0].level;
+      const changeToLevel = ex.intruders[0].levelChange.to;
+      const direction = ex.intruders[0].levelChange.dir;
       
       if (direction === 'descending') {
         // Should be descending THROUGH target level (from higher to lower than target)
@@ -384,7 +395,7 @@ class GeneratorTester {
     
     // Check level changes are rounded to 10
     const unroundedLevelChanges = levelChangeExercises.filter(ex => 
-      ex.intruder.levelChange.to % 10 !== 0
+      ex.intruders[0].levelChange.to % 10 !== 0
     );
     
     if (invalidLevelChanges.length > 0) {
@@ -402,19 +413,22 @@ class GeneratorTester {
   testSolutionFormat() {
     console.log('1️⃣2️⃣ Testing Solution Format (Context: Specific format with level change)...');
     
-    const missingSolutions = this.results.filter(ex => !ex.solution || ex.solution.length < 10);
+    // Solutions are structured - check the ICAO text they render to
+    const solutionText = (ex: any) => ex.solutions[0] ? renderSolution(ex.solutions[0]) : '';
+    
+    const missingSolutions = this.results.filter(ex => solutionText(ex).length < 10);
     const invalidSolutionFormat = this.results.filter(ex => {
-      if (!ex.solution) return true;
-      const solution = ex.solution.toLowerCase();
+      if (!ex.solutions[0]) return true;
+      const solution = solutionText(ex).toLowerCase();
       return !solution.includes('traffic') || 
              !solution.includes('clock') || 
              !solution.includes('miles');
     });
     
     // Check level change information is included when applicable
-    const levelChangeExercises = this.results.filter(ex => ex.intruder.levelChange);
+    const levelChangeExercises = this.results.filter(ex => ex.intruders[0].levelChange);
     const missingLevelChangeInfo = levelChangeExercises.filter(ex => {
-      const solution = ex.solution.toLowerCase();
+      const solution = solutionText(ex).toLowerCase();
       return !solution.includes('through your level');
     });
     
@@ -439,15 +453,15 @@ class GeneratorTester {
     
     // Check for irrelevant level traffic (same level with no level change)
     const irrelevantLevelTraffic = this.results.filter(ex => {
-      const sameLevels = ex.target.level === ex.intruder.level;
-      const noLevelChange = !ex.intruder.levelChange;
+      const sameLevels = ex.target.level === ex.intruders[0].level;
+      const noLevelChange = !ex.intruders[0].levelChange;
       return sameLevels && noLevelChange;
     });
     
     // Check speed ranges (60-350 knots from context.txt)
     const invalidSpeeds = this.results.filter(ex => {
       return ex.target.speed < 60 || ex.target.speed > 350 ||
-             ex.intruder.speed < 60 || ex.intruder.speed > 350;
+             ex.intruders[0].speed < 60 || ex.intruders[0].speed > 350;
     });
     
     if (irrelevantLevelTraffic.length > 0) {
@@ -461,6 +475,318 @@ class GeneratorTester {
     console.log(`   Irrelevant level traffic: ${irrelevantLevelTraffic.length} | Invalid speeds: ${invalidSpeeds.length}`);
   }
 
+  // Test 14: Seeded generation - same seed and options, same exercise
+  testSeedReproducibility() {
+    console.log('1️⃣4️⃣ Testing Seed Reproducibility (Same seed and options must give the same exercise)...');
+    
+    // Default options, plus a session that changes everything the generator is asked for
+    const custom = Array.from({ length: 100 }, (_, i) => generateExercise(1000 + i, {
+      difficulty: i % 2 ? 'advanced' : 'beginner',
+      intruderCount: 2,
+      directions: ['converging', 'overtaking', 'opposite direction'],
+      directionWeights: { ...DEFAULT_GENERATOR_OPTIONS.directionWeights, overtaking: 60 },
+      vfrProbability: 0.5,
+      category: i % 3 ? undefined : { direction: 'opposite direction', flightRule: 'IFR', levelChange: true },
+    }));
+    const exercises = [...this.results.slice(0, 200), ...custom];
+    const seeds = exercises.map(ex => ex.seed);
+    const mismatches = seeds.filter((seed, index) => {
+      const replayed = generateExercise(seed, exercises[index].options);
+      return JSON.stringify(replayed) !== JSON.stringify(exercises[index]);
+    });
+    
+    const missingSeeds = this.results.filter(ex => typeof ex.seed !== 'number' || !ex.options);
+    
+    if (mismatches.length > 0) {
+      this.errors.push(`${mismatches.length} seeds did not reproduce the same exercise (first: ${mismatches[0]})`);
+    }
+    
+    if (missingSeeds.length > 0) {
+      this.errors.push(`${missingSeeds.length} exercises have no seed or options recorded`);
+    }
+    
+    console.log(`   Replayed seeds: ${seeds.length} | Mismatches: ${mismatches.length} | Missing seeds: ${missingSeeds.length}`);
+  }
+
+  // Test 15: Generator options - instructor-chosen directions and rates are respected
+  testGeneratorOptions() {
+    console.log('1️⃣5️⃣ Testing Generator Options (Enabled directions, flight rule mix, military and level change rates)...');
+    
+    const sample = 500;
+    const focused = Array.from({ length: sample }, (_, i) => generateExercise(i, {
+      directions: ['overtaking', 'opposite direction'],
+      vfrProbability: 0,
+      levelChangeRate: 0,
+    }));
+    const wrongDirection = focused.filter(ex => !['overtaking', 'opposite direction'].includes(ex.situations[0].direction));
+    const vfrExercises = focused.filter(ex => ex.target.flightRule === 'VFR');
+    const levelChanges = focused.filter(ex => ex.intruders[0].levelChange);
+    
+    const noMilitary = Array.from({ length: sample }, (_, i) => generateExercise(i, { vfrProbability: 1, militaryRate: 0 }));
+    const militaryIntruders = noMilitary.filter(ex => ex.intruders[0].isMil);
+    
+    if (wrongDirection.length > 0) {
+      this.errors.push(`${wrongDirection.length} exercises use a direction that was switched off`);
+    }
+    if (vfrExercises.length > 0) {
+      this.errors.push(`${vfrExercises.length} exercises are VFR with vfrProbability 0`);
+    }
+    if (levelChanges.length > 0) {
+      this.errors.push(`${levelChanges.length} exercises have level changes with levelChangeRate 0`);
+    }
+    if (militaryIntruders.length > 0) {
+      this.errors.push(`${militaryIntruders.length} exercises have military intruders with militaryRate 0`);
+    }
+    
+    console.log(`   Wrong direction: ${wrongDirection.length} | VFR: ${vfrExercises.length} | Level changes: ${levelChanges.length} | Military: ${militaryIntruders.length}`);
+  }
+
+  // Test 16: Multiple intruders - several conflicting tracks against one target
+  testMultipleIntruders() {
+    console.log('1️⃣6️⃣ Testing Multiple Intruders (Own clock position, same flight rules, one solution line each)...');
+    
+    const sample = 300;
+    const exercises = Array.from({ length: sample }, (_, i) => generateExercise(i, { intruderCount: 3 }));
+    
+    const intruderCounts: Record<number, number> = {};
+    exercises.forEach(ex => {
+      intruderCounts[ex.intruders.length] = (intruderCounts[ex.intruders.length] || 0) + 1;
+    });
+    
+    const misaligned = exercises.filter(ex =>
+      ex.situations.length !== ex.intruders.length || ex.solutions.length !== ex.intruders.length
+    );
+    const mixedRules = exercises.filter(ex =>
+      ex.intruders.some((intruder: any) => intruder.flightRule !== ex.target.flightRule)
+    );
+    const sharedClocks = exercises.filter(ex =>
+      new Set(ex.situations.map((situation: any) => situation.clock)).size !== ex.situations.length
+    );
+    const tooFewIntruders = exercises.filter(ex => ex.intruders.length < 2);
+    
+    if (misaligned.length > 0) {
+      this.errors.push(`${misaligned.length} multi-intruder exercises don't have one situation and solution per intruder`);
+    }
+    if (mixedRules.length > 0) {
+      this.errors.push(`${mixedRules.length} multi-intruder exercises mix VFR with IFR traffic`);
+    }
+    if (sharedClocks.length > 0) {
+      this.errors.push(`${sharedClocks.length} multi-intruder exercises put two intruders on the same clock position`);
+    }
+    if (tooFewIntruders.length > sample * 0.05) {
+      this.warnings.push(`${tooFewIntruders.length} exercises fell back to a single intruder when 3 were requested`);
+    }
+    
+    console.log(`   Intruder counts: ${JSON.stringify(intruderCounts)} | Misaligned: ${misaligned.length} | Mixed rules: ${mixedRules.length} | Shared clocks: ${sharedClocks.length}`);
+  }
+
+  // Test 17: Difficulty Presets - Every preset generates, records itself and applies its rates
+  testDifficultyPresets() {
+    console.log('1️⃣7️⃣ Testing Difficulty Presets (Beginner/Intermediate/Advanced generate and apply their rules)...');
+    
+    const sample = 300;
+    const summary: string[] = [];
+    
+    (['beginner', 'intermediate', 'advanced'] as const).forEach(difficulty => {
+      const exercises: any[] = [];
+      let failures = 0;
+      for (let seed = 0; seed < sample; seed++) {
+        try {
+          exercises.push(generateExercise(seed, { difficulty }));
+        } catch {
+          failures++;
+        }
+      }
+      
+      if (failures > 0) {
+        this.errors.push(`${failures} ${difficulty} exercises failed to generate`);
+      }
+      const unrecorded = exercises.filter(ex => ex.difficulty !== difficulty);
+      if (unrecorded.length > 0) {
+        this.errors.push(`${unrecorded.length} ${difficulty} exercises don't record their difficulty`);
+      }
+      
+      const levelChanges = exercises.filter(ex => ex.intruders.some((intruder: any) => intruder.levelChange)).length;
+      const military = exercises.filter(ex => ex.intruders.some((intruder: any) => intruder.isMil)).length;
+      if (difficulty === 'beginner' && (levelChanges > 0 || military > 0)) {
+        this.errors.push(`Beginner exercises should have no level changes or military traffic (got ${levelChanges} / ${military})`);
+      }
+      
+      summary.push(`${difficulty}: ${exercises.length}/${sample} ok, level changes ${levelChanges}, military ${military}`);
+    });
+    
+    console.log(`   ${summary.join(' | ')}`);
+  }
+
+  // Test 18: Live Simulation - Traffic moves, the target stays centred and the solution follows the picture
+  testLiveSimulation() {
+    console.log('1️⃣8️⃣ Testing Live Simulation (Moving traffic, centred target, recomputed solutions)...');
+    
+    const sample = 300;
+    const seconds = 10 * SWEEP_SECONDS;
+    let changedAtZero = 0;
+    let offCentre = 0;
+    let wrongDistance = 0;
+    let wrongHistory = 0;
+    let levelNotProgressed = 0;
+    let levelChanges = 0;
+    
+    for (let seed = 0; seed < sample; seed++) {
+      const exercise = generateExercise(seed, { intruderCount: 2 });
+      if (advanceExercise(exercise, 0) !== exercise) changedAtZero++;
+      
+      const live = advanceExercise(exercise, seconds);
+      if (Math.hypot(live.target.position.x, live.target.position.y) > 1e-9) offCentre++;
+      
+      live.intruders.forEach((intruder: any, index: number) => {
+        // Reported distance must match the moved picture
+        const distance = Math.round(Math.hypot(intruder.position.x, intruder.position.y));
+        if (live.situations[index].distance !== distance) wrongDistance++;
+        
+        // The newest history dot is exactly one sweep of flying behind the aircraft
+        const dot = intruder.history[0];
+        const sweepMiles = intruder.speed * SWEEP_SECONDS / 3600;
+        const targetMiles = live.target.speed * SWEEP_SECONDS / 3600;
+        if (Math.hypot(intruder.position.x - dot.x, intruder.position.y - dot.y) > sweepMiles + targetMiles + 1e-9) wrongHistory++;
+        
+        const original = exercise.intruders[index];
+        if (original.levelChange) {
+          levelChanges++;
+          if (intruder.level === original.level) levelNotProgressed++;
+        }
+      });
+    }
+    
+    if (changedAtZero > 0) {
+      this.errors.push(`${changedAtZero} exercises changed when advanced by 0 seconds`);
+    }
+    if (offCentre > 0) {
+      this.errors.push(`${offCentre} simulated exercises moved the target away from the radar centre`);
+    }
+    if (wrongDistance > 0) {
+      this.errors.push(`${wrongDistance} simulated solutions report a distance that doesn't match the picture`);
+    }
+    if (wrongHistory > 0) {
+      this.errors.push(`${wrongHistory} simulated history dots are further back than one radar sweep`);
+    }
+    if (levelNotProgressed > 0) {
+      this.errors.push(`${levelNotProgressed}/${levelChanges} climbing/descending intruders didn't change level`);
+    }
+    
+    console.log(`   After ${seconds}s: Off centre: ${offCentre} | Wrong distances: ${wrongDistance} | Wrong history: ${wrongHistory} | Level changes progressed: ${levelChanges - levelNotProgressed}/${levelChanges}`);
+  }
+
+  // Test 19: Real Conflicts - Closest point of approach is close, soon and without much vertical separation
+  testRealConflicts() {
+    console.log('1️⃣9️⃣ Testing Real Conflicts (Closest point of approach within the conflict limits)...');
+    
+    const situations = this.results.flatMap(ex => ex.situations);
+    const tooFar = situations.filter((s: any) => s.cpaDistance > CONFLICT_LIMITS.maxCpaDistance).length;
+    const wrongTime = situations.filter((s: any) =>
+      s.timeToCpa < CONFLICT_LIMITS.minTimeToCpa || s.timeToCpa > CONFLICT_LIMITS.maxTimeToCpa
+    ).length;
+    const tooHigh = situations.filter((s: any) => s.cpaVerticalSeparation > CONFLICT_LIMITS.maxVerticalSeparation).length;
+    
+    if (tooFar > 0) {
+      this.errors.push(`${tooFar} situations pass further than ${CONFLICT_LIMITS.maxCpaDistance} miles at the closest point of approach`);
+    }
+    if (wrongTime > 0) {
+      this.errors.push(`${wrongTime} situations reach the closest point of approach too soon or too late`);
+    }
+    if (tooHigh > 0) {
+      this.errors.push(`${tooHigh} situations have more than ${CONFLICT_LIMITS.maxVerticalSeparation} feet vertical separation at the closest point of approach`);
+    }
+    
+    const averageCpa = situations.reduce((sum: number, s: any) => sum + s.cpaDistance, 0) / situations.length;
+    console.log(`   Average CPA: ${averageCpa.toFixed(2)} miles | Too far: ${tooFar} | Wrong time: ${wrongTime} | Too much vertical: ${tooHigh}`);
+  }
+
+  // Test 20: Phraseology Profiles - Every profile words the same exercise in its own style
+  testPhraseologyProfiles() {
+    console.log('2️⃣0️⃣ Testing Phraseology Profiles (ICAO, FAA and UK CAP 413 wording)...');
+    
+    const sample = this.results.slice(0, 500);
+    let icaoMismatches = 0;
+    let faaInvalid = 0;
+    let ukInvalid = 0;
+    
+    sample.forEach(ex => {
+      const icao = renderSolutions(ex, 'icao');
+      const faa = renderSolutions(ex, 'faa');
+      const uk = renderSolutions(ex, 'uk');
+      
+      // ICAO must read exactly like the situation it was built from
+      icao.forEach((line: string, index: number) => {
+        const situation = ex.situations[index];
+        const intruder = ex.intruders[index];
+        const opener = index === 0 ? `${radiotelephonyCallsign(ex.target.callsign)}, traffic` : 'additional traffic';
+        const expected = `${opener}, ${situation.clock} o'clock, ${situation.distance} miles, ${situation.direction}, ${situation.level}, ${intruder.type.type}${intruder.wtc === 'H' ? ', heavy' : ''}`;
+        if (line !== expected) icaoMismatches++;
+      });
+      
+      faa.forEach((line: string, index: number) => {
+        const cardinal = cardinalDirection(ex.intruders[index].heading);
+        if (!line.includes(`${cardinal}bound`) || !line.includes('altitude indicates') || /\d+ o'clock/.test(line)) faaInvalid++;
+      });
+      uk.forEach((line: string, index: number) => {
+        if (!line.includes(`indicating ${ex.situations[index].level}`)) ukInvalid++;
+      });
+    });
+    
+    const cardinalChecks: [number, string][] = [[0, 'north'], [44, 'northeast'], [265, 'west'], [338, 'north'], [-90, 'west']];
+    const wrongCardinals = cardinalChecks.filter(([heading, expected]) => cardinalDirection(heading) !== expected);
+    
+    if (icaoMismatches > 0) {
+      this.errors.push(`${icaoMismatches} ICAO renderings differ from their situations`);
+    }
+    if (faaInvalid > 0) {
+      this.errors.push(`${faaInvalid} FAA traffic calls miss the direction of travel, Mode C altitude or spoken clock`);
+    }
+    if (ukInvalid > 0) {
+      this.errors.push(`${ukInvalid} UK traffic calls miss the "indicating" level`);
+    }
+    if (wrongCardinals.length > 0) {
+      this.errors.push(`Wrong cardinal directions for headings: ${wrongCardinals.map(([heading]) => heading).join(', ')}`);
+    }
+    
+    console.log(`   ICAO mismatches: ${icaoMismatches} | FAA invalid: ${faaInvalid} | UK invalid: ${ukInvalid} | Wrong cardinals: ${wrongCardinals.length}`);
+  }
+
+  // Test 21: Structured Solutions - Every element matches the exercise it describes
+  testStructuredSolutions() {
+    console.log('2️⃣1️⃣ Testing Structured Solutions (Callsign, clock, distance, direction, level, type, wake)...');
+    
+    let mismatches = 0;
+    let missingLevelChange = 0;
+    
+    this.results.forEach(ex => {
+      ex.solutions.forEach((solution: any, index: number) => {
+        const situation = ex.situations[index];
+        const intruder = ex.intruders[index];
+        if (solution.callsign !== ex.target.callsign ||
+            solution.additional !== (index > 0) ||
+            solution.clock !== situation.clock ||
+            solution.distance !== situation.distance ||
+            solution.direction !== situation.direction ||
+            solution.level.altitude !== intruder.level ||
+            solution.type.designator !== intruder.type.type ||
+            solution.wake !== intruder.wtc) {
+          mismatches++;
+        }
+        if (Boolean(intruder.levelChange) !== Boolean(solution.levelChange)) missingLevelChange++;
+      });
+    });
+    
+    if (mismatches > 0) {
+      this.errors.push(`${mismatches} structured solutions don't match their exercise`);
+    }
+    if (missingLevelChange > 0) {
+      this.errors.push(`${missingLevelChange} structured solutions lose or invent a level change`);
+    }
+    
+    console.log(`   Mismatches: ${mismatches} | Level change mismatches: ${missingLevelChange}`);
+  }
+
   // Print comprehensive test report
   printTestReport() {
     console.log('\n📋 GENERATOR QUALITY TEST REPORT');
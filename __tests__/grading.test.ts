@@ -0,0 +1,142 @@
+/**
+ * Typed Answer Grading Test Suite
+ *
+ * Checks that typed traffic calls are parsed forgivingly ("two o'clock" = "2 o'clock")
+ * and graded element by element against the structured solution.
+ * Run with: npx tsx __tests__/grading.test.ts
+ */
+
+import { runWhenMain, TestSuite } from './harness';
+
+// Use require for TypeScript modules with tsx
+const { normalizeCall, parseTrafficCall, gradeAnswer, suggestAssessment } = require('../lib/grading');
+const { renderSolution } = require('../lib/phraseology');
+const { generateExercise } = require('../lib/generator');
+
+// A fixed solution so every test knows exactly what the right answer is
+const SOLUTION = {
+  callsign: 'DLH123',
+  additional: false,
+  clock: 2,
+  distance: 5,
+  direction: 'crossing right to left',
+  track: 270,
+  level: { feet: 1000, relation: 'above', altitude: 6000 },
+  levelChange: undefined,
+  type: { designator: 'A320', name: 'Airbus A320' },
+  wake: 'M',
+};
+
+const CLIMBING_SOLUTION = {
+  ...SOLUTION,
+  level: { feet: 1000, relation: 'below', altitude: 4000 },
+  levelChange: { dir: 'climbing', throughYourLevel: true, to: 6000 },
+};
+
+class GradingTester extends TestSuite {
+  constructor() {
+    super({
+      title: 'Typed Answer Grading',
+      report: 'GRADING',
+      success: 'Typed answers are parsed and graded correctly!',
+    });
+  }
+
+  protected runTests() {
+    this.testNormalizer();
+    this.testParser();
+    this.testGrading();
+    this.testSuggestions();
+    this.testGeneratedSolutions();
+  }
+
+  // Test 1: Number words and abbreviations become one standard form
+  testNormalizer() {
+    console.log('1️⃣  Testing Normalizer (Number words, abbreviations, punctuation)...');
+
+    this.expect('Clock in words', normalizeCall("Two o'clock"), '2 oclock');
+    this.expect('Thousands', normalizeCall('one thousand five hundred ft above'), '1500 feet above');
+    this.expect('Digit by digit', normalizeCall('lufthansa one two three'), 'lufthansa 123');
+    this.expect('Comma thousands', normalizeCall('1,000 ft below'), '1000 feet below');
+    this.expect('Tens', normalizeCall('twenty five miles'), '25 miles');
+  }
+
+  // Test 2: Each element is found in free-form text
+  testParser() {
+    console.log('2️⃣  Testing Parser (Clock, distance, direction, level)...');
+
+    const parsed = parseTrafficCall("DLH123 traffic two o'clock 5 miles crossing right to left one thousand feet above A320");
+    this.expect('Clock', parsed.clock, 2);
+    this.expect('Distance', parsed.distance, 5);
+    this.expect('Direction', parsed.direction, 'crossing right to left');
+    this.expect('Level', parsed.level, { feet: 1000, relation: 'above' });
+
+    const faa = parseTrafficCall("traffic, two o'clock, four miles, westbound, altitude indicates 3,500, descending");
+    this.expect('FAA cardinal', faa.cardinal, 'west');
+    this.expect('FAA altitude', faa.altitude, 3500);
+    this.expect('FAA level change', faa.levelChange, 'descending');
+
+    const climbing = parseTrafficCall('1000 ft below, climbing through your level');
+    this.expect('Through your level', [climbing.levelChange, climbing.throughYourLevel], ['climbing', true]);
+  }
+
+  // Test 3: Grading marks exactly the wrong elements
+  testGrading() {
+    console.log('3️⃣  Testing Grading (Field by field comparison)...');
+
+    const perfect = gradeAnswer("DLH123, traffic, 2 o'clock, 5 miles, crossing right to left, 1000 feet above, A320", [SOLUTION]);
+    this.expect('Perfect answer mistakes', perfect.mistakes, 0);
+
+    const words = gradeAnswer("DLH123 traffic two o'clock five miles crossing right to left one thousand feet above Airbus A320", [SOLUTION]);
+    this.expect('Spelled-out answer mistakes', words.mistakes, 0);
+
+    const wrongClock = gradeAnswer("traffic 3 o'clock 5 miles crossing right to left 1000 feet above A320", [SOLUTION]);
+    this.expect('Wrong clock marked', wrongClock.calls[0].filter((e: any) => !e.correct).map((e: any) => e.key), ['clock']);
+
+    const faa = gradeAnswer("DLH123 traffic two o'clock five miles westbound altitude indicates 6,000 Airbus A320", [SOLUTION]);
+    this.expect('FAA style answer mistakes', faa.mistakes, 0);
+
+    const distanceEstimate = gradeAnswer("traffic 2 o'clock 6 miles crossing right to left 1000 feet above A320", [SOLUTION]);
+    this.expect('Distance within one mile', distanceEstimate.mistakes, 0);
+
+    const forgotClimb = gradeAnswer("traffic 2 o'clock 5 miles crossing right to left 1000 feet below A320", [CLIMBING_SOLUTION]);
+    this.expect('Missing "climbing through your level"', forgotClimb.calls[0].filter((e: any) => !e.correct).map((e: any) => e.key), ['level']);
+
+    const twoCalls = gradeAnswer(
+      "DLH123 traffic 2 o'clock 5 miles crossing right to left 1000 feet above A320, additional traffic 2 o'clock 5 miles crossing right to left 1000 feet below climbing through your level A320",
+      [SOLUTION, { ...CLIMBING_SOLUTION, additional: true }]
+    );
+    this.expect('Two calls graded separately', twoCalls.mistakes, 0);
+
+    const missingSecond = gradeAnswer("DLH123 traffic 2 o'clock 5 miles crossing right to left 1000 feet above A320", [SOLUTION, SOLUTION]);
+    this.expect('Missing second call', missingSecond.mistakes, 5);
+  }
+
+  // Test 4: Mistakes map onto the assessment buttons
+  testSuggestions() {
+    console.log('4️⃣  Testing Suggestions (Mistakes to assessment option)...');
+
+    this.expect('Suggestions', [0, 1, 2, 3, 7].map(suggestAssessment), ['correct', 'almost', 'hard', 'again', 'again']);
+  }
+
+  // Test 5: Every rendered solution grades as perfect in every phraseology
+  testGeneratedSolutions() {
+    console.log('5️⃣  Testing Generated Solutions (Rendered answers grade as correct)...');
+
+    let failures = 0;
+    for (let seed = 0; seed < 300; seed++) {
+      const exercise = generateExercise(seed, { intruderCount: 2 });
+      for (const phraseology of ['icao', 'faa', 'uk']) {
+        const answer = exercise.solutions.map((solution: any) => renderSolution(solution, phraseology)).join(', ');
+        const result = gradeAnswer(answer, exercise.solutions);
+        if (result.mistakes > 0) {
+          failures++;
+          if (failures <= 3) this.fail(`Seed ${seed} ${phraseology}: "${answer}" graded with ${result.mistakes} mistakes`);
+        }
+      }
+    }
+    this.expect('Rendered solutions with mistakes', failures, 0);
+  }
+}
+
+runWhenMain(module, () => new GradingTester());
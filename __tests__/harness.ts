@@ -0,0 +1,70 @@
+/**
+ * Shared Test Harness
+ *
+ * What every feature test suite has in common: checks compare the actual and
+ * expected values as JSON, failures are collected into one report at the end,
+ * and a suite run on its own exits non-zero when any check failed.
+ * Each suite only lists its checks (see grading.test.ts for an example).
+ */
+
+interface SuiteInfo {
+  title: string;    // "Typed Answer Grading" → "🧪 Starting Typed Answer Grading Tests..."
+  report: string;   // "GRADING" → "📋 GRADING TEST REPORT"
+  success: string;  // Printed when every check passed
+}
+
+export abstract class TestSuite {
+  private errors: string[] = [];
+  private passed = 0;
+
+  constructor(private readonly info: SuiteInfo) {}
+
+  // The suite's checks, in the order they run
+  protected abstract runTests(): void | Promise<void>;
+
+  // Main test runner
+  async runAllTests(): Promise<boolean> {
+    console.log(`🧪 Starting ${this.info.title} Tests...\n`);
+
+    await this.runTests();
+
+    this.printTestReport();
+    return this.errors.length === 0;
+  }
+
+  protected expect(description: string, actual: unknown, expected: unknown) {
+    if (JSON.stringify(actual) === JSON.stringify(expected)) {
+      this.passed++;
+    } else {
+      this.errors.push(`${description}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+    }
+  }
+
+  // A failure described in the suite's own words (e.g. the first few bad seeds of a sweep)
+  protected fail(message: string) {
+    this.errors.push(message);
+  }
+
+  // Print test report
+  private printTestReport() {
+    console.log(`\n📋 ${this.info.report} TEST REPORT`);
+    console.log('='.repeat(60));
+    console.log(`   • Checks passed: ${this.passed}`);
+    console.log(`   • Failures: ${this.errors.length}`);
+
+    if (this.errors.length === 0) {
+      console.log(`\n🎉 ${this.info.success}`);
+    } else {
+      console.log('\n❌ FAILURES:');
+      this.errors.forEach(error => console.log(`   • ${error}`));
+    }
+  }
+}
+
+// Run a suite when its file is the one started (npx tsx __tests__/<name>.test.ts)
+export function runWhenMain(mod: NodeModule, createSuite: () => TestSuite) {
+  if (require.main !== mod) return;
+  createSuite().runAllTests().then(success => {
+    process.exit(success ? 0 : 1);
+  });
+}
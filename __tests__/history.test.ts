@@ -0,0 +1,166 @@
+/**
+ * History Test Suite
+ *
+ * Checks that session history is kept in full (older sessions compacted only when
+ * storage is full), and the filters, pages and deletion used by the history browser.
+ * Run with: npx tsx __tests__/history.test.ts
+ */
+
+import { runWhenMain, TestSuite } from './harness';
+
+// Use require for TypeScript modules with tsx
+const { createMemoryStorageAdapter } = require('../lib/storageAdapters');
+const storage = require('../lib/storage');
+const { filterHistory, paginate } = require('../lib/history');
+
+// A stored session completed at a local time, with one rated exercise
+const storedSession = (id: string, completedAt: Date, scorePercentage = 100, answerMode?: string) => ({
+  id,
+  totalScore: 3,
+  maxPossibleScore: 3,
+  exercisesCompleted: 1,
+  totalExercises: 1,
+  scorePercentage,
+  duration: 2,
+  completedAt: completedAt.toISOString(),
+  difficulty: 'intermediate',
+  answerMode,
+  scores: [{ option: 'correct', points: 3, timestamp: completedAt.toISOString() }],
+});
+
+// A finished session as the reducer would hand it to saveCompletedSession
+const finishedSession = (answerMode = 'typed') => ({
+  currentExercise: 1,
+  totalExercises: 1,
+  scores: [{ option: 'correct', points: 3, timestamp: new Date() }],
+  totalScore: 3,
+  startTime: new Date(Date.now() - 60000),
+  difficulty: 'intermediate',
+  answerMode,
+  retryQueue: [],
+});
+
+class HistoryTester extends TestSuite {
+  constructor() {
+    super({
+      title: 'History',
+      report: 'HISTORY',
+      success: 'Every session stays on the record and is easy to find!',
+    });
+  }
+
+  protected runTests() {
+    this.testRetention();
+    this.testCompaction();
+    this.testFilters();
+    this.testPagination();
+    this.testDelete();
+  }
+
+  // Test 1: Saving never drops old sessions and records the answer mode
+  testRetention() {
+    console.log('1️⃣  Testing Full Retention...');
+
+    storage.setStorageAdapter(createMemoryStorageAdapter());
+    for (let i = 0; i < 60; i++) storage.saveCompletedSession(finishedSession(i % 2 ? 'speech' : 'typed'));
+    const history = storage.loadSessionHistory();
+
+    this.expect('All 60 sessions kept', history.length, 60);
+    this.expect('Answer mode recorded', [history[0].answerMode, history[1].answerMode], ['speech', 'typed']);
+    this.expect('Nothing compacted while there is room', history.some((s: any) => s.compacted), false);
+    this.expect('Statistics cover every session', storage.getSessionStatistics().totalSessions, 60);
+  }
+
+  // Test 2: When storage is full, older sessions keep only their totals
+  testCompaction() {
+    console.log('2️⃣  Testing Compaction...');
+
+    const history = Array.from({ length: 55 }, (_, i) => storedSession(`${i}`, new Date(2026, 0, 1, 10, 55 - i)));
+    const compacted = storage.compactHistory(history);
+    this.expect('Newest 50 keep their scores', compacted.slice(0, 50).every((s: any) => s.scores.length === 1 && !s.compacted), true);
+    this.expect('Older sessions compacted', compacted.slice(50).map((s: any) => [s.scores.length, s.compacted]), Array(5).fill([0, true]));
+    this.expect('Totals kept', compacted[54].scorePercentage, 100);
+
+    // Storage that is full: nothing bigger than what it already holds fits
+    const stored = JSON.stringify({ schemaVersion: 2, data: history });
+    const adapter = createMemoryStorageAdapter({ 'atc-ready-session-history': stored });
+    const setItem = adapter.setItem.bind(adapter);
+    adapter.setItem = (key: string, value: string) => {
+      if (value.length > stored.length) throw new Error('QuotaExceededError');
+      setItem(key, value);
+    };
+    storage.setStorageAdapter(adapter);
+
+    this.expect('Saved when full', storage.saveCompletedSession(finishedSession()), true);
+    const saved = storage.loadSessionHistory();
+    this.expect('No session lost', saved.length, 56);
+    this.expect('Oldest sessions compacted', [saved[55].compacted, saved[0].compacted], [true, undefined]);
+
+    // IndexedDB takes the write, then loses it and reports it (the real one does this in the background)
+    const background = createMemoryStorageAdapter({ 'atc-ready-session-history': stored });
+    const store = background.setItem.bind(background);
+    background.setItem = (key: string, value: string) => {
+      if (value.length > stored.length) storage.retryLostWrite(key, value);
+      else store(key, value);
+    };
+    storage.setStorageAdapter(background);
+
+    storage.saveCompletedSession(finishedSession());
+    const retried = storage.loadSessionHistory();
+    this.expect('Lost write saved compacted', [retried.length, retried[55].compacted, retried[0].compacted], [56, true, undefined]);
+  }
+
+  // Test 3: Filters by day range, score and answer mode
+  testFilters() {
+    console.log('3️⃣  Testing Filters...');
+
+    const history = [
+      storedSession('d', new Date(2026, 2, 3, 23, 30), 40, 'speech'),
+      storedSession('c', new Date(2026, 2, 3, 0, 0), 80, 'typed'),
+      storedSession('b', new Date(2026, 2, 2, 12, 0), 100, 'self'),
+      storedSession('a', new Date(2026, 2, 1, 12, 0), 60),
+    ];
+    const ids = (filter: object) => filterHistory(history, filter).map((s: any) => s.id);
+
+    this.expect('Empty filter keeps all', ids({}), ['d', 'c', 'b', 'a']);
+    this.expect('Single day (both ends included)', ids({ from: '2026-03-03', to: '2026-03-03' }), ['d', 'c']);
+    this.expect('From only', ids({ from: '2026-03-02' }), ['d', 'c', 'b']);
+    this.expect('To only', ids({ to: '2026-03-01' }), ['a']);
+    this.expect('Score range (inclusive)', ids({ minScore: 60, maxScore: 80 }), ['c', 'a']);
+    this.expect('Answer mode', ids({ answerMode: 'typed' }), ['c']);
+    this.expect('Old sessions match no mode', ids({ answerMode: 'self' }), ['b']);
+    this.expect('Combined', ids({ from: '2026-03-02', minScore: 50, answerMode: 'self' }), ['b']);
+  }
+
+  // Test 4: Pages are 1-based and clamped
+  testPagination() {
+    console.log('4️⃣  Testing Pagination...');
+
+    const items = Array.from({ length: 23 }, (_, i) => i);
+    const page = (n: number) => paginate(items, n, 10);
+
+    this.expect('First page', [page(1).items.length, page(1).items[0], page(1).pageCount, page(1).total], [10, 0, 3, 23]);
+    this.expect('Last page', page(3).items, [20, 21, 22]);
+    this.expect('Past the end clamped', page(9).page, 3);
+    this.expect('Before the start clamped', page(0).items[0], 0);
+    this.expect('Nothing to page', [paginate([], 1, 10).page, paginate([], 1, 10).pageCount, paginate([], 1, 10).items], [1, 1, []]);
+  }
+
+  // Test 5: Deleting one session keeps the others
+  testDelete() {
+    console.log('5️⃣  Testing Delete...');
+
+    storage.setStorageAdapter(createMemoryStorageAdapter({
+      'atc-ready-session-history': JSON.stringify({
+        schemaVersion: 2,
+        data: [storedSession('2', new Date(2026, 0, 2)), storedSession('1', new Date(2026, 0, 1))],
+      }),
+    }));
+
+    this.expect('Deleted', storage.deleteSession('2'), true);
+    this.expect('Others kept', storage.loadSessionHistory().map((s: any) => s.id), ['1']);
+    this.expect('Unknown id', storage.deleteSession('nope'), false);
+  }
+}
+
+runWhenMain(module, () => new HistoryTester());
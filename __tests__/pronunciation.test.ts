@@ -0,0 +1,119 @@
+/**
+ * ICAO Pronunciation Test Suite
+ *
+ * Checks that solutions are turned into radio-style text for the "hear the answer"
+ * button: ICAO digits, grouped thousands, airline telephony and phonetic registrations.
+ * Run with: npx tsx __tests__/pronunciation.test.ts
+ */
+
+import { runWhenMain, TestSuite } from './harness';
+
+// Use require for TypeScript modules with tsx
+const { pronounceNumber, pronounceCallsign, pronounceSolution, pronounceSolutions } = require('../lib/pronunciation');
+const { normalizeTranscript } = require('../lib/transcript');
+const { gradeAnswer } = require('../lib/grading');
+const { generateExercise } = require('../lib/generator');
+
+// A fixed solution so every test knows exactly what should be said
+const SOLUTION = {
+  callsign: 'BAW123',
+  additional: false,
+  clock: 3,
+  distance: 5,
+  direction: 'crossing left to right',
+  track: 90,
+  level: { feet: 1000, relation: 'above', altitude: 6000 },
+  levelChange: undefined,
+  type: { designator: 'B744', name: 'Boeing 747-400' },
+  wake: 'H',
+};
+
+class PronunciationTester extends TestSuite {
+  constructor() {
+    super({
+      title: 'ICAO Pronunciation',
+      report: 'PRONUNCIATION',
+      success: 'Solutions are pronounced the ICAO way!',
+    });
+  }
+
+  protected runTests() {
+    this.testNumbers();
+    this.testCallsigns();
+    this.testSolutions();
+    this.testRoundTrip();
+  }
+
+  // Test 1: Digits, hundreds and thousands
+  testNumbers() {
+    console.log('1️⃣  Testing Numbers (Digits, hundreds, thousands)...');
+
+    this.expect('Tree', pronounceNumber(3), 'tree');
+    this.expect('Fife', pronounceNumber(5), 'fife');
+    this.expect('Niner', pronounceNumber(9), 'niner');
+    this.expect('Digit by digit', pronounceNumber(12), 'one two');
+    this.expect('Hundreds', pronounceNumber(500), 'fife hundred');
+    this.expect('Thousands', pronounceNumber(1000), 'one tousand');
+    this.expect('Thousands and hundreds', pronounceNumber(3500), 'tree tousand fife hundred');
+    this.expect('Ten thousand', pronounceNumber(10000), 'one zero tousand');
+  }
+
+  // Test 2: Airline telephony, registrations and military callsigns
+  testCallsigns() {
+    console.log('2️⃣  Testing Callsigns (Telephony, phonetic, military)...');
+
+    this.expect('Airline telephony', pronounceCallsign('BAW123'), 'speedbird one two tree');
+    this.expect('Two word telephony', pronounceCallsign('ACA49'), 'air canada fower niner');
+    this.expect('Alphanumeric flight number', pronounceCallsign('SWA30L'), 'southwest tree zero lima');
+    this.expect('Registration', pronounceCallsign('DEABC'), 'delta echo alfa bravo charlie');
+    this.expect('Registration with dash', pronounceCallsign('G-ABCD'), 'golf alfa bravo charlie delta');
+    this.expect('US registration', pronounceCallsign('N7WMW'), 'november seven whiskey mike whiskey');
+    this.expect('Military', pronounceCallsign('COBRA12'), 'cobra one two');
+  }
+
+  // Test 3: Whole traffic calls
+  testSolutions() {
+    console.log('3️⃣  Testing Traffic Calls (Complete pronounced answers)...');
+
+    this.expect(
+      'Single call',
+      pronounceSolution(SOLUTION),
+      "speedbird one two tree, traffic, tree o'clock, fife miles, crossing left to right, one tousand feet above, Boeing 747-400, heavy"
+    );
+
+    const climbing = {
+      ...SOLUTION,
+      additional: true,
+      clock: 11,
+      distance: 1,
+      level: { feet: 500, relation: 'below', altitude: 5500 },
+      levelChange: { dir: 'climbing', throughYourLevel: true, to: 7000 },
+      wake: 'M',
+    };
+    this.expect(
+      'Additional climbing call',
+      pronounceSolution(climbing),
+      "additional traffic, eleven o'clock, one mile, crossing left to right, fife hundred feet below, climbing through your level, Boeing 747-400"
+    );
+    this.expect('Calls joined', pronounceSolutions([SOLUTION, climbing]).split('additional traffic').length, 2);
+  }
+
+  // Test 4: What is read aloud can be heard back and graded as correct
+  testRoundTrip() {
+    console.log('4️⃣  Testing Round Trip (Pronounced answers grade as correct)...');
+
+    let failures = 0;
+    for (let seed = 0; seed < 200; seed++) {
+      const exercise = generateExercise(seed, { intruderCount: 2 });
+      const spoken = pronounceSolutions(exercise.solutions);
+      const result = gradeAnswer(normalizeTranscript(spoken), exercise.solutions);
+      if (result.mistakes > 0) {
+        failures++;
+        if (failures <= 3) this.fail(`Seed ${seed}: "${spoken}" graded with ${result.mistakes} mistakes`);
+      }
+    }
+    this.expect('Pronounced solutions with mistakes', failures, 0);
+  }
+}
+
+runWhenMain(module, () => new PronunciationTester());
@@ -0,0 +1,136 @@
+/**
+ * Spaced Repetition Test Suite
+ *
+ * Checks the SM-2 schedule of scenario categories, the due queue and that the
+ * generator builds the scenario it is asked for.
+ * Run with: npx tsx __tests__/scheduler.test.ts
+ */
+
+import { runWhenMain, TestSuite } from './harness';
+
+// Use require for TypeScript modules with tsx
+const { reviewCategory, dueQueue, nextCategory, categoryKey, SCENARIO_CATEGORIES } = require('../lib/scheduler');
+const { describeExercise } = require('../lib/analytics');
+const { generateExercise } = require('../lib/generator');
+const { DEFAULT_GENERATOR_OPTIONS } = require('../lib/constants');
+
+const NOW = new Date('2026-01-01T10:00:00.000Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const OVERTAKING_IFR = { direction: 'overtaking', flightRule: 'IFR', levelChange: false };
+const CONVERGING_VFR = { direction: 'converging', flightRule: 'VFR', levelChange: false };
+
+// Reviews a category several times in a row, one review per due date
+const reviewAll = (options: string[], category = OVERTAKING_IFR) => {
+  let state = {};
+  let now = NOW;
+  for (const option of options) {
+    state = reviewCategory(state, category, option, now);
+    now = new Date((state as any)[categoryKey(category)].due);
+  }
+  return (state as any)[categoryKey(category)];
+};
+
+class SchedulerTester extends TestSuite {
+  constructor() {
+    super({
+      title: 'Spaced Repetition',
+      report: 'SPACED REPETITION',
+      success: 'Scenario categories are scheduled correctly!',
+    });
+  }
+
+  protected runTests() {
+    this.testCorrectIntervals();
+    this.testHardAndAgain();
+    this.testEaseFactorFloor();
+    this.testDueQueue();
+    this.testGeneratorCategory();
+  }
+
+  // Test 1: Correct answers go 1 day, 6 days, then interval × ease factor
+  testCorrectIntervals() {
+    console.log('1️⃣  Testing SM-2 Intervals (Correct answers)...');
+
+    const first = reviewCategory({}, OVERTAKING_IFR, 'correct', NOW)[categoryKey(OVERTAKING_IFR)];
+    this.expect('First interval', first.interval, 1);
+    this.expect('First due date', first.due, new Date(NOW.getTime() + DAY_MS).toISOString());
+    this.expect('Ease factor grows', first.easeFactor, 2.6);
+    this.expect('Last reviewed', first.lastReviewed, NOW.toISOString());
+
+    this.expect('Second interval', reviewAll(['correct', 'correct']).interval, 6);
+    const third = reviewAll(['correct', 'correct', 'correct']);
+    this.expect('Third interval', Math.round(third.interval * 100) / 100, Math.round(6 * 2.8 * 100) / 100);
+    this.expect('Repetitions', third.repetitions, 3);
+  }
+
+  // Test 2: Hard halves the interval, again resets and comes back in a minute
+  testHardAndAgain() {
+    console.log('2️⃣  Testing Hard and Again...');
+
+    const hard = reviewAll(['correct', 'hard']);
+    this.expect('Hard halves the interval', hard.interval, 3);
+    this.expect('Hard lowers the ease factor', Math.round(hard.easeFactor * 100) / 100, 2.46);
+
+    const again = reviewAll(['correct', 'correct', 'again']);
+    this.expect('Again resets repetitions', again.repetitions, 0);
+    this.expect('Again resets the interval', again.interval, 0);
+    this.expect('Again is due in a minute', new Date(again.due).getTime() - new Date(again.lastReviewed).getTime(), 60 * 1000);
+    this.expect('Passing after again starts at 1 day', reviewAll(['correct', 'again', 'correct']).interval, 1);
+
+    const state = reviewCategory({}, CONVERGING_VFR, 'again', NOW);
+    this.expect('Both categories kept', Object.keys(reviewCategory(state, OVERTAKING_IFR, 'correct', NOW)).length, 2);
+    this.expect('Input state not changed', Object.keys(state).length, 1);
+  }
+
+  // Test 3: The ease factor never drops below 1.3
+  testEaseFactorFloor() {
+    console.log('3️⃣  Testing Ease Factor Floor...');
+
+    this.expect('Floor after many failures', reviewAll(['again', 'again', 'again', 'again', 'again', 'again']).easeFactor, 1.3);
+  }
+
+  // Test 4: Overdue categories come first, then new ones; disabled ones are left out
+  testDueQueue() {
+    console.log('4️⃣  Testing Due Queue...');
+
+    this.expect('Category count', SCENARIO_CATEGORIES.length, 15);
+    this.expect('New users start with the first category', nextCategory({}, DEFAULT_GENERATOR_OPTIONS, NOW), SCENARIO_CATEGORIES[0]);
+
+    // Everything practised, two categories overdue
+    let state: any = {};
+    for (const category of SCENARIO_CATEGORIES) state = reviewCategory(state, category, 'correct', NOW);
+    this.expect('Not due yet', nextCategory(state, DEFAULT_GENERATOR_OPTIONS, NOW), undefined);
+
+    const later = new Date(NOW.getTime() + DAY_MS / 2);
+    state[categoryKey(OVERTAKING_IFR)].due = new Date(NOW.getTime() - DAY_MS).toISOString();
+    state = reviewCategory(state, CONVERGING_VFR, 'again', new Date(later.getTime() - 10 * 60 * 1000));
+    this.expect('Most overdue first', dueQueue(state, DEFAULT_GENERATOR_OPTIONS, later).map(categoryKey), [
+      categoryKey(OVERTAKING_IFR),
+      categoryKey(CONVERGING_VFR),
+    ]);
+
+    const ifrOnly = { ...DEFAULT_GENERATOR_OPTIONS, vfrProbability: 0, directions: ['overtaking'] };
+    this.expect('Filtered by options', dueQueue({}, ifrOnly, NOW).map(categoryKey), [
+      'overtaking|IFR|level',
+      'overtaking|IFR|level-change',
+    ]);
+    const weights = Object.fromEntries(Object.keys(DEFAULT_GENERATOR_OPTIONS.directionWeights).map(direction => [direction, 0]));
+    const oppositeOnly = { ...DEFAULT_GENERATOR_OPTIONS, directionWeights: { ...weights, 'opposite direction': 5 } };
+    this.expect('Directions weighted 0 left out', [...new Set(dueQueue({}, oppositeOnly, NOW).map((category: any) => category.direction))], ['opposite direction']);
+    const beginner = { ...DEFAULT_GENERATOR_OPTIONS, difficulty: 'beginner' };
+    this.expect('No level changes for beginners', dueQueue({}, beginner, NOW).some((category: any) => category.levelChange), false);
+  }
+
+  // Test 5: The generator builds the scheduled scenario
+  testGeneratorCategory() {
+    console.log('5️⃣  Testing Generator (Scheduled scenarios)...');
+
+    for (const category of SCENARIO_CATEGORIES) {
+      const meta = describeExercise(generateExercise(7, { ...DEFAULT_GENERATOR_OPTIONS, category }));
+      this.expect(`Scenario ${categoryKey(category)}`, categoryKey(meta), categoryKey(category));
+    }
+  }
+}
+
+runWhenMain(module, () => new SchedulerTester());
@@ -0,0 +1,284 @@
+/**
+ * Storage Test Suite
+ *
+ * Runs storage, statistics and the app state reducer in Node with the in-memory
+ * storage adapter: no browser, no localStorage. Also checks schema versions,
+ * migrations of older saves, the quarantine of broken data and trainee profiles.
+ * Run with: npx tsx __tests__/storage.test.ts
+ */
+
+import { runWhenMain, TestSuite } from './harness';
+
+// Use require for TypeScript modules with tsx
+const { createMemoryStorageAdapter } = require('../lib/storageAdapters');
+const storage = require('../lib/storage');
+const { appStateReducer, createInitialState } = require('../lib/useAppState');
+const { generateExercise } = require('../lib/generator');
+const { STORAGE_SCHEMA_VERSION } = require('../lib/storageSchema');
+
+// A finished session as the reducer would hand it to saveCompletedSession
+const session = (totalScore: number, totalExercises = 2) => ({
+  currentExercise: totalExercises,
+  totalExercises,
+  scores: [],
+  totalScore,
+  startTime: new Date(Date.now() - 5 * 60000),
+  difficulty: 'intermediate',
+  retryQueue: [],
+});
+
+class StorageTester extends TestSuite {
+  constructor() {
+    super({
+      title: 'Storage',
+      report: 'STORAGE',
+      success: 'Storage works with any adapter!',
+    });
+  }
+
+  protected runTests() {
+    this.testMemoryAdapter();
+    this.testSettings();
+    this.testStatistics();
+    this.testFailingAdapter();
+    this.testReducerSession();
+    this.testProgressRoundTrip();
+    this.testMigrations();
+    this.testQuarantine();
+    this.testProfiles();
+  }
+
+  // Test 1: The in-memory adapter behaves like a tiny localStorage
+  testMemoryAdapter() {
+    console.log('1️⃣  Testing In-Memory Adapter...');
+
+    const adapter = createMemoryStorageAdapter({ a: '1' });
+    adapter.setItem('b', '2');
+    this.expect('Initial item', adapter.getItem('a'), '1');
+    this.expect('Saved item', adapter.getItem('b'), '2');
+    this.expect('Keys', adapter.keys(), ['a', 'b']);
+    adapter.removeItem('a');
+    this.expect('Removed item', adapter.getItem('a'), null);
+    this.expect('Name', adapter.name, 'memory');
+  }
+
+  // Test 2: Settings are read through the adapter, missing fields come from the defaults
+  testSettings() {
+    console.log('2️⃣  Testing Settings (Through the adapter)...');
+
+    const adapter = createMemoryStorageAdapter({ 'atc-ready-settings': JSON.stringify({ totalExercises: 20 }) });
+    storage.setStorageAdapter(adapter);
+    this.expect('Adapter in use', storage.getStorageAdapter(), adapter);
+
+    const settings = storage.loadSettings();
+    this.expect('Saved field', settings.totalExercises, 20);
+    this.expect('Default field', settings.phraseology, storage.DEFAULT_SETTINGS.phraseology);
+    this.expect('Scheduler and adaptive mix are opt-in', [settings.spacedRepetition, settings.adaptiveDifficulty], [false, false]);
+
+    this.expect('Save succeeds', storage.saveSettings({ ...settings, saveProgress: false }), true);
+    this.expect('Saved with a version label', JSON.parse(adapter.getItem('atc-ready-settings')), { schemaVersion: STORAGE_SCHEMA_VERSION, data: { ...settings, saveProgress: false } });
+  }
+
+  // Test 3: History and statistics work without a browser
+  testStatistics() {
+    console.log('3️⃣  Testing History and Statistics...');
+
+    storage.setStorageAdapter(createMemoryStorageAdapter());
+    this.expect('Empty statistics', storage.getSessionStatistics().totalSessions, 0);
+
+    storage.saveCompletedSession(session(6));
+    storage.saveCompletedSession(session(3));
+    const stats = storage.getSessionStatistics();
+    this.expect('Sessions', stats.totalSessions, 2);
+    this.expect('Total score', stats.totalScore, 9);
+    this.expect('Best percentage', stats.bestScorePercentage, 100);
+    this.expect('Completion rate', stats.completionRate, 75);
+    this.expect('Newest first', storage.loadSessionHistory().map((s: any) => s.totalScore), [3, 6]);
+  }
+
+  // Test 4: A backend that refuses to save (quota full) is reported, not thrown
+  testFailingAdapter() {
+    console.log('4️⃣  Testing Full Storage...');
+
+    const full = {
+      ...createMemoryStorageAdapter(),
+      setItem: () => { throw new Error('QuotaExceededError'); },
+    };
+    const warn = console.warn;
+    console.warn = () => {};
+    storage.setStorageAdapter(full);
+    this.expect('Save reports failure', storage.saveSettings(storage.DEFAULT_SETTINGS), false);
+    console.warn = warn;
+  }
+
+  // Test 5: The reducer plays a whole session, replaying a missed exercise
+  testReducerSession() {
+    console.log('5️⃣  Testing Reducer (A session with a replay)...');
+
+    storage.setStorageAdapter(createMemoryStorageAdapter());
+    const first = generateExercise(1);
+    const second = generateExercise(2);
+    const attempt = (exercise: object) => ({ shown: exercise, rated: exercise, seconds: 12 });
+
+    let state = createInitialState();
+    state = appStateReducer(state, { type: 'UPDATE_SETTINGS', payload: { totalExercises: 2 } });
+    this.expect('Settings saved through the adapter', storage.loadSettings().totalExercises, 2);
+
+    state = appStateReducer(state, { type: 'START_SESSION' });
+    state = appStateReducer(state, { type: 'SET_EXERCISE', payload: first });
+    const { directionWeights, ...generator } = state.settings.generator; // Same options, keys in another order
+    state = appStateReducer(state, { type: 'UPDATE_SETTINGS', payload: { ...state.settings, generator: { directionWeights, ...generator } } });
+    this.expect('Unchanged traffic settings keep the exercise', state.session.activeExercise?.seed, 1);
+    state = appStateReducer(state, { type: 'UPDATE_SETTINGS', payload: { generator: { ...generator, directionWeights, intruderCount: 2 } } });
+    this.expect('New traffic settings swap it', state.session.activeExercise, undefined);
+    state = appStateReducer(state, { type: 'UPDATE_SETTINGS', payload: { generator: { ...generator, directionWeights } } });
+    state = appStateReducer(state, { type: 'SET_EXERCISE', payload: first });
+    state = appStateReducer(state, { type: 'SHOW_ANSWER', payload: { elapsed: 8 } });
+    this.expect('Answer moment kept', state.session.answerElapsed, 8);
+
+    state = appStateReducer(state, { type: 'SUBMIT_ASSESSMENT', payload: { option: 'again', attempt: attempt(first) } });
+    this.expect('Missed exercise queued', state.session.retryQueue.map((e: any) => e.seed), [1]);
+    this.expect('Moved on', [state.session.currentExercise, state.session.activeExercise], [2, undefined]);
+
+    state = appStateReducer(state, { type: 'SET_EXERCISE', payload: second });
+    state = appStateReducer(state, { type: 'SUBMIT_ASSESSMENT', payload: { option: 'correct', attempt: attempt(second) } });
+    this.expect('Replay after the planned set', [state.gamePhase, state.session.currentExercise], ['exercise', 3]);
+
+    state = appStateReducer(state, { type: 'SET_EXERCISE', payload: first });
+    state = appStateReducer(state, { type: 'SUBMIT_ASSESSMENT', payload: { option: 'almost', attempt: attempt(first) } });
+    this.expect('Session ends', state.gamePhase, 'end');
+    this.expect('Eventual score', state.session.totalScore, 5);
+    this.expect('Replay flagged', state.session.scores.map((s: any) => s.replay === true), [false, false, true]);
+    this.expect('Time and scenario kept', [state.session.scores[0].seconds, state.session.scores[0].exercise.seed], [12, 1]);
+  }
+
+  // Test 6: Saved progress brings back the exercise on screen
+  testProgressRoundTrip() {
+    console.log('6️⃣  Testing Saved Progress...');
+
+    storage.setStorageAdapter(createMemoryStorageAdapter());
+    const exercise = generateExercise(3);
+    const saved = { ...session(3), currentExercise: 2, scores: [{ option: 'correct', points: 3, timestamp: new Date() }], activeExercise: exercise, answerElapsed: 4 };
+    storage.saveProgress(saved, 'assessment', true, false);
+
+    const progress = storage.loadProgress();
+    this.expect('Meaningful', storage.hasMeaningfulProgress(progress), true);
+    const restored = appStateReducer(createInitialState(), { type: 'RESTORE_PROGRESS', payload: progress });
+    this.expect('Same picture', restored.session.activeExercise, JSON.parse(JSON.stringify(exercise)));
+    this.expect('Answer still showing', [restored.gamePhase, restored.showAnswer, restored.session.answerElapsed], ['assessment', true, 4]);
+
+    const withoutExercise = { ...progress, session: { ...progress.session, activeExercise: undefined } };
+    const older = appStateReducer(createInitialState(), { type: 'RESTORE_PROGRESS', payload: withoutExercise });
+    this.expect('Older saves start the exercise over', [older.gamePhase, older.showAnswer], ['exercise', false]);
+  }
+
+  // Test 7: Saves from before schema versions are upgraded once, with their dates revived
+  testMigrations() {
+    console.log('7️⃣  Testing Migrations (Unversioned saves)...');
+
+    const startTime = '2026-01-01T10:00:00.000Z';
+    const legacyProgress = {
+      session: {
+        currentExercise: 2, totalExercises: 10, totalScore: 3, startTime,
+        scores: [{ option: 'correct', points: 3, timestamp: '2026-01-01T10:01:00.000Z' }],
+      },
+      gamePhase: 'exercise', showAnswer: false, showDetails: false, savedAt: startTime,
+    };
+    const adapter = createMemoryStorageAdapter({ 'atc-ready-progress': JSON.stringify(legacyProgress) });
+    storage.setStorageAdapter(adapter);
+
+    const progress = storage.loadProgress();
+    this.expect('Start time is a Date', progress.session.startTime instanceof Date, true);
+    this.expect('Score timestamps are Dates', progress.session.scores[0].timestamp instanceof Date, true);
+    this.expect('Missing fields filled', [progress.session.difficulty, progress.session.retryQueue], ['intermediate', []]);
+    this.expect('Saved back with the current version', JSON.parse(adapter.getItem('atc-ready-progress')).schemaVersion, STORAGE_SCHEMA_VERSION);
+
+    // A restored session used to hold timestamp strings, so finishing it crashed
+    const restored = appStateReducer(createInitialState(), { type: 'RESTORE_PROGRESS', payload: progress });
+    this.expect('Restored session can be saved', storage.saveCompletedSession(restored.session), true);
+    this.expect('Nothing quarantined', storage.loadQuarantine(), []);
+  }
+
+  // Test 8: Broken data goes to quarantine instead of crashing; the usable rest survives
+  testQuarantine() {
+    console.log('8️⃣  Testing Quarantine (Broken data)...');
+
+    const warn = console.warn;
+    console.warn = () => {};
+    const good = { id: '1', totalScore: 6, maxPossibleScore: 6, exercisesCompleted: 2, totalExercises: 2, scorePercentage: 100, duration: 3, completedAt: '2026-01-01T10:00:00.000Z', scores: [] };
+    const broken = { ...good, id: '2', totalScore: 'six' };
+    const adapter = createMemoryStorageAdapter({
+      'atc-ready-progress': '{"session": {"currentExer',
+      'atc-ready-session-history': JSON.stringify({ schemaVersion: STORAGE_SCHEMA_VERSION, data: [good, broken] }),
+      'atc-ready-settings': JSON.stringify({ totalExercises: 'lots', phraseology: 'faa', generator: { vfrProbability: 7 } }),
+      'atc-ready-schedule': JSON.stringify({ schemaVersion: STORAGE_SCHEMA_VERSION + 1, data: {} }),
+    });
+    storage.setStorageAdapter(adapter);
+
+    this.expect('Unreadable progress ignored', storage.loadProgress(), null);
+    this.expect('Unreadable progress removed', adapter.getItem('atc-ready-progress'), null);
+    this.expect('Broken session left out', storage.loadSessionHistory().map((s: any) => s.id), ['1']);
+    this.expect('History repaired once', JSON.parse(adapter.getItem('atc-ready-session-history')).data.length, 1);
+
+    const settings = storage.loadSettings();
+    this.expect('Broken field back to default', settings.totalExercises, storage.DEFAULT_SETTINGS.totalExercises);
+    this.expect('Good field kept', settings.phraseology, 'faa');
+    this.expect('Broken generator field back to default', settings.generator.vfrProbability, storage.DEFAULT_SETTINGS.generator.vfrProbability);
+    this.expect('Newer schedule not guessed at', storage.loadSchedule(), {});
+    console.warn = warn;
+
+    const quarantined = storage.loadQuarantine();
+    this.expect('Quarantined (newest first)', quarantined.map((item: any) => [item.key, item.reason]), [
+      ['atc-ready-schedule', `saved by a newer version (schema ${STORAGE_SCHEMA_VERSION + 1})`],
+      ['atc-ready-settings', 'broken entries left out'],
+      ['atc-ready-session-history', 'broken entries left out'],
+      ['atc-ready-progress', 'not valid JSON'],
+    ]);
+    this.expect('Original text kept', quarantined[3].data, '{"session": {"currentExer');
+    this.expect('Broken entries kept', quarantined[2].data, [broken]);
+    this.expect('Broken fields kept', quarantined[1].data, [{ totalExercises: 'lots' }, { generator: { vfrProbability: 7 } }]);
+
+    this.expect('Quarantine cleared', [storage.clearQuarantine(), storage.loadQuarantine()], [true, []]);
+  }
+
+  // Test 9: Every profile has its own drawers; the first one keeps the original keys
+  testProfiles() {
+    console.log('9️⃣  Testing Profiles (Shared devices)...');
+
+    const legacySettings = JSON.stringify({ totalExercises: 15 });
+    const adapter = createMemoryStorageAdapter({ 'atc-ready-settings': legacySettings });
+    storage.setStorageAdapter(adapter);
+
+    this.expect('One default profile', storage.loadProfiles().profiles.map((p: any) => [p.id, p.name]), [['default', 'Trainee']]);
+    this.expect('Existing data belongs to it', storage.loadSettings().totalExercises, 15);
+
+    const anna = storage.createProfile('  Anna   Smith ');
+    this.expect('Name tidied', anna.name, 'Anna Smith');
+    this.expect('Empty name refused', storage.createProfile('   '), null);
+    this.expect('Not active until switched', storage.getActiveProfile().id, 'default');
+
+    this.expect('Switched', storage.switchProfile(anna.id), true);
+    this.expect('Fresh settings', storage.loadSettings().totalExercises, storage.DEFAULT_SETTINGS.totalExercises);
+    storage.saveSettings({ ...storage.loadSettings(), totalExercises: 5 });
+    storage.saveCompletedSession(session(6));
+    this.expect('Own drawers', adapter.keys().filter((key: string) => key.startsWith(`atc-ready-profile-${anna.id}-`)).sort(),
+      [`atc-ready-profile-${anna.id}-session-history`, `atc-ready-profile-${anna.id}-settings`]);
+    this.expect('Default profile untouched', [storage.loadSettings('default').totalExercises, storage.loadSessionHistory('default').length], [15, 0]);
+    this.expect('Unknown profile refused', storage.switchProfile('nobody'), false);
+
+    this.expect('Renamed', [storage.renameProfile(anna.id, 'Anna S.'), storage.getActiveProfile().name], [true, 'Anna S.']);
+    this.expect('Blank rename refused', storage.renameProfile(anna.id, ' '), false);
+
+    // The reducer starts the new trainee on a fresh start screen
+    const busy = { ...createInitialState(), gamePhase: 'assessment', session: { ...createInitialState().session, totalScore: 9 } };
+    const loaded = appStateReducer(busy, { type: 'LOAD_PROFILE', payload: { ...storage.loadProfiles(), settings: storage.loadSettings() } });
+    this.expect('Fresh session for the trainee', [loaded.gamePhase, loaded.session.totalScore, loaded.settings.totalExercises, loaded.activeProfileId], ['start', 0, 5, anna.id]);
+
+    this.expect('Deleted', storage.deleteProfile(anna.id), true);
+    this.expect('Drawers emptied', adapter.keys().some((key: string) => key.includes(anna.id)), false);
+    this.expect('Back to the remaining profile', [storage.getActiveProfile().id, storage.loadSettings().totalExercises], ['default', 15]);
+    this.expect('Last profile kept', storage.deleteProfile('default'), false);
+  }
+}
+
+runWhenMain(module, () => new StorageTester());
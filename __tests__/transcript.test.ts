@@ -0,0 +1,105 @@
+/**
+ * Speech Transcript Test Suite
+ *
+ * Feeds recorded speech recognition transcripts through the normalizer and grader,
+ * so spoken answers can be checked without a microphone.
+ * Run with: npx tsx __tests__/transcript.test.ts
+ */
+
+import { runWhenMain, TestSuite } from './harness';
+
+// Use require for TypeScript modules with tsx
+const { normalizeTranscript, parseTranscript } = require('../lib/transcript');
+const { gradeAnswer } = require('../lib/grading');
+
+// The solution every recorded transcript below was spoken against
+const SOLUTION = {
+  callsign: 'BAW123',
+  additional: false,
+  clock: 3,
+  distance: 5,
+  direction: 'crossing left to right',
+  track: 90,
+  level: { feet: 1000, relation: 'above', altitude: 6000 },
+  levelChange: undefined,
+  type: { designator: 'B738', name: 'Boeing 737-800' },
+  wake: 'M',
+};
+
+// Transcripts as the browser recognisers actually returned them
+const RECORDED_TRANSCRIPTS = [
+  'speedbird one two three traffic tree o\'clock fife miles crossing left to right one thousand feet above B738',
+  'Speedbird 1 2 3 traffic 3:00 5 miles crossing left to right 1000 ft above b 738',
+  'speedbird 123 traffic three o\'clock five miles crossing left to right one tousand feet above boeing 737-800',
+];
+
+class TranscriptTester extends TestSuite {
+  constructor() {
+    super({
+      title: 'Speech Transcript',
+      report: 'TRANSCRIPT',
+      success: 'Spoken answers are normalized and graded correctly!',
+    });
+  }
+
+  protected runTests() {
+    this.testRadioWords();
+    this.testCallsigns();
+    this.testStructuredAnswer();
+    this.testRecordedTranscripts();
+  }
+
+  // Test 1: ICAO pronunciations become plain numbers
+  testRadioWords() {
+    console.log('1️⃣  Testing Radio Words (tree, fife, niner, tousand)...');
+
+    this.expect('Tree', normalizeTranscript("tree o'clock"), '3 oclock');
+    this.expect('Niner', normalizeTranscript('niner miles'), '9 miles');
+    this.expect('Thousand feet', normalizeTranscript('one thousand feet above'), '1000 feet above');
+    this.expect('Tree tousand fife hundred', normalizeTranscript('altitude tree tousand fife hundred'), 'altitude 3500');
+    this.expect('Clock as time', normalizeTranscript('traffic 10:00'), 'traffic 10 oclock');
+  }
+
+  // Test 2: Spoken callsigns become the written callsign
+  testCallsigns() {
+    console.log('2️⃣  Testing Callsigns (Telephony and phonetic alphabet)...');
+
+    this.expect('Telephony in words', normalizeTranscript('speedbird one two three traffic'), 'baw123 traffic');
+    this.expect('Telephony with separate digits', normalizeTranscript('Speedbird 1 2 3 traffic'), 'baw123 traffic');
+    this.expect('Two word telephony', normalizeTranscript('air canada four five traffic'), 'aca45 traffic');
+    this.expect('Telephony that is also a letter', normalizeTranscript('delta niner traffic'), 'dal9 traffic');
+    this.expect('Phonetic registration', normalizeTranscript('golf alpha bravo charlie delta traffic'), 'gabcd traffic');
+    this.expect('US registration', normalizeTranscript('november one two three alpha bravo traffic'), 'n123ab traffic');
+    this.expect('X-ray', normalizeTranscript('delta echo x-ray yankee zulu traffic'), 'dexyz traffic');
+  }
+
+  // Test 3: A transcript becomes the same structured answer as a typed call
+  testStructuredAnswer() {
+    console.log('3️⃣  Testing Structured Answer (Parsed elements)...');
+
+    const [call] = parseTranscript(RECORDED_TRANSCRIPTS[0]);
+    this.expect('Callsign', call.callsign, 'BAW123');
+    this.expect('Clock', call.clock, 3);
+    this.expect('Distance', call.distance, 5);
+    this.expect('Direction', call.direction, 'crossing left to right');
+    this.expect('Level', call.level, { feet: 1000, relation: 'above' });
+
+    const calls = parseTranscript('speedbird 123 traffic 3 o\'clock 5 miles additional traffic niner o\'clock tree miles');
+    this.expect('Additional traffic split', calls.map((parsed: any) => parsed.clock), [3, 9]);
+  }
+
+  // Test 4: Every recorded transcript grades as a perfect answer
+  testRecordedTranscripts() {
+    console.log('4️⃣  Testing Recorded Transcripts (Graded against the solution)...');
+
+    RECORDED_TRANSCRIPTS.forEach((transcript, index) => {
+      const result = gradeAnswer(normalizeTranscript(transcript), [SOLUTION]);
+      this.expect(`Recording ${index + 1} mistakes`, result.mistakes, 0);
+    });
+
+    const wrongLevel = gradeAnswer(normalizeTranscript('speedbird 123 traffic tree o\'clock fife miles crossing left to right tree thousand feet above B738'), [SOLUTION]);
+    this.expect('Wrong level marked', wrongLevel.calls[0].filter((e: any) => !e.correct).map((e: any) => e.key), ['level']);
+  }
+}
+
+runWhenMain(module, () => new TranscriptTester());
@@ -0,0 +1,91 @@
+/**
+ * Progress Trends Test Suite
+ *
+ * Checks the numbers behind the Statistics charts: score per session with its
+ * rolling average, the rating distribution and the practice calendar.
+ * Run with: npx tsx __tests__/trends.test.ts
+ */
+
+import { runWhenMain, TestSuite } from './harness';
+
+// Use require for TypeScript modules with tsx
+const { scoreTrend, ratingDistribution, practiceCalendar } = require('../lib/trends');
+
+// A stored session completed at a local time with the given ratings
+const session = (completedAt: Date, scorePercentage: number, options: string[] = []) => ({
+  id: completedAt.toISOString(),
+  scorePercentage,
+  exercisesCompleted: options.filter(option => option !== 'again').length,
+  completedAt: completedAt.toISOString(),
+  scores: options.map(option => ({ option })),
+});
+
+class TrendsTester extends TestSuite {
+  constructor() {
+    super({
+      title: 'Progress Trends',
+      report: 'PROGRESS TRENDS',
+      success: 'Progress charts have the right numbers!',
+    });
+  }
+
+  protected runTests() {
+    this.testScoreTrend();
+    this.testRatingDistribution();
+    this.testPracticeCalendar();
+  }
+
+  // Test 1: Oldest first, rolling average over the last few sessions
+  testScoreTrend() {
+    console.log('1️⃣  Testing Score Trend...');
+
+    // Stored newest first
+    const history = [40, 100, 80, 60, 20].map((score, index) => session(new Date(2026, 0, 10 - index), score));
+    const trend = scoreTrend(history, 3);
+
+    this.expect('Oldest first', trend.map((point: any) => point.scorePercentage), [20, 60, 80, 100, 40]);
+    this.expect('Rolling average', trend.map((point: any) => point.rollingAverage), [20, 40, 160 / 3, 80, 220 / 3]);
+    this.expect('Dates kept', trend[0].completedAt, new Date(2026, 0, 6).toISOString());
+    this.expect('No history', scoreTrend([]), []);
+  }
+
+  // Test 2: Ratings counted in button order; compacted sessions add nothing
+  testRatingDistribution() {
+    console.log('2️⃣  Testing Rating Distribution...');
+
+    const history = [
+      session(new Date(2026, 0, 2), 50, ['correct', 'again', 'correct']),
+      session(new Date(2026, 0, 1), 75, ['almost']),
+      session(new Date(2025, 0, 1), 90), // Compacted: totals only
+    ];
+    const shares = ratingDistribution(history);
+
+    this.expect('Order and labels', shares.map((share: any) => share.label), ['Correct', 'Almost', 'Hard', 'Again']);
+    this.expect('Counts', shares.map((share: any) => share.count), [2, 1, 0, 1]);
+    this.expect('Percentages', shares.map((share: any) => share.percentage), [50, 25, 0, 25]);
+    this.expect('No ratings', ratingDistribution([]).map((share: any) => share.percentage), [0, 0, 0, 0]);
+  }
+
+  // Test 3: Whole weeks from Monday, ending with this week, days totalled
+  testPracticeCalendar() {
+    console.log('3️⃣  Testing Practice Calendar...');
+
+    const today = new Date(2026, 2, 4, 15, 0); // A Wednesday
+    const history = [
+      session(new Date(2026, 2, 4, 9, 0), 80, ['correct', 'correct']),
+      session(new Date(2026, 2, 4, 8, 0), 60, ['hard', 'again']),
+      session(new Date(2026, 1, 23, 23, 59), 100, ['correct']),
+      session(new Date(2025, 11, 1), 100, ['correct']), // Before the calendar starts
+    ];
+    const weeks = practiceCalendar(history, today, 2);
+
+    this.expect('Weeks of seven days', weeks.map((week: any) => week.length), [7, 7]);
+    this.expect('Starts on a Monday', [weeks[0][0].day, weeks[1][6].day], ['2026-02-23', '2026-03-08']);
+    this.expect('Late evening counts on its own day', [weeks[0][0].sessions, weeks[0][0].exercises], [1, 1]);
+    this.expect('Two sessions on one day', [weeks[1][2].sessions, weeks[1][2].exercises], [2, 3]);
+    this.expect('Rest of this week is future', weeks[1].map((day: any) => day.future), [false, false, false, true, true, true, true]);
+    this.expect('Older sessions left out', weeks.flat().reduce((sum: number, day: any) => sum + day.sessions, 0), 3);
+  }
+}
+
+runWhenMain(module, () => new TrendsTester());
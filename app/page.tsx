@@ -1,9 +1,11 @@
 "use client";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { generateExercise } from "../lib/generator";
 import { Exercise, SavedProgress } from "../lib/types";
 import { useAppState } from "../lib/useAppState";
-import { loadProgress, clearProgress, hasMeaningfulProgress } from "../lib/storage";
+import { loadProgress, clearProgress, hasMeaningfulProgress, loadSchedule, loadSessionHistory } from "../lib/storage";
+import { nextCategory } from "../lib/scheduler";
+import { adaptGeneratorOptions } from "../lib/adaptive";
 import ProgressPrompt from "../components/ProgressPrompt";
 import StartScreen from "../components/StartScreen";
 import ExerciseScreen from "../components/ExerciseScreen";
@@ -11,13 +13,23 @@ import EndScreen from "../components/EndScreen";
 
 export default function HomePage() {
   const { state, actions, computed } = useAppState();
-  const [currentExercise, setCurrentExercise] = useState<Exercise>(() => generateExercise());
+  const { setExercise, recordAdaptivePlan } = actions;
+  // The exercise on screen. While the next one is being built (one render) the last one stays up,
+  // so the screen and an open settings dialog stay put; nothing is drawn before the session's first exercise.
+  const [shownExercise, setShownExercise] = useState<Exercise | undefined>(state.session.activeExercise);
+  const inExercise = state.gamePhase === 'exercise' || state.gamePhase === 'assessment';
+  if (state.session.activeExercise && state.session.activeExercise !== shownExercise) {
+    setShownExercise(state.session.activeExercise);
+  } else if (!inExercise && shownExercise) {
+    setShownExercise(undefined); // A new session starts without the last one's picture
+  }
   const [hasProgress, setHasProgress] = useState(false);
   const [showProgressPrompt, setShowProgressPrompt] = useState(false);
   const [savedProgressData, setSavedProgressData] = useState<SavedProgress | null>(null);
 
-  // Check for saved progress on mount
+  // Check for saved progress once storage is open (and again for each trainee profile)
   useEffect(() => {
+    if (!state.storageReady) return;
     const savedProgress = loadProgress();
     if (hasMeaningfulProgress(savedProgress) &&
         state.settings.saveProgress &&
@@ -26,15 +38,36 @@ export default function HomePage() {
       setShowProgressPrompt(true);
     }
     setHasProgress(hasMeaningfulProgress(savedProgress));
-  }, [state.settings.saveProgress, state.gamePhase]);
+  }, [state.storageReady, state.activeProfileId, state.settings.saveProgress, state.gamePhase]);
 
-  // Generate new exercise when moving to next exercise, but NOT when retrying same exercise
+  // The adaptive plan reads the session's scores, but a new score alone must never build a new exercise
+  const scoresRef = useRef(state.session.scores);
   useEffect(() => {
-    if (state.gamePhase === 'exercise') {
-      // Only generate new exercise when currentExercise number changes (not when retrying)
-      setCurrentExercise(generateExercise());
+    scoresRef.current = state.session.scores;
+  }, [state.session.scores]);
+
+  // Put a new exercise on screen whenever the session has none (moved on, new session, traffic settings changed).
+  // A restored session keeps its exercise, so a reload shows the exact same picture.
+  useEffect(() => {
+    if (state.gamePhase === 'exercise' && !state.session.activeExercise) {
+      // After the planned set, missed exercises come back exactly as they were first shown
+      if (state.session.currentExercise > state.session.totalExercises && state.session.retryQueue.length > 0) {
+        setExercise({ ...state.session.retryQueue[0] }); // Fresh copy, so the screen starts over
+        return;
+      }
+      // With adaptive difficulty on, the options lean towards the trainee's weak areas
+      const plan = state.settings.adaptiveDifficulty
+        ? adaptGeneratorOptions(state.settings.generator, scoresRef.current, loadSessionHistory())
+        : null;
+      const options = plan?.options ?? state.settings.generator;
+      if (plan) recordAdaptivePlan(plan); // Summed up on the end screen
+      // With spaced repetition on, the most overdue scenario category is built first
+      const category = state.settings.spacedRepetition
+        ? nextCategory(loadSchedule(), options)
+        : undefined;
+      setExercise(generateExercise(undefined, { ...options, category }));
     }
-  }, [state.session.currentExercise, state.gamePhase]); // Added state.gamePhase dependency
+  }, [state.session.activeExercise, state.session.currentExercise, state.gamePhase, state.session.retryQueue, state.session.totalExercises, state.settings.generator, state.settings.spacedRepetition, state.settings.adaptiveDifficulty, setExercise, recordAdaptivePlan]);
 
   // Update progress indicator
   useEffect(() => {
@@ -67,14 +100,21 @@ export default function HomePage() {
             settings={state.settings} 
             onUpdateSettings={actions.updateSettings} 
             hasProgress={hasProgress} 
+            profiles={state.profiles}
+            activeProfileId={state.activeProfileId}
+            onSwitchProfile={actions.switchProfile}
+            onCreateProfile={actions.createProfile}
+            onRenameProfile={actions.renameProfile}
+            onDeleteProfile={actions.deleteProfile}
           />
         );
       
       case 'exercise':
-      case 'assessment':
-        return (
+      case 'assessment': {
+        const exercise = state.session.activeExercise ?? shownExercise;
+        return exercise && (
           <ExerciseScreen
-            exercise={currentExercise}
+            exercise={exercise}
             state={state}
             actions={actions}
             computed={computed}
@@ -82,6 +122,7 @@ export default function HomePage() {
             onUpdateSettings={actions.updateSettings}
           />
         );
+      }
       
       case 'end':
         return (
@@ -89,6 +130,7 @@ export default function HomePage() {
             session={state.session}
             computed={computed}
             onRestart={actions.resetSession}
+            rewards={state.rewards}
             settings={state.settings}
             onUpdateSettings={actions.updateSettings}
           />
@@ -0,0 +1,95 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { backupFileName, createBackup, downloadFile, historyToCSV, importBackup } from "../lib/backup";
+import { getActiveProfile, loadSessionHistory } from "../lib/storage";
+import { Settings as SettingsType } from "../lib/types";
+
+interface BackupPanelProps {
+  onImportSettings: (settings: SettingsType) => void;
+}
+
+const plural = (count: number, singular: string, pluralForm = `${singular}s`) =>
+  `${count} ${count === 1 ? singular : pluralForm}`;
+
+// Export the active profile's history, settings and schedule (JSON backup or CSV of scores) and import a backup
+export default function BackupPanel({ onImportSettings }: BackupPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  const exportJSON = () =>
+    downloadFile(backupFileName('json', getActiveProfile().name), JSON.stringify(createBackup(), null, 2), 'application/json');
+
+  const exportCSV = () =>
+    downloadFile(backupFileName('csv', getActiveProfile().name), historyToCSV(loadSessionHistory()), 'text/csv');
+
+  const importFile = async (file: File) => {
+    try {
+      const result = importBackup(await file.text());
+      if (!result.ok) {
+        setMessage({ text: result.reason, error: true });
+        return;
+      }
+      const { summary } = result;
+      if (summary.settings) onImportSettings(summary.settings);
+      setMessage({
+        text: [
+          `Imported ${plural(summary.sessionsAdded, 'new session')}`,
+          summary.sessionsSkipped > 0 && `${summary.sessionsSkipped} already here`,
+          summary.sessionsRejected > 0 && `${summary.sessionsRejected} unreadable`,
+          summary.categoriesUpdated > 0 && `${plural(summary.categoriesUpdated, 'schedule entry', 'schedule entries')} updated`,
+          summary.settings && 'settings applied',
+        ].filter(Boolean).join(', ') + '.',
+        error: false,
+      });
+    } catch (error) {
+      // e.g. the file can't be read any more
+      setMessage({ text: `The backup could not be imported: ${error instanceof Error ? error.message : String(error)}`, error: true });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <button
+          onClick={exportJSON}
+          className="flex-1 py-2 px-3 rounded-lg text-sm font-medium border border-gray-300 hover:bg-gray-50"
+          title="History, settings and spaced repetition schedule"
+        >
+          Export Backup
+        </button>
+        <button
+          onClick={exportCSV}
+          className="flex-1 py-2 px-3 rounded-lg text-sm font-medium border border-gray-300 hover:bg-gray-50"
+          title="One row per rated exercise"
+        >
+          Export CSV
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex-1 py-2 px-3 rounded-lg text-sm font-medium border border-gray-300 hover:bg-gray-50"
+          title="Merge a backup from another device"
+        >
+          Import Backup
+        </button>
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = ''; // Allow importing the same file again
+          if (file) importFile(file);
+        }}
+      />
+      <p className="text-xs text-gray-500">
+        Importing merges sessions by id (nothing is duplicated) and applies the backup&apos;s settings.
+      </p>
+      {message && (
+        <p className={`text-xs ${message.error ? 'text-red-600' : 'text-green-700'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,8 @@
-import { Settings as SettingsType, ExerciseSession } from "../lib/types";
+import { useState } from "react";
+import { Settings as SettingsType, ExerciseSession, SessionRewards } from "../lib/types";
+import { DIFFICULTY_PRESETS } from "../lib/constants";
 import SettingsButton from "./SettingsButton";
+import SessionReview from "./SessionReview";
 
 interface EndScreenProps {
   session: ExerciseSession;
@@ -10,6 +13,7 @@ interface EndScreenProps {
     completedExercises: number;
   };
   onRestart: () => void;
+  rewards?: SessionRewards | null; // Daily goal, streak and new achievements (null until the session is saved)
   settings: SettingsType;
   onUpdateSettings: (settings: Partial<SettingsType>) => void;
 }
@@ -18,12 +22,22 @@ export default function EndScreen({
   session, 
   computed, 
   onRestart,
+  rewards,
   settings,
   onUpdateSettings
 }: EndScreenProps) {
   const maxPossibleScore = session.totalExercises * 3; // 3 points per exercise
   const scorePercentage = (session.totalScore / maxPossibleScore) * 100;
 
+  // First try vs eventual: missed exercises are replayed until rated better
+  const firstTryScores = session.scores.filter(score => !score.replay);
+  const firstTryPoints = firstTryScores.reduce((sum, score) => sum + score.points, 0);
+  const firstTryPassed = firstTryScores.filter(score => score.option !== 'again').length;
+  const hadMisses = session.scores.some(score => score.option === 'again');
+  const [showReview, setShowReview] = useState(false);
+  const adaptations = session.adaptations;
+  const startDifficulty = adaptations?.difficultyChanges[0]?.from;
+
   return (
     <main className="h-[100dvh] flex flex-col items-center justify-center p-4">
       {/* Settings Button */}
@@ -46,9 +60,107 @@ export default function EndScreen({
             <div>Exercises Completed: {computed.completedExercises}/{session.totalExercises}</div>
             <div>Average Score: {computed.averageScore.toFixed(1)}%</div>
             <div>Session Duration: {Math.round((new Date().getTime() - session.startTime.getTime()) / 60000)} minutes</div>
+            <div>
+              Difficulty: {DIFFICULTY_PRESETS[session.difficulty].label}
+              {startDifficulty && startDifficulty !== session.difficulty && ` (started on ${DIFFICULTY_PRESETS[startDifficulty].label})`}
+            </div>
           </div>
+
+          {hadMisses && (
+            <div className="grid grid-cols-2 gap-2 mt-4 pt-4 border-t border-gray-300 text-sm">
+              <div>
+                <div className="font-semibold">First Try</div>
+                <div>{firstTryPoints}/{maxPossibleScore} ({((firstTryPoints / maxPossibleScore) * 100).toFixed(1)}%)</div>
+                <div className="text-gray-600">{firstTryPassed}/{session.totalExercises} passed</div>
+              </div>
+              <div>
+                <div className="font-semibold">After Replays</div>
+                <div>{session.totalScore}/{maxPossibleScore} ({scorePercentage.toFixed(1)}%)</div>
+                <div className="text-gray-600">{computed.completedExercises}/{session.totalExercises} passed</div>
+              </div>
+            </div>
+          )}
         </div>
 
+        {/* Daily goal, streak and anything this session earned */}
+        {rewards && (
+          <div className="bg-gray-100 rounded-lg p-4 mb-6 text-left text-sm">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <div className="font-semibold">Daily Goal</div>
+                <div className="text-gray-600">
+                  {Math.min(rewards.exercisesToday, rewards.dailyGoal)}/{rewards.dailyGoal} exercises today
+                  {rewards.exercisesToday >= rewards.dailyGoal && ' ✓'}
+                </div>
+                <div className="h-1.5 bg-gray-300 rounded-full overflow-hidden mt-1">
+                  <div
+                    className="h-full bg-green-600 rounded-full"
+                    style={{ width: `${Math.min(100, (rewards.exercisesToday / rewards.dailyGoal) * 100)}%` }}
+                  />
+                </div>
+              </div>
+              <div>
+                <div className="font-semibold">Streak</div>
+                <div className="text-gray-600">
+                  {rewards.currentStreak} {rewards.currentStreak === 1 ? 'day' : 'days'} in a row
+                </div>
+                <div className="text-xs text-gray-500">Longest: {rewards.longestStreak}</div>
+              </div>
+            </div>
+
+            {rewards.newAchievements.length > 0 && (
+              <div className="mt-4 pt-4 border-t border-gray-300">
+                <div className="font-semibold mb-2">New Achievements</div>
+                <ul className="space-y-1">
+                  {rewards.newAchievements.map((achievement) => (
+                    <li key={achievement.id}>
+                      <span className="font-medium">🏅 {achievement.title}</span>
+                      <span className="text-gray-500"> · {achievement.description}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <div className="text-xs text-gray-500 mt-2">
+              {rewards.achievementsEarned} of {rewards.achievementsTotal} achievements earned
+            </div>
+          </div>
+        )}
+
+        {/* Adaptive difficulty summary: what was practised more this session, and the results behind it */}
+        {adaptations && (
+          <div className="bg-gray-100 rounded-lg p-4 mb-6 text-left text-sm">
+            <div className="font-semibold mb-2">Adaptive Practice</div>
+            {adaptations.focus.length === 0 && adaptations.difficultyChanges.length === 0 && (
+              <p className="text-gray-600">No weak areas stood out, so your usual traffic mix was used.</p>
+            )}
+            {adaptations.difficultyChanges.map((change, index) => (
+              <p key={index} className="text-gray-600 mb-2">
+                Difficulty {change.raised ? 'raised' : 'lowered'} to{' '}
+                {DIFFICULTY_PRESETS[change.to].label}: you scored{' '}
+                {Math.round(change.scorePercentage)}% over your last {change.attempts} exercises.
+              </p>
+            ))}
+            {adaptations.focus.length > 0 && (
+              <ul className="space-y-1">
+                {adaptations.focus.map((focus) => (
+                  <li key={focus.area} className="flex justify-between gap-2">
+                    <span className="capitalize">More {focus.area}</span>
+                    <span className="text-gray-500">{Math.round(focus.scorePercentage)}% in {focus.attempts} attempts</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <button
+          onClick={() => setShowReview(true)}
+          className="w-full px-8 py-3 mb-3 bg-white text-black border-2 border-black rounded-[10px] font-semibold hover:bg-gray-100 transition-colors"
+        >
+          Review Exercises
+        </button>
+
         <button
           onClick={onRestart}
           className="w-full px-8 py-4 bg-black text-white rounded-[10px] font-semibold text-lg hover:bg-gray-800 transition-colors"
@@ -56,6 +168,10 @@ export default function EndScreen({
           Start Over
         </button>
       </div>
+
+      {showReview && (
+        <SessionReview scores={session.scores} settings={settings} onClose={() => setShowReview(false)} />
+      )}
     </main>
   );
 }
\ No newline at end of file
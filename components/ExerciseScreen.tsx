@@ -1,16 +1,25 @@
-import { Exercise, AppState, AssessmentOption, Settings as SettingsType } from "../lib/types";
+import { useState, useEffect, useRef } from "react";
+import { Exercise, AppState, AssessmentOption, AssessmentAttempt, Settings as SettingsType } from "../lib/types";
 import { ASSESSMENT_BUTTONS } from "../lib/types";
+import { DIFFICULTY_PRESETS } from "../lib/constants";
+import { useSimulation } from "../lib/useSimulation";
+import { renderSolutions } from "../lib/phraseology";
+import { gradeAnswer, GradingResult } from "../lib/grading";
 import TrafficInfo from "./TrafficInfo";
+import SolutionBreakdown from "./SolutionBreakdown";
+import TypedAnswer from "./TypedAnswer";
+import SpeechAnswer from "./SpeechAnswer";
+import HearAnswerButton from "./HearAnswerButton";
 import SettingsButton from "./SettingsButton";
 
 interface ExerciseScreenProps {
   exercise: Exercise;
   state: AppState;
   actions: {
-    showAnswer: () => void;
+    showAnswer: (elapsed?: number) => void;
     hideAnswer: () => void;
     toggleDetails: () => void;
-    submitAssessment: (option: AssessmentOption) => void;
+    submitAssessment: (option: AssessmentOption, attempt?: AssessmentAttempt) => void;
     nextExercise: () => void;
     retryExercise: () => void;
     endSession: () => void;
@@ -27,6 +36,10 @@ interface ExerciseScreenProps {
   onUpdateSettings: (settings: Partial<SettingsType>) => void;
 }
 
+// Seconds as m:ss
+const formatDuration = (totalSeconds: number) =>
+  `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+
 export default function ExerciseScreen({ 
   exercise, 
   state, 
@@ -35,13 +48,38 @@ export default function ExerciseScreen({
   settings,
   onUpdateSettings
 }: ExerciseScreenProps) {
+  // The radar runs live until the answer is shown; the solution is for the moment on screen
+  // (a restored session reopens the answer at that same moment)
+  const simulation = useSimulation(
+    exercise,
+    state.gamePhase !== 'exercise',
+    state.gamePhase === 'assessment' ? state.session.answerElapsed ?? 0 : 0
+  );
+  const liveExercise = simulation.exercise;
+
+  // Typed and spoken answers are graded against the solution for the moment they were submitted
+  const [grading, setGrading] = useState<GradingResult | null>(null);
+  // When the exercise appeared, for the time taken in the session review
+  const shownAt = useRef(Date.now());
+  useEffect(() => {
+    setGrading(null);
+    shownAt.current = Date.now();
+  }, [exercise]);
+
+  const handleTypedAnswer = (answer: string) => {
+    setGrading(gradeAnswer(answer, liveExercise.solutions));
+    actions.showAnswer(simulation.elapsed);
+  };
+
   return (
     <main className="h-[100dvh] flex flex-col p-4 max-w-md mx-auto">
       {/* Header with Settings */}
       <div className="flex justify-between items-center mb-3">
         <div className="flex-1">
           <div className="text-sm text-gray-600 mb-1">
-            Exercise {state.session.currentExercise} of {state.session.totalExercises}
+            {state.session.currentExercise > state.session.totalExercises
+              ? `Missed exercise - ${state.session.retryQueue.length} left to replay`
+              : `Exercise ${state.session.currentExercise} of ${state.session.totalExercises}`}
           </div>
           <div className="w-full bg-gray-200 rounded-full h-1.5">
             <div 
@@ -69,29 +107,90 @@ export default function ExerciseScreen({
       {/* Radar Display - More compact */}
       <div className="flex items-center justify-center py-2">
         <div className="w-full max-w-[380px] aspect-square">
-          <TrafficInfo exercise={exercise} />
+          <TrafficInfo exercise={liveExercise} />
         </div>
       </div>
 
+      {/* Simulation Controls */}
+      <div className="flex items-center justify-center gap-2 mb-3 text-sm">
+        <button
+          onClick={simulation.isRunning ? simulation.controls.pause : simulation.controls.play}
+          disabled={state.gamePhase !== 'exercise' || simulation.isFinished}
+          className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-100 disabled:opacity-50"
+        >
+          {simulation.isRunning ? 'Pause' : 'Play'}
+        </button>
+        <button
+          onClick={simulation.controls.step}
+          disabled={state.gamePhase !== 'exercise' || simulation.isFinished}
+          className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-100 disabled:opacity-50"
+        >
+          Step
+        </button>
+        <button
+          onClick={simulation.controls.reset}
+          disabled={state.gamePhase !== 'exercise'}
+          className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-100 disabled:opacity-50"
+        >
+          Reset
+        </button>
+        <span className="ml-2 font-mono text-gray-600">T+{formatDuration(simulation.elapsed)}</span>
+      </div>
+
       {/* Answer Section - Fixed height to prevent layout shifts */}
       <div className="text-center" style={{ minHeight: state.showAnswer ? 'auto' : '60px' }}>
         {state.showAnswer && (
           <>
             <div className="font-semibold mb-2 text-base">
-              {exercise.solution}
+              {renderSolutions(liveExercise, settings.phraseology, { abbreviatedCallsign: settings.abbreviatedCallsigns }).map((line, index) => (
+                <div key={index}>{line}</div>
+              ))}
             </div>
+
+            <HearAnswerButton solutions={liveExercise.solutions} abbreviatedCallsign={settings.abbreviatedCallsigns} />
+
+            {grading && (
+              <div className="max-w-[380px] mx-auto mb-3 text-sm text-left">
+                {grading.calls.map((call, callIndex) => (
+                  <div key={callIndex} className="grid grid-cols-[auto_1fr] gap-x-2 mb-1">
+                    {call.map((element) => (
+                      <div key={element.key} className="contents">
+                        <span className={element.correct ? 'text-green-600' : 'text-red-600'}>
+                          {element.correct ? '✓' : '✗'} {element.label}
+                        </span>
+                        <span className="text-gray-600">
+                          {element.correct
+                            ? element.expected
+                            : `${element.given ?? 'missing'} → ${element.expected}`}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <SolutionBreakdown solutions={liveExercise.solutions} abbreviatedCallsign={settings.abbreviatedCallsigns} />
             
             {state.showDetails && (
               <div className="text-sm text-gray-600 text-left max-w-[380px] mx-auto p-3 bg-gray-100 rounded-lg">
                 <div><strong>Scenario Details:</strong></div>
-                <div>• Target: {exercise.target.callsign} ({exercise.target.flightRule}) - {exercise.target.type.name}</div>
-                <div>• Level: {exercise.target.level}ft, Speed: {exercise.target.speed}kts, Heading: {exercise.target.heading}°</div>
-                <div>• Intruder: {exercise.intruder.callsign} ({exercise.intruder.flightRule}) - {exercise.intruder.type.name}</div>
-                <div>• Level: {exercise.intruder.level}ft{exercise.intruder.levelChange ? ` → ${exercise.intruder.levelChange.dir}${exercise.intruder.levelChange.to}ft` : ''}</div>
-                <div>• Speed: {exercise.intruder.speed}kts, Heading: {exercise.intruder.heading}°</div>
-                <div>• Direction: {exercise.situation.direction}</div>
-                <div>• Clock/Distance: {exercise.situation.clock} o&apos;clock, {exercise.situation.distance} miles</div>
-                {exercise.intruder.isMil && <div>• Military aircraft (10% chance when target VFR)</div>}
+                <div>• Target: {liveExercise.target.callsign} ({liveExercise.target.flightRule}) - {liveExercise.target.type.name}</div>
+                <div>• Level: {liveExercise.target.level}ft, Speed: {liveExercise.target.speed}kts, Heading: {liveExercise.target.heading}°</div>
+                {liveExercise.intruders.map((intruder, index) => (
+                  <div key={intruder.callsign} className="mt-1">
+                    <div>• Intruder{liveExercise.intruders.length > 1 ? ` ${index + 1}` : ''}: {intruder.callsign} ({intruder.flightRule}) - {intruder.type.name}</div>
+                    <div>• Level: {intruder.level}ft{intruder.levelChange ? ` → ${intruder.levelChange.dir}${intruder.levelChange.to}ft` : ''}</div>
+                    <div>• Speed: {intruder.speed}kts, Heading: {intruder.heading}°</div>
+                    <div>• Direction: {liveExercise.situations[index].direction}</div>
+                    <div>• Clock/Distance: {liveExercise.situations[index].clock} o&apos;clock, {liveExercise.situations[index].distance} miles</div>
+                    <div>• Closest approach: {liveExercise.situations[index].cpaDistance} miles in {formatDuration(liveExercise.situations[index].timeToCpa)}, {liveExercise.situations[index].cpaVerticalSeparation}ft vertical</div>
+                    {intruder.isMil && <div>• Military aircraft{liveExercise.options && ` (${Math.round(liveExercise.options.militaryRate * 100)}% chance for VFR traffic)`}</div>}
+                  </div>
+                ))}
+                <div className="mt-1">• Time: T+{formatDuration(simulation.elapsed)}</div>
+                <div>• Difficulty: {DIFFICULTY_PRESETS[liveExercise.difficulty].label}</div>
+                <div>• Seed: {liveExercise.seed}</div>
               </div>
             )}
           </>
@@ -103,12 +202,18 @@ export default function ExerciseScreen({
         {state.gamePhase === 'exercise' ? (
           // Show Answer and Next Exercise Buttons
           <div className="space-y-2">
-            <button
-              onClick={actions.showAnswer}
-              className="block w-full max-w-[380px] mx-auto px-5 py-3 bg-black text-white border-0 rounded-[10px] font-semibold"
-            >
-              Show Answer
-            </button>
+            {settings.answerMode === 'typed' ? (
+              <TypedAnswer key={`${exercise.seed}-${state.session.currentExercise}`} onSubmit={handleTypedAnswer} />
+            ) : settings.answerMode === 'speech' ? (
+              <SpeechAnswer key={`${exercise.seed}-${state.session.currentExercise}`} onSubmit={handleTypedAnswer} />
+            ) : (
+              <button
+                onClick={() => actions.showAnswer(simulation.elapsed)}
+                className="block w-full max-w-[380px] mx-auto px-5 py-3 bg-black text-white border-0 rounded-[10px] font-semibold"
+              >
+                Show Answer
+              </button>
+            )}
             
             <button
               onClick={actions.nextExercise}
@@ -124,8 +229,14 @@ export default function ExerciseScreen({
               {ASSESSMENT_BUTTONS.map((button) => (
                 <button
                   key={button.option}
-                  onClick={() => actions.submitAssessment(button.option)}
+                  onClick={() => actions.submitAssessment(button.option, {
+                    shown: exercise,
+                    rated: liveExercise,
+                    seconds: Math.round((Date.now() - shownAt.current) / 1000),
+                  })}
                   className={`px-3 py-2.5 rounded-[10px] font-medium text-white transition-colors ${
+                    grading?.suggestion === button.option ? 'ring-2 ring-offset-2 ring-black ' : ''
+                  }${
                     button.color === 'green' ? 'hover:bg-green-600' :
                     button.color === 'yellow' ? 'hover:bg-yellow-600' :
                     button.color === 'orange' ? 'hover:bg-orange-600' :
@@ -139,7 +250,9 @@ export default function ExerciseScreen({
                   }}
                 >
                   <div className="text-sm font-medium">{button.label}</div>
-                  <div className="text-xs opacity-90 font-light">{button.description}</div>
+                  <div className="text-xs opacity-90 font-light">
+                    {grading?.suggestion === button.option ? 'Suggested' : button.description}
+                  </div>
                 </button>
               ))}
             </div>
@@ -0,0 +1,53 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { TrafficSolution } from "../lib/types";
+import { pronounceSolutions } from "../lib/pronunciation";
+
+interface HearAnswerButtonProps {
+  solutions: TrafficSolution[];
+  abbreviatedCallsign?: boolean;
+}
+
+// Reads the answer out loud with ICAO pronunciation using the browser's speech synthesis
+export default function HearAnswerButton({ solutions, abbreviatedCallsign = false }: HearAnswerButtonProps) {
+  const [supported, setSupported] = useState(false);
+  const [speaking, setSpeaking] = useState(false);
+
+  useEffect(() => {
+    setSupported(typeof window !== 'undefined' && 'speechSynthesis' in window);
+    return () => {
+      if (typeof window !== 'undefined' && 'speechSynthesis' in window) window.speechSynthesis.cancel();
+    };
+  }, []);
+
+  if (!supported) return null;
+
+  const toggle = () => {
+    const synthesis = window.speechSynthesis;
+    if (speaking) {
+      synthesis.cancel();
+      setSpeaking(false);
+      return;
+    }
+
+    const utterance = new SpeechSynthesisUtterance(pronounceSolutions(solutions, abbreviatedCallsign));
+    utterance.lang = 'en-GB';
+    utterance.rate = 0.95;
+    utterance.onend = () => setSpeaking(false);
+    utterance.onerror = () => setSpeaking(false);
+
+    synthesis.cancel();
+    synthesis.speak(utterance);
+    setSpeaking(true);
+  };
+
+  return (
+    <button
+      onClick={toggle}
+      className="px-3 py-1 mb-3 text-sm border border-gray-300 rounded-lg hover:bg-gray-100"
+    >
+      {speaking ? '■ Stop' : '🔊 Hear the answer'}
+    </button>
+  );
+}
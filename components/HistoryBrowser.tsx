@@ -0,0 +1,170 @@
+"use client";
+
+import { useState } from "react";
+import { CompletedSession, deleteSession, loadSessionHistory, summarizeSessions } from "../lib/storage";
+import { filterHistory, HistoryFilter, paginate } from "../lib/history";
+import { AnswerMode } from "../lib/types";
+
+interface HistoryBrowserProps {
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 10;
+
+const ANSWER_MODE_LABELS: Record<AnswerMode, string> = {
+  self: 'Self-assessment',
+  typed: 'Typed',
+  speech: 'Spoken',
+};
+
+const inputClass = "w-full border rounded-lg px-2 py-1 text-sm";
+
+// Score percentage typed into a filter field (empty = no limit)
+const parseScore = (value: string) => (value === '' ? undefined : Math.min(Math.max(Number(value), 0), 100));
+
+// Every completed session, filtered by date, score and answer mode, a page at a time; sessions can be deleted
+export default function HistoryBrowser({ onClose }: HistoryBrowserProps) {
+  const [history, setHistory] = useState<CompletedSession[]>(() => loadSessionHistory());
+  const [filter, setFilter] = useState<HistoryFilter>({});
+  const [page, setPage] = useState(1);
+  const [deleting, setDeleting] = useState<string | null>(null);
+
+  const matching = filterHistory(history, filter);
+  const stats = summarizeSessions(matching);
+  const current = paginate(matching, page, PAGE_SIZE);
+
+  // A new filter starts again on the first page
+  const updateFilter = (changes: Partial<HistoryFilter>) => {
+    setFilter({ ...filter, ...changes });
+    setPage(1);
+  };
+
+  const removeSession = (session: CompletedSession) => {
+    if (deleteSession(session.id)) setHistory(loadSessionHistory());
+    setDeleting(null);
+  };
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center p-4 z-50" style={{
+      backgroundColor: 'rgba(0, 0, 0, 0.2)',
+      backdropFilter: 'blur(4px)',
+      WebkitBackdropFilter: 'blur(4px)'
+    }}>
+      <div className="bg-white rounded-lg max-w-md w-full shadow-2xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b flex-shrink-0">
+          <h2 className="text-xl font-bold">Session History</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 text-2xl" title="Close">
+            ×
+          </button>
+        </div>
+
+        {/* Filters */}
+        <div className="p-4 border-b flex-shrink-0 grid grid-cols-2 gap-2 text-xs text-gray-600">
+          <label>
+            From
+            <input type="date" value={filter.from ?? ''} onChange={(e) => updateFilter({ from: e.target.value || undefined })} className={inputClass} />
+          </label>
+          <label>
+            To
+            <input type="date" value={filter.to ?? ''} onChange={(e) => updateFilter({ to: e.target.value || undefined })} className={inputClass} />
+          </label>
+          <label>
+            Score (%)
+            <div className="flex items-center gap-1">
+              <input type="number" min={0} max={100} placeholder="0" value={filter.minScore ?? ''} onChange={(e) => updateFilter({ minScore: parseScore(e.target.value) })} className={inputClass} />
+              <span>–</span>
+              <input type="number" min={0} max={100} placeholder="100" value={filter.maxScore ?? ''} onChange={(e) => updateFilter({ maxScore: parseScore(e.target.value) })} className={inputClass} />
+            </div>
+          </label>
+          <label>
+            Answer mode
+            <select
+              value={filter.answerMode ?? ''}
+              onChange={(e) => updateFilter({ answerMode: (e.target.value || undefined) as AnswerMode | undefined })}
+              className={inputClass}
+            >
+              <option value="">All modes</option>
+              {(Object.keys(ANSWER_MODE_LABELS) as AnswerMode[]).map((mode) => (
+                <option key={mode} value={mode}>{ANSWER_MODE_LABELS[mode]}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="p-4 flex-1 overflow-y-auto min-h-0 space-y-2">
+          <p className="text-xs text-gray-500">
+            {current.total === 0
+              ? 'No sessions match these filters.'
+              : `${current.total} of ${history.length} sessions · average ${stats.averageScore.toFixed(1)}% · best ${stats.bestScorePercentage.toFixed(1)}%`}
+          </p>
+
+          {current.items.map((session) => (
+            <div key={session.id} className="p-2 rounded-lg border border-gray-200 text-sm">
+              {deleting === session.id ? (
+                // Deleting can't be undone, so ask first
+                <div className="flex items-center gap-2">
+                  <span className="flex-1 text-red-600">Delete this session for good?</span>
+                  <button
+                    onClick={() => removeSession(session)}
+                    className="py-1 px-2 rounded-lg text-xs font-medium bg-red-600 text-white hover:bg-red-700"
+                  >
+                    Delete
+                  </button>
+                  <button onClick={() => setDeleting(null)} className="py-1 px-2 rounded-lg text-xs font-medium border border-gray-300 hover:bg-gray-50">
+                    Keep
+                  </button>
+                </div>
+              ) : (
+                <div className="flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium">{new Date(session.completedAt).toLocaleString()}</div>
+                    <div className="text-xs text-gray-500">
+                      {[
+                        `${session.totalScore}/${session.maxPossibleScore} points`,
+                        `${session.exercisesCompleted}/${session.totalExercises} completed`,
+                        `${session.duration} min`,
+                        session.difficulty,
+                        session.answerMode && ANSWER_MODE_LABELS[session.answerMode],
+                        session.compacted && 'totals only',
+                      ].filter(Boolean).join(' · ')}
+                    </div>
+                  </div>
+                  <span className="font-semibold">{session.scorePercentage.toFixed(0)}%</span>
+                  <button
+                    onClick={() => setDeleting(session.id)}
+                    className="text-gray-400 hover:text-red-600 text-lg"
+                    title="Delete this session"
+                  >
+                    ×
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {/* Pagination */}
+        {current.pageCount > 1 && (
+          <div className="flex items-center justify-between p-3 border-t flex-shrink-0 text-sm">
+            <button
+              onClick={() => setPage(current.page - 1)}
+              disabled={current.page === 1}
+              className="py-1 px-3 rounded-lg border border-gray-300 hover:bg-gray-50 disabled:opacity-40"
+            >
+              ‹ Newer
+            </button>
+            <span className="text-gray-600">Page {current.page} of {current.pageCount}</span>
+            <button
+              onClick={() => setPage(current.page + 1)}
+              disabled={current.page === current.pageCount}
+              className="py-1 px-3 rounded-lg border border-gray-300 hover:bg-gray-50 disabled:opacity-40"
+            >
+              Older ›
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+"use client";
+
+import { useState } from "react";
+import { backupFileName, createBackup, downloadFile } from "../lib/backup";
+import { Profile } from "../lib/types";
+
+interface ProfileManagerProps {
+  profiles: Profile[];
+  activeProfileId: string;
+  onSwitchProfile: (profileId: string) => void;
+  onCreateProfile: (name: string) => boolean;
+  onRenameProfile: (profileId: string, name: string) => boolean;
+  onDeleteProfile: (profileId: string) => boolean;
+  onClose: () => void;
+}
+
+const buttonClass = "py-1 px-2 rounded-lg text-xs font-medium border border-gray-300 hover:bg-gray-50 disabled:opacity-40 disabled:hover:bg-transparent";
+
+// Add, rename, delete and export the trainee profiles on this device
+export default function ProfileManager({
+  profiles,
+  activeProfileId,
+  onSwitchProfile,
+  onCreateProfile,
+  onRenameProfile,
+  onDeleteProfile,
+  onClose,
+}: ProfileManagerProps) {
+  const [newName, setNewName] = useState('');
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [deleting, setDeleting] = useState<string | null>(null);
+
+  // One profile's history, settings and schedule as a JSON backup
+  const exportProfile = (profile: Profile) =>
+    downloadFile(backupFileName('json', profile.name), JSON.stringify(createBackup(new Date(), profile.id), null, 2), 'application/json');
+
+  const addProfile = () => {
+    if (onCreateProfile(newName)) setNewName('');
+  };
+
+  const saveName = () => {
+    if (renaming && onRenameProfile(renaming.id, renaming.name)) setRenaming(null);
+  };
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center p-4 z-50" style={{
+      backgroundColor: 'rgba(0, 0, 0, 0.2)',
+      backdropFilter: 'blur(4px)',
+      WebkitBackdropFilter: 'blur(4px)'
+    }}>
+      <div className="bg-white rounded-lg max-w-md w-full shadow-2xl max-h-[90vh] flex flex-col text-left">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b flex-shrink-0">
+          <h2 className="text-xl font-bold">Trainee Profiles</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 text-2xl" title="Close">
+            ×
+          </button>
+        </div>
+
+        <div className="p-4 flex-1 overflow-y-auto min-h-0 space-y-4">
+          <p className="text-xs text-gray-500">
+            Each profile keeps its own settings, saved progress, history and review schedule on this device.
+          </p>
+
+          <div className="space-y-2">
+            {profiles.map((profile) => (
+              <div key={profile.id} className="p-2 rounded-lg border border-gray-200">
+                {renaming?.id === profile.id ? (
+                  // Rename in place
+                  <div className="flex gap-2">
+                    <input
+                      value={renaming.name}
+                      onChange={(e) => setRenaming({ id: profile.id, name: e.target.value })}
+                      onKeyDown={(e) => e.key === 'Enter' && saveName()}
+                      className="flex-1 border rounded-lg px-2 py-1 text-sm"
+                      maxLength={40}
+                      autoFocus
+                    />
+                    <button onClick={saveName} disabled={!renaming.name.trim()} className={buttonClass}>Save</button>
+                    <button onClick={() => setRenaming(null)} className={buttonClass}>Cancel</button>
+                  </div>
+                ) : deleting === profile.id ? (
+                  // Deleting can't be undone, so ask first
+                  <div className="flex items-center gap-2">
+                    <span className="flex-1 text-sm text-red-600">Delete {profile.name} and all their history?</span>
+                    <button
+                      onClick={() => { onDeleteProfile(profile.id); setDeleting(null); }}
+                      className="py-1 px-2 rounded-lg text-xs font-medium bg-red-600 text-white hover:bg-red-700"
+                    >
+                      Delete
+                    </button>
+                    <button onClick={() => setDeleting(null)} className={buttonClass}>Keep</button>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <span className="flex-1 min-w-0 truncate text-sm font-medium">
+                      {profile.name}
+                      {profile.id === activeProfileId && <span className="ml-2 text-xs text-gray-500">(active)</span>}
+                    </span>
+                    {profile.id !== activeProfileId && (
+                      <button onClick={() => onSwitchProfile(profile.id)} className={buttonClass}>Use</button>
+                    )}
+                    <button onClick={() => setRenaming({ id: profile.id, name: profile.name })} className={buttonClass}>Rename</button>
+                    <button onClick={() => exportProfile(profile)} className={buttonClass} title="Download this profile as a JSON backup">Export</button>
+                    <button
+                      onClick={() => setDeleting(profile.id)}
+                      disabled={profiles.length <= 1}
+                      className={buttonClass}
+                      title={profiles.length <= 1 ? 'The last profile can\'t be deleted' : undefined}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Add a profile (the new trainee becomes active) */}
+          <div className="border-t pt-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">New profile</label>
+            <div className="flex gap-2">
+              <input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addProfile()}
+                placeholder="Trainee name"
+                className="flex-1 border rounded-lg px-3 py-2 text-sm"
+                maxLength={40}
+              />
+              <button
+                onClick={addProfile}
+                disabled={!newName.trim()}
+                className="px-4 py-2 bg-black text-white rounded-lg text-sm font-medium hover:bg-gray-800 disabled:opacity-40"
+              >
+                Add
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+"use client";
+
+import { CompletedSession } from "../lib/storage";
+import { CalendarDay, practiceCalendar, ratingDistribution, RatingShare, ROLLING_WINDOW, scoreTrend, TrendPoint } from "../lib/trends";
+import { AssessmentOption } from "../lib/types";
+
+interface ProgressChartsProps {
+  history: CompletedSession[];
+}
+
+const RATING_FILLS: Record<AssessmentOption, string> = {
+  correct: 'fill-green-600',
+  almost: 'fill-yellow-500',
+  hard: 'fill-orange-500',
+  again: 'fill-red-500',
+};
+
+// Heat-map shades from "practised a little" to "practised a lot" that day
+const CALENDAR_FILLS = ['fill-green-200', 'fill-green-400', 'fill-green-600', 'fill-green-800'];
+
+const shortDate = (date: string) => new Date(date).toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+
+// Score per session with the rolling average on top (0-100%, oldest on the left)
+function ScoreTrendChart({ points }: { points: TrendPoint[] }) {
+  const width = 300;
+  const height = 120;
+  const left = 28;
+  const top = 6;
+  const bottom = height - 18;
+  const x = (index: number) => points.length === 1 ? (left + width) / 2 : left + (index / (points.length - 1)) * (width - left - 4);
+  const y = (percentage: number) => bottom - (percentage / 100) * (bottom - top);
+  const line = (value: (point: TrendPoint) => number) =>
+    points.map((point, index) => `${x(index).toFixed(1)},${y(value(point)).toFixed(1)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full" role="img" aria-label="Score per session over time">
+      {[0, 50, 100].map((percentage) => (
+        <g key={percentage}>
+          <line x1={left} x2={width} y1={y(percentage)} y2={y(percentage)} className="stroke-gray-200" strokeWidth={1} />
+          <text x={left - 4} y={y(percentage) + 3} textAnchor="end" className="fill-gray-500 text-[9px]">{percentage}%</text>
+        </g>
+      ))}
+      <polyline points={line((point) => point.scorePercentage)} fill="none" className="stroke-gray-300" strokeWidth={1} />
+      {points.map((point, index) => (
+        <circle key={index} cx={x(index)} cy={y(point.scorePercentage)} r={2} className="fill-gray-400">
+          <title>{`${shortDate(point.completedAt)}: ${point.scorePercentage.toFixed(0)}%`}</title>
+        </circle>
+      ))}
+      <polyline points={line((point) => point.rollingAverage)} fill="none" className="stroke-black" strokeWidth={2} strokeLinejoin="round" />
+      <text x={left} y={height - 4} className="fill-gray-500 text-[9px]">{shortDate(points[0].completedAt)}</text>
+      <text x={width} y={height - 4} textAnchor="end" className="fill-gray-500 text-[9px]">{shortDate(points[points.length - 1].completedAt)}</text>
+    </svg>
+  );
+}
+
+// One bar split by rating, with the counts underneath
+function RatingDistributionChart({ shares }: { shares: RatingShare[] }) {
+  let offset = 0;
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox="0 0 100 8" preserveAspectRatio="none" className="w-full h-4 rounded-full overflow-hidden" role="img" aria-label="Ratings given">
+        {shares.map((share) => {
+          const start = offset;
+          offset += share.percentage;
+          return share.count > 0 && (
+            <rect key={share.option} x={start} y={0} width={share.percentage} height={8} className={RATING_FILLS[share.option]}>
+              <title>{`${share.label}: ${share.count}`}</title>
+            </rect>
+          );
+        })}
+      </svg>
+      <div className="flex justify-between text-xs text-gray-600">
+        {shares.map((share) => (
+          <span key={share.option} className="flex items-center gap-1">
+            <svg viewBox="0 0 8 8" className="w-2 h-2"><rect width={8} height={8} rx={2} className={RATING_FILLS[share.option]} /></svg>
+            {share.label} {share.percentage.toFixed(0)}%
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Weeks as columns, Monday at the top; darker squares = more exercises that day
+function PracticeCalendarChart({ weeks }: { weeks: CalendarDay[][] }) {
+  const cell = 10;
+  const gap = 2;
+  const left = 12;
+  const busiest = Math.max(1, ...weeks.flat().map((day) => day.exercises));
+  const fill = (day: CalendarDay) => {
+    if (day.future) return 'fill-transparent';
+    if (day.sessions === 0) return 'fill-gray-100';
+    return CALENDAR_FILLS[Math.min(CALENDAR_FILLS.length - 1, Math.floor((day.exercises / busiest) * CALENDAR_FILLS.length))];
+  };
+
+  return (
+    <svg viewBox={`0 0 ${left + weeks.length * (cell + gap)} ${7 * (cell + gap)}`} className="w-full" role="img" aria-label="Practice days">
+      {['M', 'W', 'F'].map((label, index) => (
+        <text key={label} x={0} y={index * 2 * (cell + gap) + cell - 1} className="fill-gray-500 text-[8px]">{label}</text>
+      ))}
+      {weeks.map((week, column) =>
+        week.map((day, row) => (
+          <rect
+            key={day.day}
+            x={left + column * (cell + gap)}
+            y={row * (cell + gap)}
+            width={cell}
+            height={cell}
+            rx={2}
+            className={fill(day)}
+          >
+            {!day.future && <title>{`${shortDate(day.day + 'T00:00')}: ${day.sessions} sessions, ${day.exercises} exercises`}</title>}
+          </rect>
+        ))
+      )}
+    </svg>
+  );
+}
+
+// Score trend, rating distribution and practice calendar for the Statistics tab
+export default function ProgressCharts({ history }: ProgressChartsProps) {
+  if (history.length === 0) {
+    return (
+      <p className="text-xs text-gray-500">
+        Complete a session to see your scores over time, how you rate your answers and which days you practised.
+      </p>
+    );
+  }
+
+  const shares = ratingDistribution(history);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex items-center justify-between text-sm font-medium text-gray-700 mb-1">
+          <span>Score per Session</span>
+          <span className="flex items-center gap-3 text-xs font-normal text-gray-500">
+            <span className="flex items-center gap-1"><span className="w-3 h-px bg-gray-400" />Session</span>
+            <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-black" />Last {ROLLING_WINDOW} average</span>
+          </span>
+        </div>
+        <ScoreTrendChart points={scoreTrend(history)} />
+      </div>
+
+      {shares.some((share) => share.count > 0) && (
+        <div>
+          <div className="text-sm font-medium text-gray-700 mb-1">Ratings</div>
+          <RatingDistributionChart shares={shares} />
+        </div>
+      )}
+
+      <div>
+        <div className="text-sm font-medium text-gray-700 mb-1">Practice Days</div>
+        <PracticeCalendarChart weeks={practiceCalendar(history)} />
+      </div>
+    </div>
+  );
+}
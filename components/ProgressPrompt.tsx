@@ -10,7 +10,10 @@ interface ProgressPromptProps {
 
 export default function ProgressPrompt({ savedProgress, onRestore, onDiscard }: ProgressPromptProps) {
   const savedDate = new Date(savedProgress.savedAt);
-  const exerciseText = `Exercise ${savedProgress.session.currentExercise} of ${savedProgress.session.totalExercises}`;
+  const { currentExercise, totalExercises } = savedProgress.session;
+  const exerciseText = currentExercise > totalExercises
+    ? `Replaying missed exercises (${totalExercises} planned done)`
+    : `Exercise ${currentExercise} of ${totalExercises}`;
   const scoreText = `${savedProgress.session.totalScore} points`;
 
   return (
@@ -45,7 +45,7 @@
  * 3. Compass lines (North-South and East-West)  
  * 4. Clock numbers (12, 3, 6, 9)
  * 5. Target airplane (your airplane - triangle at center)
- * 6. Intruder airplane (other airplane - triangle somewhere else)
+ * 6. Intruder airplanes (other airplanes - one, two or three somewhere else)
  * 7. History dots (trails showing where airplanes came from)
  * 8. Text labels (airplane names and information)
  */
@@ -63,7 +63,8 @@ import { Exercise } from '@/lib/types';  // Changed from generator to types
 
 // 📋 COMPONENT PROPS (like a delivery package label)
 // This tells us what information this radar component needs to work:
-type Props = { exercise: Exercise };  // We need an "exercise" containing airplane information
+// 🖼️ thumbnail = a small picture for lists: no text labels, shorter speed arrows
+type Props = { exercise: Exercise; thumbnail?: boolean };
 
 /**
  * 📡 MAIN RADAR COMPONENT FUNCTION
@@ -71,12 +72,12 @@ type Props = { exercise: Exercise };  // We need an "exercise" containing airpla
  * It takes an airplane exercise and draws it on a radar display.
  * 
  * 🎯 WHAT IT RECEIVES:
- * - exercise = Contains information about two airplanes (target + intruder)
+ * - exercise = Contains information about the airplanes (target + one or more intruders)
  * 
  * 🎨 WHAT IT CREATES:
  * - A visual radar screen showing the airplanes and their positions
  */
-export default function Radar({ exercise }: Props) {
+export default function Radar({ exercise, thumbnail = false }: Props) {
   // 📺 SVG SCREEN REFERENCE (like a TV remote control)
   // This gives us direct control over the radar screen so we can draw on it
   const svgRef = useRef<SVGSVGElement | null>(null);
@@ -103,7 +104,7 @@ export default function Radar({ exercise }: Props) {
     // 📺 Get our drawing canvas (the SVG radar screen)
     const svg = svgRef.current;
     // ✈️ Extract the airplane information from the exercise
-    const { target, intruder } = exercise;
+    const { target, intruders } = exercise;
     // 🎨 SVG drawing toolkit (like getting the right paintbrushes)
     const svgNS = 'http://www.w3.org/2000/svg';
 
@@ -150,6 +151,7 @@ export default function Radar({ exercise }: Props) {
       r.setAttribute('fill', 'none');                         // Hollow circle (no inside color)
       r.setAttribute('stroke-width', '1');                    // Thin ring line
       g.appendChild(r);
+      if (thumbnail) return;                                  // 🖼️ Too small for ring labels
 
       // 📝 Draw the distance label (like "3NM", "6NM", "9NM")
       const t = document.createElementNS(svgNS, 'text');
@@ -188,7 +190,7 @@ export default function Radar({ exercise }: Props) {
     
     // 🎯 STEP 1: REGISTER ALL AIRPLANE POSITIONS (reserve parking spaces)
     // Before we draw anything, figure out where everything goes so nothing overlaps
-    [target, intruder].forEach(ac => {
+    [target, ...intruders].forEach(ac => {
       // 📍 Convert airplane coordinates from nautical miles to screen pixels
       const x = toPx(ac.position.x);      // Convert X position to pixels
       const y = -toPx(ac.position.y);     // Convert Y position to pixels (flip because screen Y is upside down)
@@ -325,7 +327,7 @@ export default function Radar({ exercise }: Props) {
         const d = document.createElementNS(svgNS, 'circle');
         d.setAttribute('cx', String(toPx(p.x)));           // Dot X position
         d.setAttribute('cy', String(-toPx(p.y)));          // Dot Y position (flipped)
-        d.setAttribute('r', '1.5');                        // Small dot radius
+        d.setAttribute('r', thumbnail ? '0.75' : '1.5');      // Small dot radius
         d.setAttribute('fill', color);                     // Same color as airplane
         d.setAttribute('opacity', '0.8');                 // Slightly transparent
         g.appendChild(d);  // Add dot to radar screen
@@ -338,8 +340,8 @@ export default function Radar({ exercise }: Props) {
       // 🏎️ Speed scaling constants (convert airplane speed to arrow length)
       const minSpeed = 60;         // Slowest airplane speed (knots)
       const maxSpeed = 350;        // Fastest airplane speed (knots)
-      const minLeaderLength = 15;  // Shortest arrow (pixels)  
-      const maxLeaderLength = 45;  // Longest arrow (pixels)
+      const minLeaderLength = thumbnail ? 6 : 15;   // Shortest arrow (pixels)  
+      const maxLeaderLength = thumbnail ? 18 : 45;  // Longest arrow (pixels)
       
       // 📏 Calculate arrow length based on airplane speed
       // Faster airplane = longer arrow, slower airplane = shorter arrow
@@ -361,6 +363,18 @@ export default function Radar({ exercise }: Props) {
       vec.setAttribute('stroke-width', '2');        // Medium thickness line
       g.appendChild(vec);  // Add arrow to radar screen
 
+      // 🖼️ THUMBNAIL: just a dot where the airplane is - no label, no connector
+      if (thumbnail) {
+        const dot = document.createElementNS(svgNS, 'rect');
+        dot.setAttribute('x', String(x - 2));
+        dot.setAttribute('y', String(y - 2));
+        dot.setAttribute('width', '4');
+        dot.setAttribute('height', '4');
+        dot.setAttribute('fill', color);
+        g.appendChild(dot);
+        return;
+      }
+
       // 📋 STEP 3: PREPARE AIRPLANE INFORMATION LABEL
       // This creates the text label that shows airplane details (like a name tag)
       
@@ -565,11 +579,11 @@ export default function Radar({ exercise }: Props) {
     }
 
     // 🎬 MAIN DRAWING SEQUENCE (like directing a movie scene)
-    // Draw both airplanes with their specific colors:
-    drawAc(target, '--target');      // Draw target airplane (usually blue)
-    drawAc(intruder, '--intruder');  // Draw intruder airplane (usually red)
+    // Draw every airplane with its specific color:
+    drawAc(target, '--target');                                 // Draw target airplane (usually blue)
+    intruders.forEach(intruder => drawAc(intruder, '--intruder'));  // Draw each intruder airplane (usually red)
     
-  }, [exercise]);  // Redraw whenever we get a new exercise
+  }, [exercise, thumbnail]);  // Redraw whenever we get a new exercise (or the live picture moves one sweep)
 
   // 🖼️ RENDER THE RADAR SCREEN (return the actual HTML element)
   return (
@@ -0,0 +1,45 @@
+"use client";
+
+import { PerformanceBreakdown } from "../lib/analytics";
+
+interface ScenarioAnalyticsProps {
+  breakdowns: PerformanceBreakdown[];
+}
+
+// Score per scenario bucket (direction, clock, distance, traffic, level change) as small bar tables
+export default function ScenarioAnalytics({ breakdowns }: ScenarioAnalyticsProps) {
+  if (breakdowns.length === 0) {
+    return (
+      <p className="text-xs text-gray-500">
+        Complete a session to see how you do by direction, clock position, distance and traffic type.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {breakdowns.map((breakdown) => (
+        <div key={breakdown.dimension}>
+          <div className="text-sm font-medium text-gray-700 mb-1">{breakdown.dimension}</div>
+          <div className="space-y-1">
+            {breakdown.rows.map((row) => (
+              <div key={row.label} className="flex items-center gap-2 text-xs">
+                <span className="w-36 flex-shrink-0 text-gray-600 truncate" title={row.label}>{row.label}</span>
+                <div className="flex-1 h-2 bg-gray-100 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full rounded-full ${row.scorePercentage < 50 ? 'bg-red-500' : row.scorePercentage < 75 ? 'bg-yellow-500' : 'bg-green-600'}`}
+                    style={{ width: `${row.scorePercentage}%` }}
+                  />
+                </div>
+                <span className="w-10 text-right font-medium">{Math.round(row.scorePercentage)}%</span>
+                <span className="w-12 text-right text-gray-500" title={`${row.againCount} rated again`}>
+                  {row.attempts}×
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+"use client";
+
+import { useState } from "react";
+import { AssessmentScore, ASSESSMENT_BUTTONS, Exercise, Settings as SettingsType } from "../lib/types";
+import { renderSolutions } from "../lib/phraseology";
+import Radar from "./Radar";
+
+interface SessionReviewProps {
+  scores: AssessmentScore[];
+  settings: SettingsType;
+  onClose: () => void;
+}
+
+type ReviewEntry = {
+  title: string;
+  score: AssessmentScore;
+  exercise: Exercise;
+};
+
+const BADGE_COLORS = {
+  green: 'bg-green-600',
+  yellow: 'bg-yellow-500',
+  orange: 'bg-orange-500',
+  red: 'bg-red-500',
+} as const;
+
+// Seconds as m:ss
+const formatSeconds = (totalSeconds: number) =>
+  `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+
+// Every rated exercise in order; replays are named after the exercise they repeat
+function reviewEntries(scores: AssessmentScore[]): ReviewEntry[] {
+  const numbers = new Map<number, number>(); // seed → exercise number
+  return scores.flatMap((score) => {
+    if (!score.snapshot) return []; // Rated before exercises were kept in the session
+    const exercise = score.snapshot;
+    if (!score.replay) numbers.set(exercise.seed, numbers.size + 1);
+    const number = numbers.get(exercise.seed);
+    const title = score.replay ? `Replay of exercise ${number ?? '?'}` : `Exercise ${number}`;
+    return [{ title, score, exercise }];
+  });
+}
+
+// Solution, self-assessment and time taken for one exercise
+function EntryDetails({ entry, settings }: { entry: ReviewEntry; settings: SettingsType }) {
+  const button = ASSESSMENT_BUTTONS.find((b) => b.option === entry.score.option)!;
+  return (
+    <div className="min-w-0 flex-1 text-left">
+      <div className="flex items-center gap-2 mb-1">
+        <span className="font-medium text-sm">{entry.title}</span>
+        <span className={`px-2 py-0.5 rounded-full text-xs text-white ${BADGE_COLORS[button.color]}`}>{button.label}</span>
+        {entry.score.seconds !== undefined && (
+          <span className="text-xs text-gray-500 ml-auto">{formatSeconds(entry.score.seconds)}</span>
+        )}
+      </div>
+      {renderSolutions(entry.exercise, settings.phraseology, { abbreviatedCallsign: settings.abbreviatedCallsigns }).map((line, index) => (
+        <p key={index} className="text-xs text-gray-700">{line}</p>
+      ))}
+    </div>
+  );
+}
+
+// Every exercise of the finished session; clicking one reopens its radar (read-only)
+export default function SessionReview({ scores, settings, onClose }: SessionReviewProps) {
+  const entries = reviewEntries(scores);
+  const [selected, setSelected] = useState<ReviewEntry | null>(null);
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center p-4 z-50" style={{
+      backgroundColor: 'rgba(0, 0, 0, 0.2)',
+      backdropFilter: 'blur(4px)',
+      WebkitBackdropFilter: 'blur(4px)'
+    }}>
+      <div className="bg-white rounded-lg max-w-md w-full shadow-2xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b flex-shrink-0">
+          <h2 className="text-xl font-bold">{selected ? selected.title : 'Session Review'}</h2>
+          <button
+            onClick={selected ? () => setSelected(null) : onClose}
+            className="text-gray-500 hover:text-gray-700 text-2xl"
+            title={selected ? 'Back to the list' : 'Close'}
+          >
+            {selected ? '‹' : '×'}
+          </button>
+        </div>
+
+        <div className="p-4 flex-1 overflow-y-auto min-h-0">
+          {selected ? (
+            // Full radar as it was rated - no simulation, no answer buttons
+            <div className="space-y-3">
+              <div className="w-full max-w-[380px] aspect-square mx-auto">
+                <Radar exercise={selected.exercise} />
+              </div>
+              <EntryDetails entry={selected} settings={settings} />
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-gray-500">No exercises to review in this session.</p>
+          ) : (
+            <div className="space-y-2">
+              {entries.map((entry, index) => (
+                <button
+                  key={index}
+                  onClick={() => setSelected(entry)}
+                  className="w-full flex gap-3 p-2 rounded-lg border border-gray-200 hover:bg-gray-50 transition-colors"
+                >
+                  <div className="w-20 h-20 flex-shrink-0">
+                    <Radar exercise={entry.exercise} thumbnail />
+                  </div>
+                  <EntryDetails entry={entry} settings={settings} />
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
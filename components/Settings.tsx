@@ -1,8 +1,15 @@
 "use client";
 
 import { useState, useEffect, useRef } from 'react';
-import { Settings as SettingsType } from '../lib/types';
-import { getSessionStatistics } from '../lib/storage';
+import { Settings as SettingsType, GeneratorOptions, Difficulty, Phraseology, AnswerMode } from '../lib/types';
+import { loadSessionHistory, summarizeSessions } from '../lib/storage';
+import { analyzeHistory } from '../lib/analytics';
+import { DIRECTION_WEIGHTS, DIFFICULTY_PRESETS } from '../lib/constants';
+import { PHRASEOLOGY_PROFILES } from '../lib/phraseology';
+import ScenarioAnalytics from './ScenarioAnalytics';
+import ProgressCharts from './ProgressCharts';
+import BackupPanel from './BackupPanel';
+import HistoryBrowser from './HistoryBrowser';
 
 interface SettingsProps {
   settings: SettingsType;
@@ -11,10 +18,13 @@ interface SettingsProps {
 }
 
 export default function Settings({ settings, onUpdateSettings, onClose }: SettingsProps) {
-  const [activeTab, setActiveTab] = useState<'general' | 'stats'>('general');
+  const [activeTab, setActiveTab] = useState<'general' | 'traffic' | 'stats'>('general');
+  const [showHistory, setShowHistory] = useState(false);
   const modalRef = useRef<HTMLDivElement>(null);
 
-  const stats = getSessionStatistics();
+  const history = loadSessionHistory();
+  const stats = summarizeSessions(history);
+  const breakdowns = analyzeHistory(history);
 
   // Handle click outside to close modal
   useEffect(() => {
@@ -30,6 +40,12 @@ export default function Settings({ settings, onUpdateSettings, onClose }: Settin
     };
   }, [onClose]);
 
+  const updateGenerator = (changes: Partial<GeneratorOptions>) => {
+    onUpdateSettings({ generator: { ...settings.generator, ...changes } });
+  };
+
+  const preset = DIFFICULTY_PRESETS[settings.generator.difficulty];
+
   const formatDate = (dateString: string) => {
     if (!dateString) return 'Never';
     
@@ -65,6 +81,7 @@ export default function Settings({ settings, onUpdateSettings, onClose }: Settin
         <div className="flex border-b flex-shrink-0">
           {([
             { id: 'general' as const, label: 'General' },
+            { id: 'traffic' as const, label: 'Traffic' },
             { id: 'stats' as const, label: 'Statistics' },
           ] as const).map((tab) => (
             <button
@@ -103,6 +120,73 @@ export default function Settings({ settings, onUpdateSettings, onClose }: Settin
                 </select>
               </div>
 
+              {/* Daily goal (a saved goal from an imported backup stays selectable) */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Daily goal
+                </label>
+                <select
+                  value={settings.dailyGoal}
+                  onChange={(e) => onUpdateSettings({ dailyGoal: parseInt(e.target.value) })}
+                  className="w-full border rounded-lg px-3 py-2"
+                >
+                  {[...new Set([5, 10, 20, 30, 50, settings.dailyGoal])].sort((a, b) => a - b).map((goal) => (
+                    <option key={goal} value={goal}>{goal} exercises a day</option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Phraseology */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Phraseology
+                </label>
+                <select
+                  value={settings.phraseology}
+                  onChange={(e) => onUpdateSettings({ phraseology: e.target.value as Phraseology })}
+                  className="w-full border rounded-lg px-3 py-2"
+                >
+                  {(Object.keys(PHRASEOLOGY_PROFILES) as Phraseology[]).map((phraseology) => (
+                    <option key={phraseology} value={phraseology}>{PHRASEOLOGY_PROFILES[phraseology].label}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">{PHRASEOLOGY_PROFILES[settings.phraseology].description}</p>
+              </div>
+
+              {/* Answer Mode */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Answer mode
+                </label>
+                <select
+                  value={settings.answerMode}
+                  onChange={(e) => onUpdateSettings({ answerMode: e.target.value as AnswerMode })}
+                  className="w-full border rounded-lg px-3 py-2"
+                >
+                  <option value="self">Self-assessment</option>
+                  <option value="typed">Type your answer</option>
+                  <option value="speech">Speak your answer</option>
+                </select>
+                <p className="text-xs text-gray-500 mt-1">Typed and spoken answers are graded element by element and suggest an assessment</p>
+              </div>
+
+              {/* Abbreviated Callsigns */}
+              <div className="flex items-center justify-between">
+                <div>
+                  <label className="text-sm font-medium text-gray-700">Abbreviated Callsigns</label>
+                  <p className="text-xs text-gray-500">Contact established: registrations shortened to first and last two characters</p>
+                </div>
+                <label className="relative inline-flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={settings.abbreviatedCallsigns}
+                    onChange={(e) => onUpdateSettings({ abbreviatedCallsigns: e.target.checked })}
+                    className="sr-only peer"
+                  />
+                  <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-black"></div>
+                </label>
+              </div>
+
               {/* Save Progress */}
               <div className="flex items-center justify-between">
                 <div>
@@ -122,6 +206,160 @@ export default function Settings({ settings, onUpdateSettings, onClose }: Settin
             </div>
           )}
 
+          {/* Traffic Generator Settings */}
+          {activeTab === 'traffic' && (
+            <div className="space-y-6">
+              {/* Difficulty */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Difficulty
+                </label>
+                <div className="grid grid-cols-3 gap-2">
+                  {(Object.keys(DIFFICULTY_PRESETS) as Difficulty[]).map((difficulty) => (
+                    <button
+                      key={difficulty}
+                      onClick={() => updateGenerator({ difficulty })}
+                      className={`py-2 px-3 rounded-lg text-sm font-medium border ${
+                        settings.generator.difficulty === difficulty
+                          ? 'bg-black text-white border-black'
+                          : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                      }`}
+                    >
+                      {DIFFICULTY_PRESETS[difficulty].label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-2">{preset.description}</p>
+              </div>
+
+              {/* Spaced Repetition */}
+              <div className="flex items-center justify-between">
+                <div>
+                  <label className="text-sm font-medium text-gray-700">Spaced Repetition</label>
+                  <p className="text-xs text-gray-500">Bring back the scenarios you find hard sooner</p>
+                </div>
+                <label className="relative inline-flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={settings.spacedRepetition}
+                    onChange={(e) => onUpdateSettings({ spacedRepetition: e.target.checked })}
+                    className="sr-only peer"
+                  />
+                  <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-black"></div>
+                </label>
+              </div>
+
+              {/* Adaptive Difficulty */}
+              <div className="flex items-center justify-between">
+                <div>
+                  <label className="text-sm font-medium text-gray-700">Adaptive Difficulty</label>
+                  <p className="text-xs text-gray-500">Practise more of what you get wrong and match the difficulty to your scores</p>
+                </div>
+                <label className="relative inline-flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={settings.adaptiveDifficulty}
+                    onChange={(e) => onUpdateSettings({ adaptiveDifficulty: e.target.checked })}
+                    className="sr-only peer"
+                  />
+                  <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-black"></div>
+                </label>
+              </div>
+
+              {/* Directions and weights */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Traffic directions
+                </label>
+                <p className="text-xs text-gray-500 mb-2">Untick directions to leave them out; weights set how often each appears</p>
+                <div className="space-y-2">
+                  {DIRECTION_WEIGHTS.map(({ direction }) => {
+                    const enabled = settings.generator.directions.includes(direction);
+                    return (
+                      <div key={direction} className="flex items-center justify-between">
+                        <label className="flex items-center text-sm text-gray-700 capitalize">
+                          <input
+                            type="checkbox"
+                            checked={enabled}
+                            onChange={(e) => updateGenerator({
+                              directions: e.target.checked
+                                ? [...settings.generator.directions, direction]
+                                : settings.generator.directions.filter(d => d !== direction),
+                            })}
+                            className="mr-2 accent-black"
+                          />
+                          {direction}
+                        </label>
+                        <input
+                          type="number"
+                          min={0}
+                          max={100}
+                          value={settings.generator.directionWeights[direction]}
+                          disabled={!enabled}
+                          onChange={(e) => updateGenerator({
+                            directionWeights: {
+                              ...settings.generator.directionWeights,
+                              [direction]: Math.max(0, parseInt(e.target.value) || 0),
+                            },
+                          })}
+                          className="w-16 border rounded-lg px-2 py-1 text-sm text-right disabled:opacity-50"
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+
+              {/* Intruders per exercise */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Traffic per exercise
+                </label>
+                <select
+                  value={settings.generator.intruderCount}
+                  onChange={(e) => updateGenerator({ intruderCount: parseInt(e.target.value) })}
+                  className="w-full border rounded-lg px-3 py-2"
+                >
+                  <option value={1}>1 intruder</option>
+                  <option value={2}>2 intruders</option>
+                  <option value={3}>3 intruders</option>
+                </select>
+              </div>
+
+              {/* Rates */}
+              {([
+                { key: 'vfrProbability' as const, label: 'VFR traffic', description: 'Share of exercises flown VFR (the rest is IFR)' },
+                { key: 'militaryRate' as const, label: 'Military intruders', description: 'Chance a VFR intruder is military' },
+                { key: 'levelChangeRate' as const, label: 'Level changes', description: 'Chance an IFR intruder climbs or descends through your level' },
+              ]).map(({ key, label, description }) => {
+                // Presets can pin a rate; show the preset value and lock the slider
+                const presetValue = key === 'vfrProbability' ? undefined : preset[key];
+                const value = presetValue ?? settings.generator[key];
+                return (
+                  <div key={key}>
+                    <div className="flex justify-between items-center">
+                      <label className="text-sm font-medium text-gray-700">{label}</label>
+                      <span className="text-sm font-medium">{Math.round(value * 100)}%</span>
+                    </div>
+                    <p className="text-xs text-gray-500 mb-1">
+                      {description}{presetValue !== undefined && ' (set by difficulty)'}
+                    </p>
+                    <input
+                      type="range"
+                      min={0}
+                      max={100}
+                      step={5}
+                      value={Math.round(value * 100)}
+                      disabled={presetValue !== undefined}
+                      onChange={(e) => updateGenerator({ [key]: parseInt(e.target.value) / 100 })}
+                      className="w-full accent-black disabled:opacity-50"
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
           {/* Statistics */}
           {activeTab === 'stats' && (
             <div className="space-y-4">
@@ -158,9 +396,38 @@ export default function Settings({ settings, onUpdateSettings, onClose }: Settin
                   <span className="font-medium">{formatDate(stats.lastPlayed)}</span>
                 </div>
               </div>
+
+              <button
+                onClick={() => setShowHistory(true)}
+                disabled={stats.totalSessions === 0}
+                className="w-full py-2 px-3 rounded-lg text-sm font-medium border border-gray-300 hover:bg-gray-50 disabled:opacity-40"
+              >
+                Browse Session History
+              </button>
+
+              {/* Trends over time */}
+              <div className="border-t pt-4">
+                <h3 className="text-sm font-semibold text-gray-800 mb-3">Progress</h3>
+                <ProgressCharts history={history} />
+              </div>
+
+              {/* Performance by scenario */}
+              <div className="border-t pt-4">
+                <h3 className="text-sm font-semibold text-gray-800 mb-3">Performance by Scenario</h3>
+                <ScenarioAnalytics breakdowns={breakdowns} />
+              </div>
+
+              {/* Export and import */}
+              <div className="border-t pt-4">
+                <h3 className="text-sm font-semibold text-gray-800 mb-3">Your Data</h3>
+                <BackupPanel onImportSettings={onUpdateSettings} />
+              </div>
             </div>
           )}
         </div>
+
+        {/* Inside the modal, so clicks in the history browser don't close the settings */}
+        {showHistory && <HistoryBrowser onClose={() => setShowHistory(false)} />}
       </div>
     </div>
   );
@@ -0,0 +1,51 @@
+"use client";
+
+import { useState } from "react";
+import { TrafficSolution } from "../lib/types";
+import { describeSolutionElements } from "../lib/solution";
+
+interface SolutionBreakdownProps {
+  solutions: TrafficSolution[];
+  abbreviatedCallsign?: boolean;
+}
+
+// Shows every element of the traffic information as its own chip; tap one to see why it is said
+export default function SolutionBreakdown({ solutions, abbreviatedCallsign = false }: SolutionBreakdownProps) {
+  const [selected, setSelected] = useState<{ solution: number; key: string } | null>(null);
+
+  return (
+    <div className="max-w-[380px] mx-auto mb-3 space-y-2">
+      {solutions.map((solution, solutionIndex) => {
+        const elements = describeSolutionElements(solution, abbreviatedCallsign);
+        const active = selected?.solution === solutionIndex
+          ? elements.find(element => element.key === selected.key)
+          : undefined;
+
+        return (
+          <div key={solutionIndex} className="text-left">
+            <div className="flex flex-wrap gap-1">
+              {elements.map((element) => (
+                <button
+                  key={element.key}
+                  onClick={() => setSelected(active?.key === element.key ? null : { solution: solutionIndex, key: element.key })}
+                  className={`px-2 py-1 rounded-md text-xs border ${
+                    active?.key === element.key
+                      ? 'bg-black text-white border-black'
+                      : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                  }`}
+                >
+                  <span className="opacity-60 mr-1">{element.label}</span>
+                  <span className="font-medium">{element.value}</span>
+                </button>
+              ))}
+            </div>
+            {active && (
+              <div className="text-xs text-gray-600 mt-1 p-2 bg-gray-100 rounded-md">{active.explanation}</div>
+            )}
+          </div>
+        );
+      })}
+      {!selected && <div className="text-xs text-gray-500">Tap an element to see why it is said</div>}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { normalizeTranscript } from "../lib/transcript";
+import TypedAnswer from "./TypedAnswer";
+
+// The parts of the Web Speech recognition API we use (not in TypeScript's DOM types yet)
+interface SpeechRecognitionResultEvent {
+  results: ArrayLike<ArrayLike<{ transcript: string }>>;
+}
+
+interface SpeechRecognitionInstance {
+  lang: string;
+  interimResults: boolean;
+  continuous: boolean;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+  onresult: ((event: SpeechRecognitionResultEvent) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionInstance;
+
+function getSpeechRecognition(): SpeechRecognitionConstructor | undefined {
+  if (typeof window === 'undefined') return undefined;
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  };
+  return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition;
+}
+
+interface SpeechAnswerProps {
+  onSubmit: (answer: string) => void;
+}
+
+// Records the spoken traffic call; submitting it grades the normalized transcript
+export default function SpeechAnswer({ onSubmit }: SpeechAnswerProps) {
+  const [supported, setSupported] = useState(true);
+  const [listening, setListening] = useState(false);
+  const [transcript, setTranscript] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const recognitionRef = useRef<SpeechRecognitionInstance | null>(null);
+
+  useEffect(() => {
+    setSupported(getSpeechRecognition() !== undefined);
+    return () => recognitionRef.current?.abort();
+  }, []);
+
+  const startListening = () => {
+    const Recognition = getSpeechRecognition();
+    if (!Recognition) return;
+
+    const recognition = new Recognition();
+    recognition.lang = 'en-GB';
+    recognition.interimResults = true;
+    recognition.continuous = true;
+    recognition.onresult = (event) => {
+      const text = Array.from(event.results).map(result => result[0].transcript).join(' ');
+      setTranscript(text);
+    };
+    recognition.onerror = (event) => {
+      setError(event.error === 'not-allowed' ? 'Microphone access was denied' : `Speech recognition error: ${event.error}`);
+    };
+    recognition.onend = () => setListening(false);
+
+    recognitionRef.current = recognition;
+    setTranscript('');
+    setError(null);
+    setListening(true);
+    recognition.start();
+  };
+
+  const stopListening = () => {
+    recognitionRef.current?.stop();
+  };
+
+  if (!supported) {
+    return (
+      <div className="space-y-2">
+        <p className="text-xs text-gray-500 text-center">Speech recognition is not available in this browser - type your answer instead</p>
+        <TypedAnswer onSubmit={onSubmit} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-[380px] mx-auto space-y-2">
+      <div className="min-h-[3rem] border rounded-[10px] px-3 py-2 text-sm text-left">
+        {transcript ? (
+          <>
+            <div>{transcript}</div>
+            <div className="text-xs text-gray-500 mt-1">Heard as: {normalizeTranscript(transcript)}</div>
+          </>
+        ) : (
+          <span className="text-gray-400">{listening ? 'Listening...' : 'Press Speak and say your traffic information'}</span>
+        )}
+      </div>
+      {error && <div className="text-xs text-red-600">{error}</div>}
+      <div className="flex gap-2">
+        <button
+          onClick={listening ? stopListening : startListening}
+          className={`flex-1 px-5 py-3 border rounded-[10px] font-semibold ${
+            listening ? 'bg-red-600 text-white border-red-600' : 'bg-white text-black border-black'
+          }`}
+        >
+          {listening ? '■ Stop' : '🎙 Speak'}
+        </button>
+        <button
+          onClick={() => onSubmit(normalizeTranscript(transcript))}
+          disabled={listening || !transcript.trim()}
+          className="flex-1 px-5 py-3 bg-black text-white border-0 rounded-[10px] font-semibold disabled:opacity-50"
+        >
+          Check Answer
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,21 +1,39 @@
+"use client";
+
+import { useState } from "react";
 import Image from "next/image";
-import { Settings as SettingsType } from "../lib/types";
+import { Profile, Settings as SettingsType } from "../lib/types";
 import SettingsButton from "./SettingsButton";
 import InfoTooltip from "./InfoTooltip";
+import ProfileManager from "./ProfileManager";
 
 interface StartScreenProps {
   onStart: () => void;
   settings: SettingsType;
   onUpdateSettings: (settings: Partial<SettingsType>) => void;
   hasProgress: boolean;
+  profiles: Profile[];
+  activeProfileId: string;
+  onSwitchProfile: (profileId: string) => void;
+  onCreateProfile: (name: string) => boolean;
+  onRenameProfile: (profileId: string, name: string) => boolean;
+  onDeleteProfile: (profileId: string) => boolean;
 }
 
 export default function StartScreen({ 
   onStart, 
   settings, 
   onUpdateSettings, 
-  hasProgress 
+  hasProgress,
+  profiles,
+  activeProfileId,
+  onSwitchProfile,
+  onCreateProfile,
+  onRenameProfile,
+  onDeleteProfile,
 }: StartScreenProps) {
+  const [showProfiles, setShowProfiles] = useState(false);
+
   return (
     <main className="h-[100dvh] flex flex-col items-center justify-center p-4 bg-custom-bg">
       {/* Settings Button */}
@@ -58,6 +76,26 @@ Example:
             />
           </div>
         </div>
+        {/* Profile switcher (shared classroom computers) */}
+        {profiles.length > 0 && (
+          <div className="flex items-center justify-center gap-2 mb-4 text-sm text-gray-700">
+            <label htmlFor="profile">Training as</label>
+            <select
+              id="profile"
+              value={activeProfileId}
+              onChange={(e) => onSwitchProfile(e.target.value)}
+              className="border rounded-lg px-2 py-1 bg-white max-w-[12rem]"
+            >
+              {profiles.map((profile) => (
+                <option key={profile.id} value={profile.id}>{profile.name}</option>
+              ))}
+            </select>
+            <button onClick={() => setShowProfiles(true)} className="text-gray-600 underline hover:text-black">
+              Manage
+            </button>
+          </div>
+        )}
+
         <button
           onClick={onStart}
           className="w-full px-8 py-4 bg-black text-white rounded-[10px] font-semibold text-lg hover:bg-gray-800 transition-colors"
@@ -71,6 +109,18 @@ Example:
           </p>
         )}
       </div>
+
+      {showProfiles && (
+        <ProfileManager
+          profiles={profiles}
+          activeProfileId={activeProfileId}
+          onSwitchProfile={onSwitchProfile}
+          onCreateProfile={onCreateProfile}
+          onRenameProfile={onRenameProfile}
+          onDeleteProfile={onDeleteProfile}
+          onClose={() => setShowProfiles(false)}
+        />
+      )}
     </main>
   );
 }
\ No newline at end of file
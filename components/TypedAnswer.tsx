@@ -0,0 +1,41 @@
+"use client";
+
+import { useState } from "react";
+
+interface TypedAnswerProps {
+  onSubmit: (answer: string) => void;
+}
+
+// Input box for typing the traffic call; submitting it reveals the graded answer
+export default function TypedAnswer({ onSubmit }: TypedAnswerProps) {
+  const [answer, setAnswer] = useState('');
+
+  const submit = () => {
+    if (answer.trim()) onSubmit(answer.trim());
+  };
+
+  return (
+    <div className="max-w-[380px] mx-auto space-y-2">
+      <textarea
+        value={answer}
+        onChange={(e) => setAnswer(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            submit();
+          }
+        }}
+        placeholder="Type your traffic information..."
+        rows={2}
+        className="w-full border rounded-[10px] px-3 py-2 text-sm resize-none"
+      />
+      <button
+        onClick={submit}
+        disabled={!answer.trim()}
+        className="block w-full px-5 py-3 bg-black text-white border-0 rounded-[10px] font-semibold disabled:opacity-50"
+      >
+        Check Answer
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+// =============================================================================
+// 🏅 STREAKS, DAILY GOALS AND ACHIEVEMENTS - Reasons to Come Back Tomorrow
+// =============================================================================
+
+/**
+ * 🧠 WHAT THIS FILE DOES:
+ * Everything here is worked out from the session history (when each session
+ * was completed and how it went):
+ *
+ * 🎯 Daily goal   → exercises completed today against the goal in Settings
+ * 🔥 Streak       → days in a row with at least one session
+ * 🏅 Achievements → milestones like "50 overtaking calls rated Correct"
+ *
+ * Achievements are checked each time a session is saved. Once earned they are
+ * kept in their own drawer, so they stay earned even when old sessions are
+ * deleted or compacted.
+ */
+
+import { localDay, startOfDay } from './history';
+import { type CompletedSession } from './storage';
+import { type EarnedAchievement, type SessionRewards } from './types';
+
+// 🗂️ Earned achievements as stored: achievement id → when it was earned (ISO date)
+export type EarnedAchievements = Record<string, string>;
+
+// 🔥 Days in a row with practice
+export interface PracticeStreak {
+  current: number; // Still counts if today has no session yet but yesterday had one
+  longest: number;
+}
+
+// 📋 What an achievement can look at
+export interface AchievementContext {
+  history: CompletedSession[]; // Newest first, the session just saved included
+  streak: PracticeStreak;
+  exercisesToday: number;
+  dailyGoal: number;
+}
+
+/**
+ * 🏅 ONE ACHIEVEMENT
+ * - id: stored with the date it was earned (never change it)
+ * - earned: has the trainee done it yet?
+ */
+export interface Achievement {
+  id: string;
+  title: string;
+  description: string;
+  earned: (context: AchievementContext) => boolean;
+}
+
+// =============================================================================
+// 🎯 DAILY GOAL AND 🔥 STREAK
+// =============================================================================
+
+// 📅 Local days counted from 1970 (rounded, so daylight saving changes don't matter)
+const dayNumber = (day: string) => Math.round(startOfDay(day) / (24 * 60 * 60 * 1000));
+
+// 🎯 Exercises completed on the same local day as `today`
+export function exercisesOnDay(history: CompletedSession[], today = new Date()): number {
+  const day = localDay(today);
+  return history
+    .filter(session => localDay(session.completedAt) === day)
+    .reduce((sum, session) => sum + session.exercisesCompleted, 0);
+}
+
+/**
+ * 🔥 PRACTICE STREAK
+ * Any completed session makes a practice day. A streak is broken by a whole
+ * day without one - today only breaks it once it is over.
+ */
+export function practiceStreak(history: CompletedSession[], today = new Date()): PracticeStreak {
+  const days = [...new Set(history.map(session => dayNumber(localDay(session.completedAt))))].sort((a, b) => a - b);
+
+  let longest = 0;
+  let run = 0;
+  days.forEach((day, index) => {
+    run = index > 0 && day === days[index - 1] + 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  // The run that ends on the last practice day is still going if that was today or yesterday
+  const todayNumber = dayNumber(localDay(today));
+  const last = days[days.length - 1];
+  const current = last === todayNumber || last === todayNumber - 1 ? run : 0;
+
+  return { current, longest };
+}
+
+// =============================================================================
+// 🏅 THE ACHIEVEMENTS
+// =============================================================================
+
+const allScores = (history: CompletedSession[]) => history.flatMap(session => session.scores);
+
+// ⭐ Every exercise rated Correct on the first try (no replays needed)
+const isPerfect = (session: CompletedSession) =>
+  session.scores.length === session.totalExercises && session.scores.every(score => score.option === 'correct' && !score.replay);
+
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: 'first-session',
+    title: 'First Contact',
+    description: 'Complete your first session',
+    earned: ({ history }) => history.length >= 1,
+  },
+  {
+    id: 'daily-goal',
+    title: 'Goal Reached',
+    description: 'Meet your daily exercise goal',
+    earned: ({ exercisesToday, dailyGoal }) => exercisesToday >= dailyGoal,
+  },
+  {
+    id: 'sessions-10',
+    title: 'Regular Trainee',
+    description: 'Complete 10 sessions',
+    earned: ({ history }) => history.length >= 10,
+  },
+  {
+    id: 'exercises-100',
+    title: 'Hundred Calls',
+    description: 'Complete 100 exercises',
+    earned: ({ history }) => history.reduce((sum, session) => sum + session.exercisesCompleted, 0) >= 100,
+  },
+  {
+    id: 'perfect-10',
+    title: 'Clean Sweep',
+    description: 'Rate every exercise of a 10-exercise session Correct on the first try',
+    earned: ({ history }) => history.some(session => session.totalExercises >= 10 && isPerfect(session)),
+  },
+  {
+    id: 'perfect-20',
+    title: 'Flawless Watch',
+    description: 'Rate every exercise of a 20-exercise session Correct on the first try',
+    earned: ({ history }) => history.some(session => session.totalExercises >= 20 && isPerfect(session)),
+  },
+  {
+    id: 'overtaking-50',
+    title: 'Eyes in the Back',
+    description: 'Have 50 overtaking calls rated Correct',
+    earned: ({ history }) =>
+      allScores(history).filter(score => score.option === 'correct' && score.exercise?.direction === 'overtaking').length >= 50,
+  },
+  {
+    id: 'speech-10',
+    title: 'On Frequency',
+    description: 'Complete 10 sessions answering by speech',
+    earned: ({ history }) => history.filter(session => session.answerMode === 'speech').length >= 10,
+  },
+  {
+    id: 'streak-7',
+    title: 'Week on Watch',
+    description: 'Practise 7 days in a row',
+    earned: ({ streak }) => streak.longest >= 7,
+  },
+  {
+    id: 'streak-30',
+    title: 'Month on Watch',
+    description: 'Practise 30 days in a row',
+    earned: ({ streak }) => streak.longest >= 30,
+  },
+];
+
+// =============================================================================
+// ✅ CHECKING AFTER A SAVED SESSION
+// =============================================================================
+
+/**
+ * ✅ ADD NEWLY EARNED ACHIEVEMENTS
+ * Returns the stored achievements with any that are earned now added (dated
+ * `now`). Achievements already earned keep their original date.
+ */
+export function evaluateAchievements(context: AchievementContext, earned: EarnedAchievements, now = new Date()): EarnedAchievements {
+  const updated = { ...earned };
+  for (const achievement of ACHIEVEMENTS) {
+    if (!updated[achievement.id] && achievement.earned(context)) updated[achievement.id] = now.toISOString();
+  }
+  return updated;
+}
+
+/**
+ * 🎁 WHAT THE END SCREEN SHOWS
+ * New achievements are the ones earned since the session started, so working
+ * this out twice for the same session gives the same answer.
+ */
+export function sessionRewards(context: AchievementContext, earned: EarnedAchievements, sessionStart: Date): SessionRewards {
+  const newAchievements: EarnedAchievement[] = ACHIEVEMENTS
+    .filter(achievement => earned[achievement.id] && new Date(earned[achievement.id]) >= sessionStart)
+    .map(({ id, title, description }) => ({ id, title, description, earnedAt: earned[id] }));
+
+  return {
+    exercisesToday: context.exercisesToday,
+    dailyGoal: context.dailyGoal,
+    currentStreak: context.streak.current,
+    longestStreak: context.streak.longest,
+    newAchievements,
+    achievementsEarned: ACHIEVEMENTS.filter(achievement => earned[achievement.id]).length,
+    achievementsTotal: ACHIEVEMENTS.length,
+  };
+}
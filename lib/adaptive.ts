@@ -0,0 +1,193 @@
+// =============================================================================
+// 🎯 ADAPTIVE DIFFICULTY - More of What the Trainee Gets Wrong!
+// =============================================================================
+
+/**
+ * 🧠 WHAT THIS FILE DOES:
+ * A good instructor watches how the trainee is doing and adjusts the next
+ * exercise: "You keep missing overtaking traffic - let's do more of those."
+ * We do the same with the last few dozen scores (this session first, then
+ * the stored history):
+ *
+ * ➡️ Weak directions   → their weight goes up (up to 3× at 0%)
+ * 🛩️ Weak flight rules → the VFR/IFR mix leans towards the weaker one
+ * 📈 Weak level changes → more climbing/descending traffic
+ * 🎚️ Overall score     → one difficulty step up (85%+) or down (below 50%)
+ *
+ * Every change comes with a reason, so the end screen can explain what was
+ * emphasized and why.
+ */
+
+import { DIFFICULTY_PRESETS } from './constants';
+import { type CompletedSession } from './storage';
+import {
+  ASSESSMENT_POINTS,
+  type AdaptiveFocus,
+  type AssessmentScore,
+  type Difficulty,
+  type DifficultyChange,
+  type GeneratorOptions,
+  type ScoreMetadata,
+  type SessionAdaptations,
+  type TrafficDirection,
+} from './types';
+
+/**
+ * 📋 THE PLAN FOR THE NEXT EXERCISE
+ * - options: the generator options with weights, mix and difficulty adjusted
+ * - focus: the weak areas that were emphasized, weakest first
+ * - difficultyChange: set when the difficulty was stepped up or down
+ */
+export interface AdaptivePlan {
+  options: GeneratorOptions;
+  focus: AdaptiveFocus[];
+  difficultyChange?: DifficultyChange;
+}
+
+const RECENT_WINDOW = 40;          // 🕐 How many recent scores we look at
+const MIN_ATTEMPTS = 3;            // 🔢 Fewer attempts than this say nothing about an area
+const WEAK_THRESHOLD = 70;         // 📉 Below this percentage an area counts as weak
+const MAX_DIRECTION_BOOST = 3;     // ➡️ Weight multiplier for a direction scored at 0%
+const FLIGHT_RULE_SHIFT = 0.15;    // 🛩️ How far the VFR/IFR mix leans towards the weaker side
+const LEVEL_CHANGE_BOOST = 0.2;    // 📈 Extra level-change rate when level changes are weak
+const MIN_SCORES_FOR_STEP = 10;    // 🎚️ Scores needed before the difficulty changes
+const STEP_UP_PERCENTAGE = 85;     // ⬆️ Doing this well → harder geometry
+const STEP_DOWN_PERCENTAGE = 50;   // ⬇️ Doing this badly → easier geometry
+
+const DIFFICULTY_ORDER: Difficulty[] = ['beginner', 'intermediate', 'advanced'];
+
+type ScoredScenario = { points: number; exercise: ScoreMetadata };
+
+// =============================================================================
+// 🕐 RECENT RESULTS
+// =============================================================================
+
+/**
+ * 🕐 COLLECT THE RECENT SCORES
+ * Newest first: this session's scores, then stored sessions (already newest first).
+ * Scores without a recorded scenario are skipped.
+ */
+function recentScenarios(recentScores: AssessmentScore[], history: CompletedSession[]): ScoredScenario[] {
+  const newestFirst: { points: number; exercise?: ScoreMetadata }[] = [
+    ...[...recentScores].reverse(),
+    ...history.flatMap(session => [...session.scores].reverse()),
+  ];
+  return newestFirst
+    .filter((score): score is ScoredScenario => score.exercise !== undefined)
+    .slice(0, RECENT_WINDOW);
+}
+
+// 📊 Average points as a percentage of a perfect answer
+function scorePercentage(scores: ScoredScenario[]): number {
+  const points = scores.reduce((sum, score) => sum + score.points, 0);
+  return scores.length > 0 ? (points / (scores.length * ASSESSMENT_POINTS.correct)) * 100 : 0;
+}
+
+// 🔎 Results of one area, or undefined when there are too few attempts to judge
+function areaResult(area: string, scores: ScoredScenario[]): AdaptiveFocus | undefined {
+  if (scores.length < MIN_ATTEMPTS) return undefined;
+  return { area, scorePercentage: scorePercentage(scores), attempts: scores.length };
+}
+
+const isWeak = (result?: AdaptiveFocus): result is AdaptiveFocus =>
+  result !== undefined && result.scorePercentage < WEAK_THRESHOLD;
+
+// =============================================================================
+// 📋 THE PLAN
+// =============================================================================
+
+/**
+ * 📋 ADAPT THE GENERATOR OPTIONS
+ * @param options - the session's generator options (never changed)
+ * @param recentScores - scores of the running session
+ * @param history - stored sessions, newest first
+ */
+export function adaptGeneratorOptions(
+  options: GeneratorOptions,
+  recentScores: AssessmentScore[],
+  history: CompletedSession[]
+): AdaptivePlan {
+  const scores = recentScenarios(recentScores, history);
+  const adapted: GeneratorOptions = { ...options, directionWeights: { ...options.directionWeights } };
+  const focus: AdaptiveFocus[] = [];
+
+  // 🎚️ STEP 1: Move the difficulty one step when the overall score is clearly too high or too low
+  let difficultyChange: DifficultyChange | undefined;
+  if (scores.length >= MIN_SCORES_FOR_STEP) {
+    const overall = scorePercentage(scores);
+    const index = DIFFICULTY_ORDER.indexOf(options.difficulty);
+    const step = overall >= STEP_UP_PERCENTAGE ? 1 : overall < STEP_DOWN_PERCENTAGE ? -1 : 0;
+    const to = DIFFICULTY_ORDER[Math.min(Math.max(index + step, 0), DIFFICULTY_ORDER.length - 1)];
+    if (to !== options.difficulty) {
+      adapted.difficulty = to;
+      difficultyChange = { from: options.difficulty, to, raised: step > 0, scorePercentage: overall, attempts: scores.length };
+    }
+  }
+
+  // ➡️ STEP 2: Weak directions appear more often (only directions that are switched on)
+  const enabled = options.directions.length > 0
+    ? options.directions
+    : (Object.keys(options.directionWeights) as TrafficDirection[]);
+  for (const direction of enabled) {
+    const result = areaResult(direction, scores.filter(score => score.exercise.direction === direction));
+    if (!isWeak(result)) continue;
+    const boost = 1 + (MAX_DIRECTION_BOOST - 1) * (1 - result.scorePercentage / 100);
+    adapted.directionWeights[direction] = options.directionWeights[direction] * boost;
+    focus.push(result);
+  }
+
+  // 🛩️ STEP 3: Lean the VFR/IFR mix towards the weaker flight rules (if both are in the mix)
+  if (options.vfrProbability > 0 && options.vfrProbability < 1) {
+    const vfr = areaResult('VFR traffic', scores.filter(score => score.exercise.flightRule === 'VFR'));
+    const ifr = areaResult('IFR traffic', scores.filter(score => score.exercise.flightRule === 'IFR'));
+    if (vfr && ifr && vfr.scorePercentage !== ifr.scorePercentage) {
+      const weaker = vfr.scorePercentage < ifr.scorePercentage ? vfr : ifr;
+      if (isWeak(weaker)) {
+        const shift = weaker === vfr ? FLIGHT_RULE_SHIFT : -FLIGHT_RULE_SHIFT;
+        adapted.vfrProbability = Math.min(Math.max(options.vfrProbability + shift, 0.1), 0.9);
+        focus.push(weaker);
+      }
+    }
+  }
+
+  // 📈 STEP 4: More level changes when they are weak (presets with a fixed rate keep theirs)
+  if (DIFFICULTY_PRESETS[adapted.difficulty].levelChangeRate === undefined) {
+    const levelChanges = areaResult('level changes', scores.filter(score => score.exercise.levelChange));
+    if (isWeak(levelChanges)) {
+      adapted.levelChangeRate = Math.min(options.levelChangeRate + LEVEL_CHANGE_BOOST, 1);
+      focus.push(levelChanges);
+    }
+  }
+
+  focus.sort((a, b) => a.scorePercentage - b.scorePercentage);
+  return { options: adapted, focus, difficultyChange };
+}
+
+// =============================================================================
+// 📝 THE SESSION'S RECORD
+// =============================================================================
+
+/**
+ * 📝 ADD A PLAN TO THE SESSION'S RECORD
+ * Every exercise gets a fresh plan, so the end screen sums them all up: each
+ * area that was emphasized (with its latest results) and each difficulty step.
+ * @param current - the difficulty the session was on before this plan
+ */
+export function recordAdaptivePlan(adaptations: SessionAdaptations | undefined, plan: AdaptivePlan, current: Difficulty): SessionAdaptations {
+  const focus = [...(adaptations?.focus ?? [])];
+  for (const area of plan.focus) {
+    const index = focus.findIndex(recorded => recorded.area === area.area);
+    if (index >= 0) focus[index] = area;
+    else focus.push(area);
+  }
+
+  // 🎚️ A step counts once: the same step repeated by the next plans is no new change
+  const difficultyChanges = [...(adaptations?.difficultyChanges ?? [])];
+  const change = plan.difficultyChange;
+  if (change && change.to !== current) {
+    const raised = DIFFICULTY_ORDER.indexOf(change.to) > DIFFICULTY_ORDER.indexOf(current);
+    difficultyChanges.push({ ...change, from: current, raised });
+  }
+
+  return { focus, difficultyChanges };
+}
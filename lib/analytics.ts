@@ -0,0 +1,144 @@
+// =============================================================================
+// 🔬 PERFORMANCE ANALYTICS - Where Does the Trainee Struggle?
+// =============================================================================
+
+/**
+ * 🧠 WHAT THIS FILE DOES:
+ * A session score says HOW WELL someone did, but not WHAT they found hard.
+ * Every score now remembers its scenario (direction, clock, distance, flight
+ * rules, level change, seed), so we can sort all past scores into buckets:
+ *
+ * ➡️ Direction:    overtaking 45% ← needs work!   opposite direction 90%
+ * 📈 Level change: climbing/descending 52%        level 88%
+ *
+ * 1. 🏷️ describeExercise: pick out the scenario of an exercise when it is scored
+ * 2. 🧺 analyzeHistory: put every stored score in its buckets and average them
+ */
+
+import { type CompletedSession } from './storage';
+import { ASSESSMENT_POINTS, type Exercise, type ScoreMetadata, type TrafficDirection } from './types';
+
+/**
+ * 🧺 ONE BUCKET
+ * - attempts: how many scores fell in this bucket
+ * - scorePercentage: average points as a percentage of the maximum (3 points)
+ * - againCount: how many of them were rated "again"
+ */
+export interface BreakdownRow {
+  label: string;
+  attempts: number;
+  scorePercentage: number;
+  againCount: number;
+}
+
+/**
+ * 📊 ONE DIMENSION
+ * All buckets of one kind ("Direction", "Clock"...), empty buckets left out.
+ */
+export interface PerformanceBreakdown {
+  dimension: string;
+  rows: BreakdownRow[];
+}
+
+// 🏆 Points for a perfect answer - the 100% mark
+const MAX_POINTS = ASSESSMENT_POINTS.correct;
+
+// ➡️ Directions in the order they are listed everywhere else
+const DIRECTIONS: TrafficDirection[] = [
+  'crossing left to right',
+  'crossing right to left',
+  'converging',
+  'opposite direction',
+  'overtaking',
+];
+
+// 📏 Distance bands in nautical miles (upper limit included)
+const DISTANCE_BANDS: { label: string; max: number }[] = [
+  { label: '0-3 NM', max: 3 },
+  { label: '4-6 NM', max: 6 },
+  { label: '7-9 NM', max: 9 },
+  { label: '10+ NM', max: Infinity },
+];
+
+// =============================================================================
+// 🏷️ SCENARIO OF AN EXERCISE
+// =============================================================================
+
+/**
+ * 🏷️ DESCRIBE AN EXERCISE FOR ITS SCORE
+ * The scenario (direction, flight rules, military, level change, seed and options) comes
+ * from the exercise as generated: once the simulation has run, a climbing
+ * intruder that reached its new level no longer shows a level change, but the
+ * exercise was still a level-change exercise. Only the clock position and
+ * distance come from the live picture at the moment the exercise is scored.
+ * @param shown - the exercise as generated
+ * @param rated - the live picture when it was rated (defaults to the generated one)
+ */
+export function describeExercise(shown: Exercise, rated: Exercise = shown): ScoreMetadata {
+  const intruder = shown.intruders[0];
+  const liveSituation = rated.situations[0];
+
+  return {
+    direction: shown.situations[0].direction,
+    clock: liveSituation.clock,
+    distance: liveSituation.distance,
+    flightRule: intruder.flightRule,
+    military: intruder.isMil === true,
+    levelChange: intruder.levelChange !== undefined,
+    seed: shown.seed,
+    options: shown.options,
+  };
+}
+
+// =============================================================================
+// 🧺 BREAKDOWN BY DIMENSION
+// =============================================================================
+
+type StoredScore = CompletedSession['scores'][number] & { exercise: ScoreMetadata };
+
+/**
+ * 🧺 FILL THE BUCKETS FOR ONE DIMENSION
+ * @param labels - every bucket in display order
+ * @param bucketOf - which bucket a score belongs to
+ */
+function breakdown(dimension: string, labels: string[], scores: StoredScore[], bucketOf: (meta: ScoreMetadata) => string): PerformanceBreakdown {
+  const rows = labels
+    .map(label => {
+      const inBucket = scores.filter(score => bucketOf(score.exercise) === label);
+      const points = inBucket.reduce((sum, score) => sum + score.points, 0);
+      return {
+        label,
+        attempts: inBucket.length,
+        scorePercentage: inBucket.length > 0 ? (points / (inBucket.length * MAX_POINTS)) * 100 : 0,
+        againCount: inBucket.filter(score => score.option === 'again').length,
+      };
+    })
+    .filter(row => row.attempts > 0);
+
+  return { dimension, rows };
+}
+
+/**
+ * 📊 ANALYZE THE WHOLE HISTORY
+ * Every score that knows its scenario is counted once per dimension.
+ * Scores saved before scenarios were recorded are skipped.
+ */
+export function analyzeHistory(history: CompletedSession[]): PerformanceBreakdown[] {
+  const scores = history
+    .flatMap(session => session.scores)
+    .filter((score): score is StoredScore => score.exercise !== undefined);
+
+  if (scores.length === 0) return [];
+
+  const clockLabel = (clock: number) => `${clock} o'clock`;
+  const distanceLabel = (distance: number) => DISTANCE_BANDS.find(band => distance <= band.max)!.label;
+  const trafficLabel = (meta: ScoreMetadata) => meta.military ? 'Military' : meta.flightRule;
+
+  return [
+    breakdown('Direction', DIRECTIONS, scores, meta => meta.direction),
+    breakdown('Clock', Array.from({ length: 12 }, (_, index) => clockLabel(index + 1)), scores, meta => clockLabel(meta.clock)),
+    breakdown('Distance', DISTANCE_BANDS.map(band => band.label), scores, meta => distanceLabel(meta.distance)),
+    breakdown('Traffic', ['IFR', 'VFR', 'Military'], scores, trafficLabel),
+    breakdown('Level change', ['Level', 'Climbing or descending'], scores, meta => meta.levelChange ? 'Climbing or descending' : 'Level'),
+  ].filter(dimension => dimension.rows.length > 0);
+}
@@ -0,0 +1,228 @@
+// =============================================================================
+// 🧳 BACKUP - Take Your Training Record to Another Device!
+// =============================================================================
+
+/**
+ * 🧠 WHAT THIS FILE DOES:
+ * Everything the app remembers lives in this browser. When a trainee switches
+ * devices, or an instructor wants proof of practice, we pack it into files:
+ *
+ * 📦 JSON backup = one profile's history + settings + spaced repetition schedule,
+ *                  with a version number, so it can be imported again (even by a newer app)
+ * 📊 CSV export  = one row per rated exercise, ready for a spreadsheet
+ *
+ * 📥 Importing a backup goes through the SAME checks and migrations as loading
+ * from storage (see storageSchema.ts), then merges instead of overwriting:
+ * sessions already here (same id) are kept once, new ones are added.
+ */
+
+import {
+  type CompletedSession,
+  loadProfiles,
+  loadSchedule,
+  loadSessionHistory,
+  loadSettings,
+  saveSchedule,
+  saveSessionHistory,
+  withDefaultSettings,
+} from './storage';
+import {
+  HISTORY_SCHEMA,
+  SCHEDULE_SCHEMA,
+  SETTINGS_SCHEMA,
+  STORAGE_SCHEMA_VERSION,
+  readStoredValue,
+} from './storageSchema';
+import { type SchedulerState, type Settings } from './types';
+
+const BACKUP_FORMAT = 'atc-ready-backup'; // 🏷️ Tells our files apart from any other JSON
+
+/**
+ * 📦 THE JSON BACKUP FILE
+ * schemaVersion is the storage schema the data was written with, so an older
+ * backup is migrated on import exactly like an older save.
+ */
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  profileName: string; // Whose training this is (imports go into the active profile)
+  data: {
+    history: CompletedSession[];
+    settings: Settings;
+    schedule: SchedulerState;
+  };
+}
+
+/**
+ * 📋 WHAT AN IMPORT DID
+ * - sessionsAdded / sessionsSkipped: new sessions, and ones that were already here
+ * - sessionsRejected: sessions that failed the checks and were left out
+ * - categoriesUpdated: schedule entries that were newer in the backup
+ * - settings: the backup's settings - the caller applies them through the normal
+ *   settings action, so the running app and storage stay in step
+ */
+export interface ImportSummary {
+  sessionsAdded: number;
+  sessionsSkipped: number;
+  sessionsRejected: number;
+  categoriesUpdated: number;
+  settings?: Settings; // The backup's settings over the current ones (none when the backup has no settings)
+}
+
+export type ImportResult = { ok: true; summary: ImportSummary } | { ok: false; reason: string };
+
+// =============================================================================
+// 📤 EXPORT
+// =============================================================================
+
+// Build the JSON backup of one profile (the active one unless another is given)
+export function createBackup(exportedAt: Date = new Date(), profileId?: string): BackupFile {
+  const { profiles, activeProfileId } = loadProfiles();
+  const profile = profiles.find(p => p.id === (profileId ?? activeProfileId))!;
+  return {
+    format: BACKUP_FORMAT,
+    schemaVersion: STORAGE_SCHEMA_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    profileName: profile.name,
+    data: {
+      history: loadSessionHistory(profile.id),
+      settings: loadSettings(profile.id),
+      schedule: loadSchedule(profile.id),
+    },
+  };
+}
+
+// File name for an export, e.g. "atc-ready-anna-smith-2026-10-19.json"
+export function backupFileName(extension: 'json' | 'csv', profileName: string, date: Date = new Date()): string {
+  const slug = profileName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `atc-ready-${slug ? `${slug}-` : ''}${date.toISOString().slice(0, 10)}.${extension}`;
+}
+
+// Hand a generated file to the browser as a download (browser only)
+export function downloadFile(fileName: string, content: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+const CSV_COLUMNS = [
+  'session_id', 'session_completed_at', 'difficulty', 'session_score_percentage',
+  'exercise', 'rated_at', 'assessment', 'points', 'replay', 'seconds',
+  'direction', 'clock', 'distance_nm', 'flight_rule', 'military', 'level_change', 'seed',
+];
+
+// Quote a CSV field when it contains a comma, a quote or a line break
+function csvField(value: string | number | boolean | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * 📊 HISTORY AS CSV
+ * One row per rated exercise, oldest session first. Scores recorded before the
+ * scenario was kept simply have empty scenario columns.
+ */
+export function historyToCSV(history: CompletedSession[]): string {
+  const rows = [...history].reverse().flatMap(session =>
+    session.scores.map((score, index) => [
+      session.id,
+      session.completedAt,
+      session.difficulty,
+      session.scorePercentage.toFixed(1),
+      index + 1,
+      score.timestamp,
+      score.option,
+      score.points,
+      score.replay ?? false,
+      score.seconds,
+      score.exercise?.direction,
+      score.exercise?.clock,
+      score.exercise?.distance,
+      score.exercise?.flightRule,
+      score.exercise?.military,
+      score.exercise?.levelChange,
+      score.exercise?.seed,
+    ].map(csvField).join(','))
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+// =============================================================================
+// 📥 IMPORT
+// =============================================================================
+
+// Sessions by id: what we have wins, new ones are added (once, even if the file repeats them), newest first
+function mergeHistory(current: CompletedSession[], imported: CompletedSession[]) {
+  const known = new Set(current.map(session => session.id));
+  const added = imported.filter(session => {
+    if (known.has(session.id)) return false;
+    known.add(session.id);
+    return true;
+  });
+  const history = [...current, ...added]
+    .sort((a, b) => new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime());
+  return { history, added: added.length, skipped: imported.length - added.length };
+}
+
+// Per category, the more recently reviewed schedule wins
+function mergeSchedule(current: SchedulerState, imported: SchedulerState) {
+  const newer = Object.entries(imported).filter(([key, entry]) =>
+    !current[key] || new Date(entry.lastReviewed).getTime() > new Date(current[key].lastReviewed).getTime()
+  );
+  return { schedule: { ...current, ...Object.fromEntries(newer) }, updated: newer.length };
+}
+
+const unreadable = (part: string, reason: string): ImportResult =>
+  ({ ok: false, reason: `The backup's ${part} could not be read (${reason}).` });
+
+/**
+ * 📥 IMPORT A JSON BACKUP
+ * 1️⃣ Check it is one of our backups at all
+ * 2️⃣ Run each part through the storage checks and migrations
+ * 3️⃣ Merge history and schedule into what is stored, and save them
+ * 4️⃣ Hand back the backup's settings laid over the current ones (missing or
+ *    rejected fields keep their current value) - applying them is up to the caller
+ * Nothing is written unless the whole file could be read.
+ */
+export function importBackup(text: string): ImportResult {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    return { ok: false, reason: 'The file is not valid JSON.' };
+  }
+  if (typeof file !== 'object' || file === null || (file as BackupFile).format !== BACKUP_FORMAT ||
+      !Number.isInteger((file as BackupFile).schemaVersion)) {
+    return { ok: false, reason: 'The file is not an ATC Ready backup.' };
+  }
+
+  const { schemaVersion, data } = file as BackupFile;
+  if (typeof data !== 'object' || data === null) return { ok: false, reason: 'The backup contains no data.' };
+  const history = readStoredValue({ schemaVersion, data: data.history ?? [] }, HISTORY_SCHEMA);
+  const settings = readStoredValue({ schemaVersion, data: data.settings ?? {} }, SETTINGS_SCHEMA);
+  const schedule = readStoredValue({ schemaVersion, data: data.schedule ?? {} }, SCHEDULE_SCHEMA);
+  if (!history.ok) return unreadable('history', history.reason);
+  if (!settings.ok) return unreadable('settings', settings.reason);
+  if (!schedule.ok) return unreadable('schedule', schedule.reason);
+
+  const mergedHistory = mergeHistory(loadSessionHistory(), history.value);
+  const mergedSchedule = mergeSchedule(loadSchedule(), schedule.value);
+  if (!saveSessionHistory(mergedHistory.history) || !saveSchedule(mergedSchedule.schedule)) {
+    return { ok: false, reason: 'The imported data could not be saved (storage may be full).' };
+  }
+
+  return {
+    ok: true,
+    summary: {
+      sessionsAdded: mergedHistory.added,
+      sessionsSkipped: mergedHistory.skipped,
+      sessionsRejected: history.corrupt.length,
+      categoriesUpdated: mergedSchedule.updated,
+      settings: Object.keys(settings.value).length > 0 ? withDefaultSettings(settings.value, loadSettings()) : undefined,
+    },
+  };
+}
@@ -0,0 +1,113 @@
+// =============================================================================
+// 📞 RADIOTELEPHONY CALLSIGNS - What the Callsign Sounds Like on the Radio!
+// =============================================================================
+
+/**
+ * 🧠 WHAT THIS FILE DOES:
+ * The flight plan says "BAW123", but nobody on the radio says "B-A-W one two three".
+ * Each kind of callsign has its own radio form:
+ *
+ * ✈️ Airline (ICAO code + flight number): telephony + number → "Speedbird 123"
+ * 🛩️ Registration (VFR): phonetic alphabet → "Delta Echo Alfa Bravo Charlie"
+ * 🪖 Military: the name as spoken → "Ascot 12" (RRR), "Cobra 12"
+ *
+ * ✂️ ABBREVIATED CALLSIGNS (ICAO Annex 10, Vol II, 5.2.1.7.2.2):
+ * Once contact is established (and ATC has used it first) a registration may be
+ * shortened to its first and last two characters: D-EABC → "Delta Bravo Charlie".
+ * Airline and military callsigns (telephony + flight number) are never abbreviated.
+ */
+
+import { AIRLINES, MILITARY_CALLSIGNS, MILITARY_TELEPHONY, PHONETIC_ALPHABET } from './constants';
+
+/**
+ * 📋 CALLSIGN PARTS
+ * - kind: airline, military or registration
+ * - telephony: spoken name in lower case ("speedbird", "ascot") - not used for registrations
+ * - identifier: flight number ("123", "30L") or registration letters ("DEABC")
+ */
+export type CallsignKind = 'airline' | 'military' | 'registration';
+
+export interface CallsignParts {
+  kind: CallsignKind;
+  telephony?: string;
+  identifier: string;
+}
+
+// 🪖 Longest military names first, so "REDARROW" wins over a shorter name it starts with
+const MILITARY_NAMES = [...MILITARY_CALLSIGNS].sort((a, b) => b.length - a.length);
+
+// 🔤 "air canada" → "Air Canada"
+const titleCase = (text: string) => text.replace(/\b[a-z]/g, letter => letter.toUpperCase());
+
+// 🔡 "HR" → "hotel romeo"
+const spellLetters = (letters: string) => letters.split('').map(letter => PHONETIC_ALPHABET[letter]).join(' ');
+
+/**
+ * 🪖 HOW A MILITARY NAME IS SPOKEN
+ * Known abbreviations have their own telephony (RRR → "ascot"), word-like names are
+ * said as written ("cobra"), short letter groups are spelled ("hotel romeo").
+ */
+function militaryTelephony(name: string): string {
+  if (MILITARY_TELEPHONY[name]) return MILITARY_TELEPHONY[name];
+  return name.length >= 4 && /[AEIOUY]/.test(name) ? name.toLowerCase() : spellLetters(name);
+}
+
+// =============================================================================
+// 🔍 READING A CALLSIGN
+// =============================================================================
+
+/**
+ * 🔍 SPLIT A CALLSIGN INTO ITS PARTS
+ * Airline and military callsigns always carry a number; everything else is a registration.
+ */
+export function parseCallsign(callsign: string): CallsignParts {
+  const upper = callsign.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+  const airline = AIRLINES.find(entry => upper.startsWith(entry.icao) && /^\d/.test(upper.slice(entry.icao.length)));
+  if (airline) {
+    return { kind: 'airline', telephony: airline.callsign, identifier: upper.slice(airline.icao.length) };
+  }
+
+  const military = MILITARY_NAMES.find(name => upper.startsWith(name) && /^\d+$/.test(upper.slice(name.length)));
+  if (military) {
+    return { kind: 'military', telephony: militaryTelephony(military), identifier: upper.slice(military.length) };
+  }
+
+  return { kind: 'registration', identifier: upper };
+}
+
+/**
+ * ✂️ ABBREVIATED CALLSIGN
+ * Registrations keep their first and last two characters (DEABC → DBC);
+ * airline and military callsigns stay as they are.
+ */
+export function abbreviateCallsign(callsign: string): string {
+  const parts = parseCallsign(callsign);
+  if (parts.kind !== 'registration') return callsign;
+
+  const { identifier } = parts;
+  return identifier.length <= 3 ? identifier : identifier.charAt(0) + identifier.slice(-2);
+}
+
+// =============================================================================
+// 📻 RADIOTELEPHONY FORM
+// =============================================================================
+
+/**
+ * 📻 CALLSIGN AS WRITTEN IN A TRANSCRIPT
+ * "BAW123" → "Speedbird 123", "DEABC" → "Delta Echo Alfa Bravo Charlie", "RRR12" → "Ascot 12"
+ * @param abbreviated - use the abbreviated form (contact already established)
+ */
+export function radiotelephonyCallsign(callsign: string, abbreviated: boolean = false): string {
+  const parts = parseCallsign(abbreviated ? abbreviateCallsign(callsign) : callsign);
+
+  if (parts.kind === 'registration') {
+    // Letters spelled, digits of US registrations kept as digits ("November 7 Whiskey")
+    return parts.identifier
+      .split('')
+      .map(char => PHONETIC_ALPHABET[char] ? titleCase(PHONETIC_ALPHABET[char]) : char)
+      .join(' ');
+  }
+
+  return `${titleCase(parts.telephony ?? '')} ${parts.identifier}`;
+}
@@ -3,6 +3,8 @@
  * This module contains aircraft specifications used for generating realistic traffic scenarios.
  */
 
+import type { Difficulty, GeneratorOptions, TrafficDirection } from './types';
+
 /**
  * Aircraft type interface defining the structure for all aircraft types.
  */
@@ -135,7 +137,7 @@ export const MIL_TYPES: AcType[] = [
  * Based on context.txt requirements for realistic ATC training
  */
 export interface DirectionWeight {
-  direction: string;
+  direction: TrafficDirection;
   weight: number;
 }
 
@@ -147,6 +149,83 @@ export const DIRECTION_WEIGHTS: DirectionWeight[] = [
   { direction: 'overtaking', weight: 5 }
 ];
 
+/**
+ * Default generator options
+ * Matches the context.txt distribution: 75% VFR, 10% military VFR intruders, 30% IFR level changes,
+ * with a single intruder per exercise
+ */
+export const DEFAULT_GENERATOR_OPTIONS: GeneratorOptions = {
+  directions: DIRECTION_WEIGHTS.map(item => item.direction),
+  directionWeights: Object.fromEntries(
+    DIRECTION_WEIGHTS.map(item => [item.direction, item.weight])
+  ) as Record<TrafficDirection, number>,
+  vfrProbability: 0.75,
+  militaryRate: 0.10,
+  levelChangeRate: 0.3,
+  intruderCount: 1,
+  difficulty: 'intermediate',
+};
+
+/**
+ * Difficulty presets
+ * Each preset changes the geometry the direction generators produce:
+ * - angleBand: which part of each direction's angle range is used
+ *   ('centre' = textbook middle, 'full' = anywhere, 'edges' = close to the limits,
+ *   e.g. converging at 35° or crossing at 57° - right on the converging/crossing boundary)
+ * - clockJitter: how many degrees the intruder may sit off the exact clock position
+ * - roundDistances: start intruders at whole-mile distances
+ * - levelChangeRate / militaryRate: override the session's rates when set
+ */
+export interface DifficultyPreset {
+  label: string;
+  description: string;
+  angleBand: 'centre' | 'full' | 'edges';
+  clockJitter: number;
+  roundDistances: boolean;
+  levelChangeRate?: number;
+  militaryRate?: number;
+}
+
+export const DIFFICULTY_PRESETS: Record<Difficulty, DifficultyPreset> = {
+  beginner: {
+    label: 'Beginner',
+    description: 'Clean clock positions, whole-mile distances, no level changes or military traffic',
+    angleBand: 'centre',
+    clockJitter: 0,
+    roundDistances: true,
+    levelChangeRate: 0,
+    militaryRate: 0,
+  },
+  intermediate: {
+    label: 'Intermediate',
+    description: 'The full range of angles and distances, with the session\'s traffic mix',
+    angleBand: 'full',
+    clockJitter: 0,
+    roundDistances: false,
+  },
+  advanced: {
+    label: 'Advanced',
+    description: 'Edge-of-range angles, off-centre clock positions, frequent level changes and military traffic',
+    angleBand: 'edges',
+    clockJitter: 12,
+    roundDistances: false,
+    levelChangeRate: 0.6,
+    militaryRate: 0.25,
+  },
+};
+
+/**
+ * Limits for a "real" conflict, checked at the closest point of approach (CPA).
+ * Scenarios where the traffic passes further away, too late, already diverging
+ * or with more vertical separation are not worth traffic information and are rejected.
+ */
+export const CONFLICT_LIMITS = {
+  maxCpaDistance: 3,          // Nautical miles
+  minTimeToCpa: 30,           // Seconds - closer than that the aircraft are already passing
+  maxTimeToCpa: 600,          // Seconds - 10 minutes ahead is not a traffic problem yet
+  maxVerticalSeparation: 1000, // Feet
+};
+
 /**
  * Military callsigns for VFR intruder aircraft
  * Used when target is VFR and intruder is military (10% chance)
@@ -157,6 +236,22 @@ export const MILITARY_CALLSIGNS: string[] = [
   "OR", "COBRA", "SRA", "RNGR", "BOMR", "WOLF", "TRITN", "RESQ"
 ];
 
+/**
+ * How military callsigns are spoken when the written form is an abbreviation
+ * Callsigns not listed here are said as written (word-like) or spelled phonetically
+ */
+export const MILITARY_TELEPHONY: Record<string, string> = {
+  REDARROW: "red arrow",
+  RRR: "ascot",
+  RCH: "reach",
+  BAF: "belgian airforce",
+  CFC: "canforce",
+  RNGR: "ranger",
+  BOMR: "bomber",
+  TRITN: "triton",
+  RESQ: "rescue"
+};
+
 /**
  * VFR callsign patterns by country
  * Used for generating realistic VFR aircraft callsigns
@@ -288,3 +383,22 @@ export const AIRLINES: AirlineData[] = [
   { icao: "WJA", callsign: "westjet" },
   { icao: "WZZ", callsign: "wizzair" }
 ];
+
+/**
+ * ICAO phonetic alphabet (Annex 10) - used to spell registrations on the radio
+ */
+export const PHONETIC_ALPHABET: Record<string, string> = {
+  A: "alfa", B: "bravo", C: "charlie", D: "delta", E: "echo", F: "foxtrot", G: "golf",
+  H: "hotel", I: "india", J: "juliett", K: "kilo", L: "lima", M: "mike", N: "november",
+  O: "oscar", P: "papa", Q: "quebec", R: "romeo", S: "sierra", T: "tango", U: "uniform",
+  V: "victor", W: "whiskey", X: "xray", Y: "yankee", Z: "zulu"
+};
+
+/**
+ * ICAO pronunciation of the digits 0-9, plus hundred and thousand
+ */
+export const ICAO_DIGITS: string[] = [
+  "zero", "one", "two", "tree", "fower", "fife", "six", "seven", "eight", "niner"
+];
+export const ICAO_HUNDRED = "hundred";
+export const ICAO_THOUSAND = "tousand";
@@ -38,8 +38,13 @@ import {
   MIL_TYPES, 
   // 📋 AcType = The instruction manual that tells us what each airplane can do
   type AcType,
-  // 📊 DIRECTION_WEIGHTS = A list that says "28% crossing left, 28% crossing right..." 
-  DIRECTION_WEIGHTS,
+  // 🎛️ DEFAULT_GENERATOR_OPTIONS = The standard recipe (28% crossing left, 75% VFR, 10% military...)
+  DEFAULT_GENERATOR_OPTIONS,
+  // 🎚️ DIFFICULTY_PRESETS = Beginner/Intermediate/Advanced rules for angles, clocks and distances
+  DIFFICULTY_PRESETS,
+  type DifficultyPreset,
+  // ⚔️ CONFLICT_LIMITS = How close (and how soon) traffic must pass to count as a real conflict
+  CONFLICT_LIMITS,
   // 🪖 MILITARY_CALLSIGNS = List of military code names like "EAGLE", "HAWK"
   MILITARY_CALLSIGNS,
   // 📻 VFR_CALLSIGN_PATTERNS = Rules for making small airplane names like "N1234A"
@@ -50,7 +55,25 @@ import {
 
 // 📋 MORE INSTRUCTION MANUALS
 // These tell us the exact format for our airplanes and exercises:
-import { type Ac, type Exercise } from './types';
+import { type Ac, type Exercise, type GeneratorOptions, type ScenarioCategory, type Situation, type TrafficDirection } from './types';
+
+// 🎲 MAGIC DICE that roll the same way every time you give them the same seed
+import { createSeed, createSeededRandom, type RandomSource } from './random';
+
+// 🎯 CRYSTAL BALL that tells us when and how close two airplanes will get
+import { closestPointOfApproach } from './motion';
+
+// 🧩 ANSWER BRICKS - the traffic information split into its elements
+import { buildSolution, describeLevel, describeLevelChange, relativeLevelText } from './solution';
+
+// 👯 ONE INTRUDER LINED UP AGAINST THE TARGET (before it becomes traffic information)
+interface TrafficPair {
+  target: Ac;
+  intruder: Ac;
+  direction: TrafficDirection;
+  clock: number;
+  levelChangeDecided?: boolean; // Level change already assigned (scheduled category)
+}
 
 // =============================================================================
 // 🏭 THE AIRPLANE SCENARIO FACTORY CLASS
@@ -68,11 +91,26 @@ export class AviationTrafficGenerator {
   
   // 📦 THE FACTORY'S SUPPLY BOXES (private = only this factory can use these):
   // Think of these like different storage boxes in our factory:
-  private directionWeights = DIRECTION_WEIGHTS;     // 📊 Box with percentage rules for directions
+  private options: GeneratorOptions = DEFAULT_GENERATOR_OPTIONS; // 🎛️ Recipe for this exercise (directions, VFR mix, military...)
+  private preset: DifficultyPreset = DIFFICULTY_PRESETS[DEFAULT_GENERATOR_OPTIONS.difficulty]; // 🎚️ Geometry rules for the chosen difficulty
   private militaryCallsigns = MILITARY_CALLSIGNS;   // 🪖 Box with military code names
   private vfrCallsigns = VFR_CALLSIGN_PATTERNS;     // 🏷️ Box with rules for small airplane names
   private airlines = AIRLINES;                       // 🏢 Box with airline company information
 
+  // 🎲 THE FACTORY'S DICE: every random decision goes through this one source.
+  // It gets replaced with fresh seeded dice at the start of every exercise.
+  private random: RandomSource;
+  private seed = 0;  // 🌱 The seed behind the current dice (saved on every exercise)
+  private category?: ScenarioCategory; // 🗓️ Scenario the scheduler asked for (first intruder only)
+
+  /**
+   * 🏗️ BUILD THE FACTORY
+   * @param createRandom - Dice maker: turns a seed into a RandomSource (seeded mulberry32 by default)
+   */
+  constructor(private createRandom: (seed: number) => RandomSource = createSeededRandom) {
+    this.random = createRandom(createSeed());
+  }
+
   /**
    * 🏭 GET THE FACTORY INSTANCE
    * This is like asking "Give me the airplane factory!"
@@ -96,10 +134,10 @@ export class AviationTrafficGenerator {
    * Example: rnd(10, 20) = pick random number between 10 and 20
    */
   private rnd(min: number, max: number): number {
-    // 🎲 Math.random() gives 0.0 to 0.999999...
+    // 🎲 this.random() gives 0.0 to 0.999999... (just like Math.random, but seeded)
     // We multiply by (max-min+1) to get the right range
     // Then Math.floor() cuts off decimals, and we add min to shift to right range
-    return Math.floor(Math.random() * (max - min + 1)) + min;
+    return Math.floor(this.random() * (max - min + 1)) + min;
   }
 
   /**
@@ -108,9 +146,55 @@ export class AviationTrafficGenerator {
    * Example: rndFloat(2.5, 8.7) might give 5.234 or 7.891
    */
   private rndFloat(min: number, max: number): number {
-    // 🎲 Math.random() gives decimal between 0 and 1
+    // 🎲 this.random() gives decimal between 0 and 1 (seeded, so it can be replayed)
     // We multiply by the range size and add the minimum
-    return Math.random() * (max - min) + min;
+    return this.random() * (max - min) + min;
+  }
+
+  /**
+   * 📐 ANGLE PICKER (depends on difficulty!)
+   * Every direction has an allowed angle range (like 55-125° for crossing traffic).
+   * The difficulty decides WHICH part of that range we use:
+   * - Beginner: the textbook middle third (nice clear crossing at ~90°)
+   * - Intermediate: anywhere in the range
+   * - Advanced: close to the edges (is 37° still converging, or already crossing?)
+   */
+  private pickAngle(min: number, max: number): number {
+    const span = max - min;
+    
+    switch (this.preset.angleBand) {
+      case 'centre':
+        // 🎯 Middle third only
+        return this.rndFloat(min + span / 3, max - span / 3);
+      case 'edges': {
+        // 🧗 Outer 15% on either side
+        const edge = span * 0.15;
+        return this.random() < 0.5 ? this.rndFloat(min, min + edge) : this.rndFloat(max - edge, max);
+      }
+      default:
+        return this.rndFloat(min, max);
+    }
+  }
+
+  /**
+   * 📏 DISTANCE PICKER (depends on difficulty!)
+   * Beginners get whole miles (3, 4, 5...) so the distance in the answer is obvious.
+   * Everyone else gets any distance in the range (like 4.6 miles → "5 miles").
+   */
+  private pickDistance(min: number, max: number): number {
+    return this.preset.roundDistances ? this.rnd(min, max) : this.rndFloat(min, max);
+  }
+
+  /**
+   * 🕐 CLOCK POSITION → COMPASS BEARING
+   * Turns "10 o'clock" into a real compass bearing from the target (each hour = 30°).
+   * On Advanced, the intruder may sit up to clockJitter degrees off the exact clock
+   * position (still closest to that clock, just not perfectly on it).
+   */
+  private pickClockBearing(targetHeading: number, clock: number): number {
+    const jitter = this.preset.clockJitter;
+    const offset = jitter > 0 ? this.rndFloat(-jitter, jitter) : 0;
+    return targetHeading + (clock === 12 ? 0 : clock * 30) + offset;
   }
 
   /**
@@ -185,26 +269,43 @@ export class AviationTrafficGenerator {
   /**
    * 🎯 DIRECTION SELECTOR (like spinning a weighted wheel!)
    * This picks which direction the airplanes will approach each other from.
-   * It's like having a wheel where some sections are bigger than others:
+   * It's like having a wheel where some sections are bigger than others.
+   * With the default options:
    * - 28% chance: crossing left to right (big section)
    * - 28% chance: crossing right to left (big section)  
    * - 28% chance: converging (big section)
    * - 11% chance: opposite direction (medium section)
    * - 5% chance: overtaking (small section)
+   * 
+   * 🎛️ Instructors can switch directions off or change the weights in the options,
+   * e.g. a session with ONLY overtaking and opposite direction traffic.
    */
-  private selectDirection(): string {
-    // 🎲 Step 1: Add up all the percentages (should equal 100%)
-    // Like counting total size of all wheel sections
-    const totalWeight = this.directionWeights.reduce((sum, item) => sum + item.weight, 0);
+  private selectDirection(): TrafficDirection {
+    // 🎯 Step 1: Only directions that are switched on AND have some weight get a section
+    const { directions, directionWeights } = this.options;
+    let wheel = directions
+      .map(direction => ({ direction, weight: directionWeights[direction] ?? 0 }))
+      .filter(item => item.weight > 0);
+    
+    // 🛡️ Nothing usable selected? Fall back to the standard wheel
+    if (wheel.length === 0) {
+      wheel = DEFAULT_GENERATOR_OPTIONS.directions.map(direction => ({
+        direction,
+        weight: DEFAULT_GENERATOR_OPTIONS.directionWeights[direction],
+      }));
+    }
+    
+    // 🎲 Step 2: Add up all the weights (like counting total size of all wheel sections)
+    const totalWeight = wheel.reduce((sum, item) => sum + item.weight, 0);
     
-    // 🎯 Step 2: Spin the wheel! Pick random number from 0 to 100
-    const random = Math.random() * totalWeight;
+    // 🎯 Step 3: Spin the wheel! Pick random number from 0 to the total
+    const random = this.random() * totalWeight;
     
-    // 📊 Step 3: Keep track of where we are on the wheel
+    // 📊 Step 4: Keep track of where we are on the wheel
     let currentWeight = 0;
     
-    // 🔍 Step 4: Go through each section until we find where our random number landed
-    for (const item of this.directionWeights) {
+    // 🔍 Step 5: Go through each section until we find where our random number landed
+    for (const item of wheel) {
       // Add this section's size to our running total
       currentWeight += item.weight;
       
@@ -215,8 +316,8 @@ export class AviationTrafficGenerator {
       }
     }
     
-    // 🛡️ Safety net: if something goes wrong, default to crossing left to right
-    return 'crossing left to right';
+    // 🛡️ Safety net: if something goes wrong, use the first section of the wheel
+    return wheel[0].direction;
   }
 
   /**
@@ -224,29 +325,41 @@ export class AviationTrafficGenerator {
    * This is like matchmaking for airplanes! It picks two airplanes that follow the rules.
    * 
    * 🛩️ FLIGHT RULES EXPLAINED (like different neighborhoods):
-   * - VFR (Visual Flight Rules) = Small airplanes that fly by looking outside (75% of traffic)
-   * - IFR (Instrument Flight Rules) = Big airplanes that use instruments and follow ATC (25% of traffic)
+   * - VFR (Visual Flight Rules) = Small airplanes that fly by looking outside (75% of traffic by default)
+   * - IFR (Instrument Flight Rules) = Big airplanes that use instruments and follow ATC (25% of traffic by default)
    * 
    * 🏠 THE GOLDEN RULE: Both airplanes must live in the same neighborhood!
    * - If target airplane is VFR, intruder airplane must also be VFR
    * - If target airplane is IFR, intruder airplane must also be IFR  
    * - NEVER mix VFR and IFR in the same exercise (they follow different rules)
    * 
-   * 🪖 MILITARY RULE: Only intruder airplanes can be military (10% chance if VFR)
+   * 🪖 MILITARY RULE: Only intruder airplanes can be military (10% chance if VFR by default)
    * - Target airplane: NEVER military (always civilian)
-   * - Intruder airplane: 10% chance to be military IF it's VFR
+   * - Intruder airplane: options.militaryRate chance to be military IF it's VFR
+   * 
+   * 👯 EXTRA TRAFFIC: When an existing target is passed in, it keeps its type and
+   * neighborhood - only a new intruder is matched to it.
    */
-  private selectCompatibleAircraft(): { targetType: AcType; intruderType: AcType; targetIsVFR: boolean; intruderIsVFR: boolean } {
+  private selectCompatibleAircraft(existingTarget?: Ac): { targetType: AcType; intruderType: AcType; targetIsVFR: boolean; intruderIsVFR: boolean } {
     // 🎯 STEP 1: Decide if this will be a VFR or IFR exercise
-    // Think of it like flipping a weighted coin: 75% VFR, 25% IFR
-    const flightRuleWeights = [
-      { selection: 'VFR', weight: 75 },  // 75% chance for VFR neighborhood
-      { selection: 'IFR', weight: 25 }   // 25% chance for IFR neighborhood
-    ];
-    
-    // 🎲 Spin the flight rule wheel to pick VFR or IFR
-    const targetFlightRule = this.getWeightedSelection(flightRuleWeights);
-    const targetIsVFR = targetFlightRule === 'VFR';
+    // Think of it like flipping a weighted coin: 75% VFR, 25% IFR (with default options)
+    let targetIsVFR: boolean;
+    if (existingTarget) {
+      // 👯 The target already lives in a neighborhood - keep it there
+      targetIsVFR = existingTarget.isVFR;
+    } else if (this.category) {
+      // 🗓️ The scheduler picked the neighborhood for this exercise
+      targetIsVFR = this.category.flightRule === 'VFR';
+    } else {
+      const flightRuleWeights = [
+        { selection: 'VFR', weight: this.options.vfrProbability * 100 },        // Chance for VFR neighborhood
+        { selection: 'IFR', weight: (1 - this.options.vfrProbability) * 100 }   // Chance for IFR neighborhood
+      ];
+      
+      // 🎲 Spin the flight rule wheel to pick VFR or IFR
+      const targetFlightRule = this.getWeightedSelection(flightRuleWeights);
+      targetIsVFR = targetFlightRule === 'VFR';
+    }
     
     // 🏠 THE GOLDEN RULE: Both airplanes must be in same neighborhood! 
     // When target is VFR, intruder must also be VFR
@@ -255,7 +368,11 @@ export class AviationTrafficGenerator {
     
     // 🎯 STEP 2: Pick the target airplane type (NEVER military - always civilian)
     let targetType: AcType;
-    if (targetIsVFR) {
+    if (existingTarget) {
+      // 👯 Look up the type the target is already flying
+      targetType = [...VFR_TYPES, ...IFR_TYPES].find(acType => acType.name === existingTarget.type.name)
+        ?? (targetIsVFR ? VFR_TYPES[0] : IFR_TYPES[0]);
+    } else if (targetIsVFR) {
       // 🛩️ Pick from VFR box: small airplanes like Cessna, Piper
       targetType = VFR_TYPES[this.rnd(0, VFR_TYPES.length - 1)];
     } else {
@@ -266,8 +383,8 @@ export class AviationTrafficGenerator {
     // 🎯 STEP 3: Pick the intruder airplane type (maybe military!)
     let intruderType: AcType;
     
-    // 🪖 MILITARY CHECK: If intruder is VFR, 10% chance to be military
-    if (intruderIsVFR && Math.random() <= 0.10) {
+    // 🪖 MILITARY CHECK: If intruder is VFR, options.militaryRate chance to be military (10% by default)
+    if (intruderIsVFR && this.random() < this.options.militaryRate) {
       // 🚁 Pick military intruder from military box: F-16, C-130, UH-60, etc.
       intruderType = MIL_TYPES[this.rnd(0, MIL_TYPES.length - 1)];
     } else {
@@ -305,8 +422,19 @@ export class AviationTrafficGenerator {
    * - Small airplane: 1000-10000 feet, Big airplane: 5000-40000 feet
    * - Overlap: 5000-10000 feet (both can fly here!)
    * - Pick base altitude in overlap, then add ±500 or ±1000 feet separation
+   * 
+   * 👯 EXTRA TRAFFIC: With an existing target, its floor is fixed - only the intruder gets a new one.
    */
-  private generateRealisticAltitudes(targetType: AcType, intruderType: AcType, targetIsVFR: boolean, intruderIsVFR: boolean): { targetAltitude: number; intruderAltitude: number } {
+  private generateRealisticAltitudes(targetType: AcType, intruderType: AcType, targetIsVFR: boolean, intruderIsVFR: boolean, existingTarget?: Ac): { targetAltitude: number; intruderAltitude: number } {
+    // 👯 STEP 0: Existing target? Place the intruder around the target's level
+    if (existingTarget) {
+      const separations = [-1000, -500, 0, 500, 1000];  // Available floor differences
+      const separation = separations[this.rnd(0, separations.length - 1)];
+      const intruderAltitude = Math.max(intruderType.altitude.min, Math.min(intruderType.altitude.max, existingTarget.level + separation));
+      
+      return { targetAltitude: existingTarget.level, intruderAltitude: this.roundToNearestFL(intruderAltitude) };
+    }
+    
     // 🎯 STEP 1: Find the altitude overlap (floors both airplanes can reach)
     // Like finding floors accessible to both elevator A and elevator B
     const minAltitude = Math.max(targetType.altitude.min, intruderType.altitude.min);  // Highest minimum
@@ -394,7 +522,7 @@ export class AviationTrafficGenerator {
     
     // 🎲 STEP 2: Get the total wheel size and spin it!
     const maxCumulativeWeight = cumulativeWeights[cumulativeWeights.length - 1];
-    const randomNumber = Math.random() * maxCumulativeWeight;
+    const randomNumber = this.random() * maxCumulativeWeight;
     
     // 🔍 STEP 3: Find which section our spin landed in
     for (let numberIndex = 0; numberIndex < weights.length; numberIndex++) {
@@ -455,7 +583,7 @@ export class AviationTrafficGenerator {
       
       // 🔢 Add two random numbers as suffix (like "12", "03", "88")
       // Each digit is 0-9, so we get numbers like 01, 23, 56, 99
-      const suffix = (Math.floor(Math.random() * 10)).toString() + (Math.floor(Math.random() * 10)).toString();
+      const suffix = (Math.floor(this.random() * 10)).toString() + (Math.floor(this.random() * 10)).toString();
       
       // 🎁 Combine them: "HAWK" + "12" = "HAWK12"
       return base + suffix;
@@ -486,14 +614,14 @@ export class AviationTrafficGenerator {
         
         // 🔢 Add the numbers (1, 2, or 3 of them)
         for (let i = 0; i < numCount; i++) {
-          callsign += Math.floor(Math.random() * 10).toString();  // Add random digit 0-9
+          callsign += Math.floor(this.random() * 10).toString();  // Add random digit 0-9
         }
         
         // 🔤 Add letters at the end (2 or 3 letters)
-        const letterCount = Math.random() > 0.5 ? 2 : 3;  // Flip coin: 2 or 3 letters
+        const letterCount = this.random() > 0.5 ? 2 : 3;  // Flip coin: 2 or 3 letters
         for (let i = 0; i < letterCount; i++) {
           // Add random letter A-Z (65 is ASCII code for 'A', +26 letters in alphabet)
-          callsign += String.fromCharCode(65 + Math.floor(Math.random() * 26));
+          callsign += String.fromCharCode(65 + Math.floor(this.random() * 26));
         }
         
         // 🎁 Return US-style callsign like "N123AB" or "N12ABC"
@@ -511,16 +639,16 @@ export class AviationTrafficGenerator {
         for (const char of presentation) {
           if (char === 'Z') {
             // 📝 'Z' = any letter A-Z
-            callsign += String.fromCharCode(65 + Math.floor(Math.random() * 26));
+            callsign += String.fromCharCode(65 + Math.floor(this.random() * 26));
           } else if (char === 'P') {
             // 📝 'P' = letters A-P only (first 16 letters of alphabet)
-            callsign += String.fromCharCode(65 + Math.floor(Math.random() * 16)); // A-P
+            callsign += String.fromCharCode(65 + Math.floor(this.random() * 16)); // A-P
           } else if (char === 'W') {
             // 📝 'W' = letters A-W only (first 23 letters of alphabet)
-            callsign += String.fromCharCode(65 + Math.floor(Math.random() * 23)); // A-W
+            callsign += String.fromCharCode(65 + Math.floor(this.random() * 23)); // A-W
           } else if (char === 'K') {
             // 📝 'K' = letters K-Z only (from K to end of alphabet)
-            callsign += String.fromCharCode(75 + Math.floor(Math.random() * 11)); // K-Z
+            callsign += String.fromCharCode(75 + Math.floor(this.random() * 11)); // K-Z
           }
         }
         
@@ -549,16 +677,16 @@ export class AviationTrafficGenerator {
         if (i === 0) {
           // 🔢 RULE: First character after airline code MUST be a number!
           // This is aviation regulation - no airline flight can start with a letter
-          suffix += (Math.floor(Math.random() * 10)).toString();
+          suffix += (Math.floor(this.random() * 10)).toString();
         } else {
           // 🎲 For other characters, mix numbers and letters (but mostly numbers)
           // 75% chance for number, 25% chance for letter
-          if (suffix[suffix.length - 1] && suffix[suffix.length - 1].match(/[A-Z]/) || Math.random() > 0.75) {
+          if (suffix[suffix.length - 1] && suffix[suffix.length - 1].match(/[A-Z]/) || this.random() > 0.75) {
             // Add letter A-Z
-            suffix += String.fromCharCode(65 + Math.floor(Math.random() * 26));
+            suffix += String.fromCharCode(65 + Math.floor(this.random() * 26));
           } else {
             // Add number 0-9
-            suffix += (Math.floor(Math.random() * 10)).toString();
+            suffix += (Math.floor(this.random() * 10)).toString();
           }
         }
       }
@@ -616,7 +744,7 @@ export class AviationTrafficGenerator {
    * 2. Only intruder airplanes change levels (target stays put like a landmark)
    * 3. Intruder must be crossing THROUGH target's level (not just going TO it)
    * 4. Only IFR airplanes get level changes (VFR fly wherever they want)
-   * 5. Only 30% chance it happens (not too common, but realistic)
+   * 5. Only options.levelChangeRate chance it happens (30% by default - not too common, but realistic)
    * 
    * 🏢 THINK OF IT LIKE ELEVATORS IN A BUILDING:
    * - Target airplane = person standing on floor 5 (not moving)
@@ -637,8 +765,10 @@ export class AviationTrafficGenerator {
       return;
     }
     
-    // 🎲 RULE 3: Only 30% chance for level change (not too common)
-    if (Math.random() < 0.3) {
+    // 🎲 RULE 3: Only levelChangeRate chance for level change (30% by default, not too common)
+    // 🗓️ ...unless the scheduler asked for (or against) a level change
+    const levelChangeRate = this.category ? (this.category.levelChange ? 1 : 0) : this.options.levelChangeRate;
+    if (this.random() < levelChangeRate) {
       const targetLevel = target.level;      // Where target airplane is parked
       const intruderLevel = intruder.level;  // Where intruder starts
       
@@ -674,6 +804,11 @@ export class AviationTrafficGenerator {
           to: newLevel,      // Where the airplane will end up
           dir: direction     // Which direction it's moving (up ↑ or down ↓)
         };
+        
+        // ⚔️ RULE 9: Climbing/descending away before the closest point would end the conflict - cancel!
+        if (!this.isRealConflict(target, intruder)) {
+          intruder.levelChange = undefined;
+        }
       }
     }
   }
@@ -735,17 +870,121 @@ export class AviationTrafficGenerator {
     return { x: intersectionX, y: intersectionY, targetDist, intruderDist };
   }
 
-  private generateScenarioByDirection(direction: string): Exercise {
+  /**
+   * 👯 AIRPLANE PAIR BUILDER
+   * Once a direction generator knows WHERE the intruder is and where it's heading,
+   * the rest is always the same: matching airplane types, levels, speeds and
+   * finally the two airplanes themselves.
+   * 
+   * 🎯 When an existing target is passed in (extra traffic for the same exercise),
+   * the target stays exactly as it is and only a new intruder is built around it.
+   * 🏎️ For overtaking the intruder MUST be faster than the target (null if that's impossible).
+   */
+  private createAircraftPair(
+    existingTarget: Ac | undefined,
+    targetHeading: number,
+    intruderPosition: { x: number; y: number },
+    intruderHeading: number,
+    overtaking: boolean = false
+  ): { target: Ac; intruder: Ac } | null {
+    const { targetType, intruderType, targetIsVFR, intruderIsVFR } = this.selectCompatibleAircraft(existingTarget);
+    const { targetAltitude, intruderAltitude } = this.generateRealisticAltitudes(targetType, intruderType, targetIsVFR, intruderIsVFR, existingTarget);
+    
+    let targetSpeed: number;
+    let intruderSpeed: number;
+    if (overtaking) {
+      // More flexible speed selection for overtaking
+      targetSpeed = existingTarget?.speed ?? this.rnd(Math.max(60, targetType.speed.min), Math.min(targetType.speed.max, 250)); // Lower cap for target
+      // Ensure intruder is faster for overtaking with smaller minimum difference
+      const minIntruderSpeed = targetSpeed + 10; // Reduced minimum speed difference
+      const maxIntruderSpeed = Math.min(intruderType.speed.max, 450); // Higher cap for intruder
+      
+      if (minIntruderSpeed > maxIntruderSpeed) {
+        return null; // Can't make intruder faster
+      }
+      
+      intruderSpeed = this.rnd(minIntruderSpeed, maxIntruderSpeed);
+    } else {
+      targetSpeed = existingTarget?.speed ?? this.rnd(targetType.speed.min, targetType.speed.max);
+      intruderSpeed = this.rnd(intruderType.speed.min, intruderType.speed.max);
+    }
+    
+    const target = existingTarget ?? this.generateAircraft(targetType, targetIsVFR, { x: 0, y: 0 }, targetHeading, targetSpeed, targetAltitude, 'target'); // No level changes for target
+    const intruder = this.generateAircraft(intruderType, intruderIsVFR, intruderPosition, intruderHeading, intruderSpeed, intruderAltitude, 'intruder');
+    
+    return { target, intruder };
+  }
+
+  /**
+   * ➕ EXTRA TRAFFIC FINDER
+   * Real traffic pictures often have two or three relevant contacts. This adds one more
+   * conflicting intruder around the SAME target. To keep every traffic call clear, the new
+   * intruder must sit on its own clock position, at least 2 miles from the other intruders.
+   * Returns null if no such intruder could be found.
+   */
+  private generateAdditionalTraffic(target: Ac, existing: TrafficPair[]): TrafficPair | null {
+    for (let attempt = 0; attempt < 50; attempt++) {
+      const direction = this.selectDirection();
+      
+      let pair: TrafficPair;
+      try {
+        pair = this.generateScenarioByDirection(direction, target);
+      } catch {
+        continue; // This direction doesn't fit around this target, spin again
+      }
+      
+      const clashes = existing.some(other =>
+        other.clock === pair.clock ||
+        other.intruder.callsign === pair.intruder.callsign ||
+        Math.hypot(other.intruder.position.x - pair.intruder.position.x, other.intruder.position.y - pair.intruder.position.y) < 2
+      );
+      if (!clashes) return pair;
+    }
+    
+    return null;
+  }
+
+  /**
+   * ⚔️ REAL CONFLICT CHECK
+   * Paths that cross on paper aren't enough - the airplanes must actually get close:
+   * near enough at the closest point of approach, soon enough (but not already passing)
+   * and without lots of height between them. Otherwise nobody would call the traffic!
+   */
+  private isRealConflict(target: Ac, intruder: Ac): boolean {
+    const cpa = closestPointOfApproach(target, intruder);
+    return cpa.distance <= CONFLICT_LIMITS.maxCpaDistance &&
+           cpa.time >= CONFLICT_LIMITS.minTimeToCpa &&
+           cpa.time <= CONFLICT_LIMITS.maxTimeToCpa &&
+           cpa.verticalSeparation <= CONFLICT_LIMITS.maxVerticalSeparation;
+  }
+
+  /**
+   * 🗓️ DOES THE INTRUDER FIT THE SCHEDULED CATEGORY?
+   * A requested level change can still be cancelled (same level, not through the
+   * target's level, no real conflict), so scenarios without it are thrown back.
+   */
+  private matchesCategory(intruder: Ac): boolean {
+    if (!this.category) return true;
+    return (intruder.levelChange !== undefined) === this.category.levelChange;
+  }
+
+  private generateScenarioByDirection(direction: TrafficDirection, existingTarget?: Ac): TrafficPair {
     let attempts = 0;
-    // More attempts for overtaking scenarios as they're harder to generate
-    const maxAttempts = direction === 'overtaking' ? 300 : 100;
+    // More attempts for overtaking and opposite direction scenarios as they're harder to generate
+    // (sessions can be limited to just these directions through the generator options)
+    const maxAttempts = direction === 'overtaking' || direction === 'opposite direction' ? 300 : 100;
     
     while (attempts < maxAttempts) {
       attempts++;
       
       try {
-        const result = this.generateDirectionScenario(direction);
-        if (result) return result;
+        const result = this.generateDirectionScenario(direction, existingTarget);
+        if (result && this.isRealConflict(result.target, result.intruder)) {
+          if (!this.category) return result;
+          // 🗓️ Decide the level change right away, so we can check it fits the scheduled category
+          this.assignLevelChange(result.target, result.intruder);
+          if (this.matchesCategory(result.intruder)) return { ...result, levelChangeDecided: true };
+        }
       } catch {
         // Continue to next attempt
       }
@@ -754,51 +993,46 @@ export class AviationTrafficGenerator {
     throw new Error(`Failed to generate valid scenario for direction: ${direction}`);
   }
 
-  private generateDirectionScenario(direction: string): Exercise | null {
+  private generateDirectionScenario(direction: TrafficDirection, existingTarget?: Ac): TrafficPair | null {
     switch (direction) {
       case 'crossing left to right':
-        return this.generateCrossingL2R();
+        return this.generateCrossingL2R(existingTarget);
       case 'crossing right to left':
-        return this.generateCrossingR2L();
+        return this.generateCrossingR2L(existingTarget);
       case 'converging':
-        return this.generateConverging();
+        return this.generateConverging(existingTarget);
       case 'opposite direction':
-        return this.generateOppositeDirection();
+        return this.generateOppositeDirection(existingTarget);
       case 'overtaking':
-        return this.generateOvertaking();
+        return this.generateOvertaking(existingTarget);
       default:
         throw new Error(`Unknown direction: ${direction}`);
     }
   }
 
-  private generateCrossingL2R(): Exercise | null {
+  private generateCrossingL2R(existingTarget?: Ac): TrafficPair | null {
     // Clock 10-11, Distance 3-8NM, Angle 55-125°
-    const targetHeading = this.rnd(0, 359);
-    const distance = this.rndFloat(3, 8);
+    const targetHeading = existingTarget?.heading ?? this.rnd(0, 359);
+    const distance = this.pickDistance(3, 8);
     const clock = this.rnd(10, 11);
     
     // Calculate intruder position based on clock position
-    const relativeAngle = (targetHeading + (clock === 12 ? 0 : clock * 30)) * Math.PI / 180;
+    const relativeAngle = this.pickClockBearing(targetHeading, clock) * Math.PI / 180;
     
     const intruderX = Math.sin(relativeAngle) * distance;
     const intruderY = Math.cos(relativeAngle) * distance;
     
     // Calculate convergence angle (55-125°)
-    const convergenceAngle = this.rndFloat(55, 125);
+    const convergenceAngle = this.pickAngle(55, 125);
     
     // Determine intruder heading for crossing left to right
     let intruderHeading = targetHeading + convergenceAngle;
     if (intruderHeading >= 360) intruderHeading -= 360;
     
-    // Select compatible aircraft types and realistic altitudes
-    const { targetType, intruderType, targetIsVFR, intruderIsVFR } = this.selectCompatibleAircraft();
-    const { targetAltitude, intruderAltitude } = this.generateRealisticAltitudes(targetType, intruderType, targetIsVFR, intruderIsVFR);
-    
-    const targetSpeed = this.rnd(targetType.speed.min, targetType.speed.max);
-    const intruderSpeed = this.rnd(intruderType.speed.min, intruderType.speed.max);
-    
-    const target = this.generateAircraft(targetType, targetIsVFR, { x: 0, y: 0 }, targetHeading, targetSpeed, targetAltitude, 'target'); // No level changes for target
-    const intruder = this.generateAircraft(intruderType, intruderIsVFR, { x: intruderX, y: intruderY }, intruderHeading, intruderSpeed, intruderAltitude, 'intruder');
+    // Select compatible aircraft types, realistic altitudes and speeds (an existing target is kept as it is)
+    const pair = this.createAircraftPair(existingTarget, targetHeading, { x: intruderX, y: intruderY }, intruderHeading);
+    if (!pair) return null;
+    const { target, intruder } = pair;
     
     // Validate intersection
     const intersection = this.calculateIntersectionPoint(target, intruder);
@@ -810,34 +1044,29 @@ export class AviationTrafficGenerator {
     const asymmetry = Math.abs(intersection.targetDist - intersection.intruderDist);
     if (asymmetry > 2) return null; // As per notes: ±2 miles margin for realism
     
-    return this.buildExercise(target, intruder, 'crossing left to right', clock);
+    return { target, intruder, direction: 'crossing left to right', clock };
   }
 
-  private generateCrossingR2L(): Exercise | null {
+  private generateCrossingR2L(existingTarget?: Ac): TrafficPair | null {
     // Clock 1-2, Distance 3-8NM, Angle 55-125°
-    const targetHeading = this.rnd(0, 359);
-    const distance = this.rndFloat(3, 8);
+    const targetHeading = existingTarget?.heading ?? this.rnd(0, 359);
+    const distance = this.pickDistance(3, 8);
     const clock = this.rnd(1, 2);
     
-    const relativeAngle = (targetHeading + (clock === 12 ? 0 : clock * 30)) * Math.PI / 180;
+    const relativeAngle = this.pickClockBearing(targetHeading, clock) * Math.PI / 180;
     
     const intruderX = Math.sin(relativeAngle) * distance;
     const intruderY = Math.cos(relativeAngle) * distance;
     
-    const convergenceAngle = this.rndFloat(55, 125);
+    const convergenceAngle = this.pickAngle(55, 125);
     
     let intruderHeading = targetHeading - convergenceAngle;
     if (intruderHeading < 0) intruderHeading += 360;
     
-    // Select compatible aircraft types and realistic altitudes
-    const { targetType, intruderType, targetIsVFR, intruderIsVFR } = this.selectCompatibleAircraft();
-    const { targetAltitude, intruderAltitude } = this.generateRealisticAltitudes(targetType, intruderType, targetIsVFR, intruderIsVFR);
-    
-    const targetSpeed = this.rnd(targetType.speed.min, targetType.speed.max);
-    const intruderSpeed = this.rnd(intruderType.speed.min, intruderType.speed.max);
-    
-    const target = this.generateAircraft(targetType, targetIsVFR, { x: 0, y: 0 }, targetHeading, targetSpeed, targetAltitude, 'target'); // No level changes for target
-    const intruder = this.generateAircraft(intruderType, intruderIsVFR, { x: intruderX, y: intruderY }, intruderHeading, intruderSpeed, intruderAltitude, 'intruder');
+    // Select compatible aircraft types, realistic altitudes and speeds (an existing target is kept as it is)
+    const pair = this.createAircraftPair(existingTarget, targetHeading, { x: intruderX, y: intruderY }, intruderHeading);
+    if (!pair) return null;
+    const { target, intruder } = pair;
     
     const intersection = this.calculateIntersectionPoint(target, intruder);
     if (!intersection) return null;
@@ -848,36 +1077,31 @@ export class AviationTrafficGenerator {
     const asymmetry = Math.abs(intersection.targetDist - intersection.intruderDist);
     if (asymmetry > 2) return null; // As per notes: ±2 miles margin for realism
     
-    return this.buildExercise(target, intruder, 'crossing right to left', clock);
+    return { target, intruder, direction: 'crossing right to left', clock };
   }
 
-  private generateConverging(): Exercise | null {
+  private generateConverging(existingTarget?: Ac): TrafficPair | null {
     // Clock 2,3,9,10, Distance 2-5NM, Angle <40°
-    const targetHeading = this.rnd(0, 359);
-    const distance = this.rndFloat(2, 5);
+    const targetHeading = existingTarget?.heading ?? this.rnd(0, 359);
+    const distance = this.pickDistance(2, 5);
     const clockOptions = [2, 3, 9, 10];
     const clock = clockOptions[this.rnd(0, clockOptions.length - 1)];
     
-    const relativeAngle = (targetHeading + (clock === 12 ? 0 : clock * 30)) * Math.PI / 180;
+    const relativeAngle = this.pickClockBearing(targetHeading, clock) * Math.PI / 180;
     
     const intruderX = Math.sin(relativeAngle) * distance;
     const intruderY = Math.cos(relativeAngle) * distance;
     
-    const convergenceAngle = this.rndFloat(5, 39);
+    const convergenceAngle = this.pickAngle(5, 39);
     
-    let intruderHeading = targetHeading + (Math.random() < 0.5 ? convergenceAngle : -convergenceAngle);
+    let intruderHeading = targetHeading + (this.random() < 0.5 ? convergenceAngle : -convergenceAngle);
     if (intruderHeading < 0) intruderHeading += 360;
     if (intruderHeading >= 360) intruderHeading -= 360;
     
-    // Select compatible aircraft types and realistic altitudes
-    const { targetType, intruderType, targetIsVFR, intruderIsVFR } = this.selectCompatibleAircraft();
-    const { targetAltitude, intruderAltitude } = this.generateRealisticAltitudes(targetType, intruderType, targetIsVFR, intruderIsVFR);
-    
-    const targetSpeed = this.rnd(targetType.speed.min, targetType.speed.max);
-    const intruderSpeed = this.rnd(intruderType.speed.min, intruderType.speed.max);
-    
-    const target = this.generateAircraft(targetType, targetIsVFR, { x: 0, y: 0 }, targetHeading, targetSpeed, targetAltitude, 'target'); // No level changes for target
-    const intruder = this.generateAircraft(intruderType, intruderIsVFR, { x: intruderX, y: intruderY }, intruderHeading, intruderSpeed, intruderAltitude, 'intruder');
+    // Select compatible aircraft types, realistic altitudes and speeds (an existing target is kept as it is)
+    const pair = this.createAircraftPair(existingTarget, targetHeading, { x: intruderX, y: intruderY }, intruderHeading);
+    if (!pair) return null;
+    const { target, intruder } = pair;
     
     const intersection = this.calculateIntersectionPoint(target, intruder);
     if (!intersection) return null;
@@ -888,13 +1112,13 @@ export class AviationTrafficGenerator {
     const asymmetry = Math.abs(intersection.targetDist - intersection.intruderDist);
     if (asymmetry > 2) return null; // As per notes: ±2 miles margin for realism
     
-    return this.buildExercise(target, intruder, 'converging', clock);
+    return { target, intruder, direction: 'converging', clock };
   }
 
-  private generateOppositeDirection(): Exercise | null {
+  private generateOppositeDirection(existingTarget?: Ac): TrafficPair | null {
     // Clock 12, Distance 4-9NM, Angle ≥170°, Symmetric intersection
-    const targetHeading = this.rnd(0, 359);
-    const distance = this.rndFloat(4, 9);
+    const targetHeading = existingTarget?.heading ?? this.rnd(0, 359);
+    const distance = this.pickDistance(4, 9);
     const clock = 12;
     
     // Allow ±5° variation for clock 12 while keeping it clearly at 12
@@ -910,15 +1134,10 @@ export class AviationTrafficGenerator {
     if (intruderHeading >= 360) intruderHeading -= 360;
     if (intruderHeading < 0) intruderHeading += 360;
     
-    // Select compatible aircraft types and realistic altitudes
-    const { targetType, intruderType, targetIsVFR, intruderIsVFR } = this.selectCompatibleAircraft();
-    const { targetAltitude, intruderAltitude } = this.generateRealisticAltitudes(targetType, intruderType, targetIsVFR, intruderIsVFR);
-    
-    const targetSpeed = this.rnd(targetType.speed.min, targetType.speed.max);
-    const intruderSpeed = this.rnd(intruderType.speed.min, intruderType.speed.max);
-    
-    const target = this.generateAircraft(targetType, targetIsVFR, { x: 0, y: 0 }, targetHeading, targetSpeed, targetAltitude, 'target'); // No level changes for target
-    const intruder = this.generateAircraft(intruderType, intruderIsVFR, { x: intruderX, y: intruderY }, intruderHeading, intruderSpeed, intruderAltitude, 'intruder');
+    // Select compatible aircraft types, realistic altitudes and speeds (an existing target is kept as it is)
+    const pair = this.createAircraftPair(existingTarget, targetHeading, { x: intruderX, y: intruderY }, intruderHeading);
+    if (!pair) return null;
+    const { target, intruder } = pair;
     
     const intersection = this.calculateIntersectionPoint(target, intruder);
     if (!intersection) return null;
@@ -930,17 +1149,17 @@ export class AviationTrafficGenerator {
     const asymmetry = Math.abs(intersection.targetDist - intersection.intruderDist);
     if (asymmetry > 1.5) return null; // Stricter for opposite direction as per notes
     
-    return this.buildExercise(target, intruder, 'opposite direction', clock);
+    return { target, intruder, direction: 'opposite direction', clock };
   }
 
-  private generateOvertaking(): Exercise | null {
+  private generateOvertaking(existingTarget?: Ac): TrafficPair | null {
     // Clock 5,6,7, Distance 2-6NM, Same direction with faster intruder
-    const targetHeading = this.rnd(0, 359);
-    const distance = this.rndFloat(2, 6);
+    const targetHeading = existingTarget?.heading ?? this.rnd(0, 359);
+    const distance = this.pickDistance(2, 6);
     const clockOptions = [5, 6, 7];
     const clock = clockOptions[this.rnd(0, clockOptions.length - 1)];
     
-    const relativeAngle = (targetHeading + (clock === 12 ? 0 : clock * 30)) * Math.PI / 180;
+    const relativeAngle = this.pickClockBearing(targetHeading, clock) * Math.PI / 180;
     
     const intruderX = Math.sin(relativeAngle) * distance;
     const intruderY = Math.cos(relativeAngle) * distance;
@@ -950,24 +1169,10 @@ export class AviationTrafficGenerator {
     if (intruderHeading < 0) intruderHeading += 360;
     if (intruderHeading >= 360) intruderHeading -= 360;
     
-    // Select compatible aircraft types and realistic altitudes
-    const { targetType, intruderType, targetIsVFR, intruderIsVFR } = this.selectCompatibleAircraft();
-    const { targetAltitude, intruderAltitude } = this.generateRealisticAltitudes(targetType, intruderType, targetIsVFR, intruderIsVFR);
-    
-    // More flexible speed selection for overtaking
-    const targetSpeed = this.rnd(Math.max(60, targetType.speed.min), Math.min(targetType.speed.max, 250)); // Lower cap for target
-    // Ensure intruder is faster for overtaking with smaller minimum difference
-    const minIntruderSpeed = targetSpeed + 10; // Reduced minimum speed difference
-    const maxIntruderSpeed = Math.min(intruderType.speed.max, 450); // Higher cap for intruder
-    
-    if (minIntruderSpeed > maxIntruderSpeed) {
-      return null; // Can't make intruder faster, try again
-    }
-    
-    const intruderSpeed = this.rnd(minIntruderSpeed, maxIntruderSpeed);
-    
-    const target = this.generateAircraft(targetType, targetIsVFR, { x: 0, y: 0 }, targetHeading, targetSpeed, targetAltitude, 'target'); // No level changes for target
-    const intruder = this.generateAircraft(intruderType, intruderIsVFR, { x: intruderX, y: intruderY }, intruderHeading, intruderSpeed, intruderAltitude, 'intruder');
+    // Select compatible aircraft types and realistic altitudes, with a faster intruder
+    const pair = this.createAircraftPair(existingTarget, targetHeading, { x: intruderX, y: intruderY }, intruderHeading, true);
+    if (!pair) return null; // Can't make intruder faster, try again
+    const { target, intruder } = pair;
     
     const intersection = this.calculateIntersectionPoint(target, intruder);
     if (!intersection) return null;
@@ -979,81 +1184,121 @@ export class AviationTrafficGenerator {
     const asymmetry = Math.abs(intersection.targetDist - intersection.intruderDist);
     if (asymmetry > 3) return null; // Increased tolerance for overtaking scenarios
     
-    return this.buildExercise(target, intruder, 'overtaking', clock);
+    return { target, intruder, direction: 'overtaking', clock };
   }
 
-  private buildExercise(target: Ac, intruder: Ac, direction: string, clock: number): Exercise {
-    // Assign level changes based on new requirements
-    this.assignLevelChange(target, intruder);
-    
-    // Calculate actual current distance between aircraft
-    const dx = intruder.position.x - target.position.x;
-    const dy = intruder.position.y - target.position.y;
-    const actualDistance = Math.sqrt(dx * dx + dy * dy);
-    const roundedActualDistance = Math.round(actualDistance);
-    
-    const levelDiff = intruder.level - target.level;
-    let levelText = '';
-    
-    // Check if intruder is climbing or descending through target's level
-    if (intruder.levelChange) {
-      const isClimbingThrough = intruder.levelChange.dir === '↑' && 
-                               intruder.level < target.level && 
-                               intruder.levelChange.to >= target.level;
-      const isDescendingThrough = intruder.levelChange.dir === '↓' && 
-                                 intruder.level >= target.level && 
-                                 intruder.levelChange.to < target.level;
-      
-      if (isClimbingThrough) {
-        levelText = `${Math.abs(levelDiff)} feet below, climbing through your level`;
-      } else if (isDescendingThrough) {
-        // If currently at target level and descending, should be "1000 feet below"
-        if (intruder.level === target.level) {
-          levelText = `1000 feet below, descending through your level`;
-        } else {
-          levelText = `${Math.abs(levelDiff)} feet above, descending through your level`;
-        }
-      } else {
-        // Standard level change text
-        levelText = levelDiff === 0 ? 'same level' : 
-                   levelDiff > 0 ? `${Math.abs(levelDiff)} feet above` : 
-                   `${Math.abs(levelDiff)} feet below`;
-      }
-    } else {
-      // No level change
-      levelText = levelDiff === 0 ? 'same level' : 
-                 levelDiff > 0 ? `${Math.abs(levelDiff)} feet above` : 
-                 `${Math.abs(levelDiff)} feet below`;
-    }
+  private buildExercise(target: Ac, pairs: TrafficPair[]): Exercise {
+    const intruders = pairs.map(pair => pair.intruder);
     
-    const wtcText = intruder.wtc === 'H' ? ', heavy' : '';
+    // Assign level changes based on new requirements (scheduled scenarios already have theirs)
+    pairs.forEach(pair => {
+      if (!pair.levelChangeDecided) this.assignLevelChange(target, pair.intruder);
+    });
     
-    const solution = `${target.callsign}, traffic, ${clock} o'clock, ${roundedActualDistance} miles, ${direction}, ${levelText}, ${intruder.type.type}${wtcText}`;
+    const situations = pairs.map(pair => describeSituation(target, pair.intruder, pair.direction, pair.clock));
+    const solutions = situations.map((situation, index) => buildSolution(target, intruders[index], situation, index));
     
     return {
+      seed: this.seed,
+      options: { ...this.options },
+      difficulty: this.options.difficulty,
+      elapsed: 0,
       target,
-      intruder,
-      situation: {
-        clock,
-        distance: roundedActualDistance,
-        direction,
-        level: levelText
-      },
-      solution
+      intruders,
+      situations,
+      solutions
     };
   }
 
-  public generateExercise(): Exercise {
-    const direction = this.selectDirection();
-    return this.generateScenarioByDirection(direction);
+  /**
+   * 🎯 MAKE ONE EXERCISE
+   * The same seed (with the same options) always gives the exact same exercise
+   * (same airplanes, same callsigns, same positions). Leave the seed out to get a brand new random one.
+   * The exercise keeps both, so generateExercise(exercise.seed, exercise.options) rebuilds it.
+   * Options that are left out use DEFAULT_GENERATOR_OPTIONS.
+   * The difficulty preset shapes the geometry (angles, clock positions, distances).
+   */
+  public generateExercise(seed: number = createSeed(), options: Partial<GeneratorOptions> = {}): Exercise {
+    // 🎛️ Mix the caller's options into the standard recipe
+    const mergedOptions = { ...DEFAULT_GENERATOR_OPTIONS, ...options };
+    
+    // 🎚️ The difficulty preset may override the level change and military rates
+    this.preset = DIFFICULTY_PRESETS[mergedOptions.difficulty] ?? DIFFICULTY_PRESETS[DEFAULT_GENERATOR_OPTIONS.difficulty];
+    this.options = {
+      ...mergedOptions,
+      levelChangeRate: this.preset.levelChangeRate ?? mergedOptions.levelChangeRate,
+      militaryRate: this.preset.militaryRate ?? mergedOptions.militaryRate,
+    };
+
+    // 🎲 Fresh dice for every exercise, so the result depends ONLY on the seed and options
+    this.seed = seed;
+    this.random = this.createRandom(seed);
+
+    // 🗓️ A scheduled category fixes the first intruder's direction, flight rules and level change
+    this.category = this.options.category;
+    const direction = this.category?.direction ?? this.selectDirection();
+    let firstPair: TrafficPair;
+    try {
+      firstPair = this.generateScenarioByDirection(direction);
+    } catch (error) {
+      // 🛡️ No level change fits this geometry - keep direction and flight rules, drop the level change
+      if (!this.category?.levelChange) throw error;
+      this.category = { ...this.category, levelChange: false };
+      firstPair = this.generateScenarioByDirection(direction);
+    }
+    this.category = undefined; // ➕ Extra traffic uses the normal mix
+    const pairs = [firstPair];
+    
+    // ➕ More contacts around the same target when the session asks for them
+    while (pairs.length < this.options.intruderCount) {
+      const extraPair = this.generateAdditionalTraffic(firstPair.target, pairs);
+      if (!extraPair) break; // 🛡️ No room for more traffic - keep the picture we have
+      pairs.push(extraPair);
+    }
+    
+    return this.buildExercise(firstPair.target, pairs);
   }
 }
 
+// =============================================================================
+// 📝 SITUATIONS - Describing What the Traffic Is Doing
+// =============================================================================
+
+/**
+ * 📝 SITUATION DESCRIBER
+ * Works out what the controller has to say about ONE intruder: clock, distance,
+ * direction and the level information (including climbing/descending through your level).
+ * It also records the closest point of approach, so you can see how serious the conflict is.
+ */
+export function describeSituation(target: Ac, intruder: Ac, direction: TrafficDirection, clock: number): Situation {
+  // Calculate actual current distance between aircraft
+  const dx = intruder.position.x - target.position.x;
+  const dy = intruder.position.y - target.position.y;
+  const actualDistance = Math.sqrt(dx * dx + dy * dy);
+  const roundedActualDistance = Math.round(actualDistance);
+  
+  // 📶 Relative level, including climbing/descending through your level
+  const levelText = relativeLevelText(describeLevel(target, intruder), describeLevelChange(target, intruder));
+  
+  // 🎯 When and how close they really get (and how much height is left between them)
+  const cpa = closestPointOfApproach(target, intruder);
+  
+  return {
+    clock,
+    distance: roundedActualDistance,
+    direction,
+    level: levelText,
+    cpaDistance: Math.round(cpa.distance * 10) / 10,
+    timeToCpa: Math.round(cpa.time),
+    cpaVerticalSeparation: cpa.verticalSeparation
+  };
+}
+
 // =============================================================================
 // EXPORT FUNCTIONS
 // =============================================================================
 
-export function generateExercise(): Exercise {
+export function generateExercise(seed?: number, options?: Partial<GeneratorOptions>): Exercise {
   const generator = AviationTrafficGenerator.getInstance();
-  return generator.generateExercise();
+  return generator.generateExercise(seed, options);
 }
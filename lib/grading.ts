@@ -0,0 +1,318 @@
+// =============================================================================
+// ✅ ANSWER GRADING - The Robot Examiner!
+// =============================================================================
+
+/**
+ * 🧠 WHAT THIS FILE DOES:
+ * The trainee types their traffic call, for example:
+ *   "DLH123 traffic two o'clock 5 miles crossing left to right 1000 ft above A320"
+ *
+ * 1. 🔤 We tidy the text up ("two" → 2, "1,000 ft" → 1000 feet)
+ * 2. 🔍 We fish out each element: clock, distance, direction, level, type
+ * 3. ⚖️ We compare every element with the structured solution
+ * 4. ⭐ We suggest a self-assessment button based on how many elements were wrong
+ *
+ * The parser is forgiving on purpose: "two o'clock" and "2 o'clock", "1000 feet"
+ * and "one thousand ft", "westbound" and "crossing right to left" all count,
+ * as long as they describe the same traffic.
+ */
+
+import { cardinalDirection } from './phraseology';
+import { type AssessmentOption, type TrafficDirection, type TrafficSolution } from './types';
+
+/**
+ * 🔍 PARSED TRAFFIC CALL
+ * Everything we could recognise in ONE traffic call (missing = not said).
+ */
+export interface ParsedTrafficCall {
+  callsign?: string;                                        // "speedbird 123 traffic ..." → "SPEEDBIRD123"
+  clock?: number;
+  distance?: number;
+  direction?: TrafficDirection;
+  cardinal?: string;                                        // "westbound", "tracking west" → "west"
+  level?: { feet: number; relation: 'above' | 'below' | 'same' };
+  altitude?: number;                                        // "altitude indicates 3,500" → 3500
+  levelChange?: 'climbing' | 'descending';
+  throughYourLevel: boolean;
+  text: string;                                             // 🔤 The normalized text (used to find the type)
+}
+
+/**
+ * ⚖️ GRADED ELEMENT
+ * One element of the call: what we expected, what we heard, and whether it matches.
+ */
+export interface GradedElement {
+  key: 'clock' | 'distance' | 'direction' | 'level' | 'type';
+  label: string;
+  expected: string;
+  given?: string;
+  correct: boolean;
+}
+
+/**
+ * 📋 GRADING RESULT
+ * - calls: graded elements for each intruder (same order as the solutions)
+ * - mistakes: how many elements were wrong or missing in total
+ * - suggestion: the assessment button we think fits
+ */
+export interface GradingResult {
+  calls: GradedElement[][];
+  mistakes: number;
+  suggestion: AssessmentOption;
+}
+
+// 📏 Distances are estimated from the radar picture, so one mile either way still counts
+const DISTANCE_TOLERANCE = 1;
+
+// =============================================================================
+// 🔤 TEXT NORMALIZER - Turning Words Into Numbers
+// =============================================================================
+
+// 🔢 Number words we understand
+const UNITS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15,
+  sixteen: 16, seventeen: 17, eighteen: 18, nineteen: 19,
+};
+const TENS: Record<string, number> = {
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+const MULTIPLIERS: Record<string, number> = { hundred: 100, thousand: 1000 };
+
+const isNumberWord = (word: string) => word in UNITS || word in TENS || word in MULTIPLIERS;
+
+/**
+ * 🔢 READ ONE RUN OF NUMBER WORDS
+ * - "one thousand five hundred" → 1500 (hundreds and thousands are multiplied)
+ * - "one two three" → 123 (single digits one after another are read digit by digit)
+ * - "twenty five" → 25
+ */
+function numberFromWords(words: string[]): number {
+  const digitByDigit = words.every(word => word in UNITS && UNITS[word] < 10);
+  if (digitByDigit) return Number(words.map(word => UNITS[word]).join(''));
+
+  let total = 0;
+  let current = 0;
+  for (const word of words) {
+    if (word === 'thousand') {
+      total += (current || 1) * 1000;
+      current = 0;
+    } else if (word === 'hundred') {
+      current = (current || 1) * 100;
+    } else {
+      current += UNITS[word] ?? TENS[word] ?? 0;
+    }
+  }
+  return total + current;
+}
+
+/**
+ * 🧽 NORMALIZE A TRAFFIC CALL
+ * Lower case, no punctuation, "1,000" → "1000", "ft" → "feet", "o'clock" → "oclock"
+ * and every run of number words replaced by digits.
+ */
+export function normalizeCall(text: string): string {
+  const cleaned = text
+    .toLowerCase()
+    .replace(/o['’ ]?clock/g, ' oclock ')
+    .replace(/(\d),(\d{3})/g, '$1$2')
+    .replace(/\bft\b/g, 'feet')
+    .replace(/\bnm\b/g, 'miles')
+    .replace(/[^a-z0-9.\s-]/g, ' ')
+    .replace(/-/g, ' ');
+
+  const words = cleaned.split(/\s+/).filter(Boolean);
+  const output: string[] = [];
+  let run: string[] = [];
+
+  const flush = () => {
+    if (run.length > 0) output.push(String(numberFromWords(run)));
+    run = [];
+  };
+
+  for (const word of words) {
+    // "and" inside a number ("one thousand and five hundred") is just glue
+    if (isNumberWord(word) || (word === 'and' && run.length > 0)) {
+      if (word !== 'and') run.push(word);
+    } else {
+      flush();
+      output.push(word);
+    }
+  }
+  flush();
+
+  return output.join(' ');
+}
+
+// =============================================================================
+// 🔍 PARSER - Fishing Out Each Element
+// =============================================================================
+
+// ➡️ Phrases for each relative direction (first match wins)
+const DIRECTION_PHRASES: [RegExp, TrafficDirection][] = [
+  [/left to right/, 'crossing left to right'],
+  [/right to left/, 'crossing right to left'],
+  [/opposite/, 'opposite direction'],
+  [/converging/, 'converging'],
+  [/overtaking|same direction/, 'overtaking'],
+];
+
+const CARDINALS = 'northeast|northwest|southeast|southwest|north|south|east|west';
+
+/**
+ * 🔍 PARSE ONE TRAFFIC CALL
+ * Finds whatever elements are in the text; anything not said stays undefined.
+ */
+export function parseTrafficCall(text: string): ParsedTrafficCall {
+  const normalized = normalizeCall(text);
+  const parsed: ParsedTrafficCall = { throughYourLevel: false, text: normalized };
+
+  // 📞 "dlh123 traffic", "speedbird 123 traffic" - everything before "traffic" at the start of the call
+  const callsign = normalized.match(/^(.+?) traffic\b/);
+  if (callsign) parsed.callsign = callsign[1].replace(/\s/g, '').toUpperCase();
+
+  // 🕐 "2 oclock"
+  const clock = normalized.match(/\b(\d{1,2}) oclock/);
+  if (clock && Number(clock[1]) >= 1 && Number(clock[1]) <= 12) parsed.clock = Number(clock[1]);
+
+  // 📏 "5 miles", "4.5 miles"
+  const distance = normalized.match(/\b(\d+(?:\.\d+)?) (?:nautical )?miles?\b/);
+  if (distance) parsed.distance = Math.round(Number(distance[1]));
+
+  // ➡️ "crossing left to right", "opposite direction"...
+  const direction = DIRECTION_PHRASES.find(([pattern]) => pattern.test(normalized));
+  if (direction) parsed.direction = direction[1];
+
+  // 🧭 "westbound", "west bound", "tracking west", "heading west"
+  const cardinal = normalized.match(new RegExp(`\\b(${CARDINALS}) ?bound\\b|\\b(?:tracking|heading) (${CARDINALS})\\b`));
+  if (cardinal) parsed.cardinal = cardinal[1] ?? cardinal[2];
+
+  // 📶 "1000 feet above", "same level"
+  const level = normalized.match(/\b(\d+) feet (above|below)/);
+  if (level) parsed.level = { feet: Number(level[1]), relation: level[2] as 'above' | 'below' };
+  else if (/same level/.test(normalized)) parsed.level = { feet: 0, relation: 'same' };
+
+  // 📏 "altitude indicates 3500", "altitude 3500", "flight level 230"
+  const altitude = normalized.match(/\baltitude (?:indicates |indicating )?(\d+)/);
+  const flightLevel = normalized.match(/\bflight level (\d+)/);
+  if (altitude) parsed.altitude = Number(altitude[1]);
+  else if (flightLevel) parsed.altitude = Number(flightLevel[1]) * 100;
+
+  // 📈 "climbing through your level"
+  const levelChange = normalized.match(/\b(climbing|descending)\b/);
+  if (levelChange) parsed.levelChange = levelChange[1] as 'climbing' | 'descending';
+  parsed.throughYourLevel = /through (?:your|the) level/.test(normalized);
+
+  return parsed;
+}
+
+/**
+ * ✂️ SPLIT INTO SEPARATE CALLS
+ * With more than one intruder the trainee says "additional traffic" (or "further traffic")
+ * between the calls. Each piece is parsed on its own.
+ */
+export function parseTrafficCalls(text: string): ParsedTrafficCall[] {
+  return text
+    .split(/\b(?:additional|further) traffic\b/i)
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(parseTrafficCall);
+}
+
+// =============================================================================
+// ⚖️ GRADER - Comparing Each Element
+// =============================================================================
+
+// 🔤 "Piper PA-28" → "piperpa28" so spacing and dashes don't matter
+const compact = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * ⚖️ GRADE ONE CALL AGAINST ONE SOLUTION
+ * Direction may be relative (ICAO/UK) or a direction of travel (FAA).
+ * Level may be relative ("1000 feet above") or absolute ("altitude indicates 3500").
+ */
+function gradeCall(parsed: ParsedTrafficCall | undefined, solution: TrafficSolution): GradedElement[] {
+  const expectedCardinal = cardinalDirection(solution.track);
+  const expectedLevel = solution.level.relation === 'same' ? 'same level' : `${solution.level.feet} feet ${solution.level.relation}`;
+  const throughText = solution.levelChange?.throughYourLevel ? `, ${solution.levelChange.dir} through your level` : '';
+
+  // 📶 Level: relative or absolute must match, and a level change through your level must be mentioned
+  const relativeMatches = parsed?.level !== undefined &&
+    parsed.level.relation === solution.level.relation &&
+    parsed.level.feet === solution.level.feet;
+  const altitudeMatches = parsed?.altitude === solution.level.altitude;
+  const levelChangeMatches = !solution.levelChange?.throughYourLevel ||
+    (parsed?.levelChange === solution.levelChange.dir && (parsed.throughYourLevel || altitudeMatches));
+
+  const givenLevel = parsed?.level
+    ? (parsed.level.relation === 'same' ? 'same level' : `${parsed.level.feet} feet ${parsed.level.relation}`)
+    : parsed?.altitude !== undefined ? `altitude ${parsed.altitude}` : undefined;
+
+  // ✈️ Type: designator ("A320") or full name ("Airbus A320")
+  const typeSaid = parsed !== undefined && (
+    compact(parsed.text).includes(compact(solution.type.designator)) ||
+    compact(parsed.text).includes(compact(solution.type.name))
+  );
+
+  return [
+    {
+      key: 'clock',
+      label: 'Clock',
+      expected: `${solution.clock} o'clock`,
+      given: parsed?.clock !== undefined ? `${parsed.clock} o'clock` : undefined,
+      correct: parsed?.clock === solution.clock,
+    },
+    {
+      key: 'distance',
+      label: 'Distance',
+      expected: `${solution.distance} miles`,
+      given: parsed?.distance !== undefined ? `${parsed.distance} miles` : undefined,
+      correct: parsed?.distance !== undefined && Math.abs(parsed.distance - solution.distance) <= DISTANCE_TOLERANCE,
+    },
+    {
+      key: 'direction',
+      label: 'Direction',
+      expected: solution.direction,
+      given: parsed?.direction ?? (parsed?.cardinal ? `${parsed.cardinal}bound` : undefined),
+      correct: parsed?.direction === solution.direction || (!parsed?.direction && parsed?.cardinal === expectedCardinal),
+    },
+    {
+      key: 'level',
+      label: 'Level',
+      expected: `${expectedLevel}${throughText}`,
+      given: givenLevel !== undefined && parsed?.levelChange ? `${givenLevel}, ${parsed.levelChange}` : givenLevel,
+      correct: (relativeMatches || altitudeMatches) && levelChangeMatches,
+    },
+    {
+      key: 'type',
+      label: 'Type',
+      expected: solution.type.designator,
+      given: typeSaid ? solution.type.designator : undefined,
+      correct: typeSaid,
+    },
+  ];
+}
+
+/**
+ * ⭐ SUGGESTED ASSESSMENT
+ * 0 mistakes = Correct, 1 = Almost, 2 = Hard, 3 or more = Again
+ */
+export function suggestAssessment(mistakes: number): AssessmentOption {
+  if (mistakes === 0) return 'correct';
+  if (mistakes === 1) return 'almost';
+  if (mistakes === 2) return 'hard';
+  return 'again';
+}
+
+/**
+ * ✅ GRADE A TYPED ANSWER
+ * Parses the answer, grades every call against its solution (a missing call
+ * counts as all elements missing) and suggests an assessment.
+ */
+export function gradeAnswer(answer: string, solutions: TrafficSolution[]): GradingResult {
+  const parsedCalls = parseTrafficCalls(answer);
+  const calls = solutions.map((solution, index) => gradeCall(parsedCalls[index], solution));
+  const mistakes = calls.flat().filter(element => !element.correct).length;
+
+  return { calls, mistakes, suggestion: suggestAssessment(mistakes) };
+}
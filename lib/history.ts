@@ -0,0 +1,80 @@
+// =============================================================================
+// 📚 HISTORY BROWSER - Finding Sessions in a Long Training Record
+// =============================================================================
+
+/**
+ * 🧠 WHAT THIS FILE DOES:
+ * History is kept in full now, so a trainee can have hundreds of sessions.
+ * These helpers let the history browser narrow that down and show it a page
+ * at a time:
+ *
+ * 📅 Date range  → sessions completed between two days (both included)
+ * 📈 Score       → sessions scoring between a minimum and maximum percentage
+ * 🎙️ Mode        → sessions answered by self-assessment, typing or speech
+ * 📄 Pages       → a fixed number of sessions per page
+ */
+
+import { type CompletedSession } from './storage';
+import { type AnswerMode } from './types';
+
+/**
+ * 🔎 A HISTORY FILTER
+ * Every field is optional - an empty filter keeps every session.
+ * - from / to: local calendar days as "YYYY-MM-DD" (what a date input gives)
+ * - minScore / maxScore: session score percentage, both included
+ * - answerMode: sessions recorded before the mode was kept never match a mode
+ */
+export interface HistoryFilter {
+  from?: string;
+  to?: string;
+  minScore?: number;
+  maxScore?: number;
+  answerMode?: AnswerMode;
+}
+
+// 📄 One page of results
+export interface HistoryPage<T> {
+  items: T[];
+  page: number;       // 1-based, clamped to the pages that exist
+  pageCount: number;  // At least 1, even when nothing matches
+  total: number;      // Items on all pages together
+}
+
+// 📅 The local calendar day of a moment as "YYYY-MM-DD" (the same format a date input uses)
+export function localDay(date: Date | string): string {
+  const d = new Date(date);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+// Midnight at the start of a local "YYYY-MM-DD" day
+export function startOfDay(day: string): number {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date).getTime();
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Keep the sessions that match every part of the filter (order is kept: newest first)
+export function filterHistory(history: CompletedSession[], filter: HistoryFilter): CompletedSession[] {
+  const from = filter.from ? startOfDay(filter.from) : -Infinity;
+  const to = filter.to ? startOfDay(filter.to) + DAY_MS : Infinity; // The "to" day counts in full
+  return history.filter(session => {
+    const completed = new Date(session.completedAt).getTime();
+    return completed >= from && completed < to &&
+      session.scorePercentage >= (filter.minScore ?? 0) &&
+      session.scorePercentage <= (filter.maxScore ?? 100) &&
+      (filter.answerMode === undefined || session.answerMode === filter.answerMode);
+  });
+}
+
+// Cut a list into pages and return the one asked for
+export function paginate<T>(items: T[], page: number, pageSize: number): HistoryPage<T> {
+  const pageCount = Math.max(1, Math.ceil(items.length / pageSize));
+  const current = Math.min(Math.max(page, 1), pageCount);
+  return {
+    items: items.slice((current - 1) * pageSize, current * pageSize),
+    page: current,
+    pageCount,
+    total: items.length,
+  };
+}
@@ -0,0 +1,101 @@
+// =============================================================================
+// 🧭 AIRCRAFT MOTION - Where Will Everybody Be, and How Close Do They Get?
+// =============================================================================
+
+/**
+ * 🧠 WHAT THIS FILE DOES:
+ * Airplanes in our exercises fly straight lines at constant speed (and climb or
+ * descend at a steady rate). That makes the future easy to predict:
+ *
+ * 📍 positionAt = where is this airplane after X seconds?
+ * 📈 levelAt = what level is it at after X seconds?
+ * 🎯 closestPointOfApproach = when are two airplanes closest, how far apart
+ *    are they then, and how much height is between them?
+ *
+ * The generator uses the closest point of approach (CPA) to throw away
+ * scenarios that are not real conflicts, and the live radar uses the same
+ * math to move the picture - so both always agree.
+ */
+
+import { type Ac } from './types';
+
+// 📈 Climb/descent rates in feet per minute (airliners climb faster than light aircraft)
+const VERTICAL_RATE_IFR = 1500;
+const VERTICAL_RATE_VFR = 500;
+
+type Point = { x: number; y: number };
+
+/**
+ * 🎯 CLOSEST POINT OF APPROACH (CPA)
+ * - distance: closest horizontal distance in nautical miles
+ * - time: seconds from now until that moment (0 = they are already moving apart)
+ * - verticalSeparation: feet between the two levels at that moment
+ */
+export interface ClosestApproach {
+  distance: number;
+  time: number;
+  verticalSeparation: number;
+}
+
+/**
+ * 📍 WHERE WILL THIS AIRPLANE BE?
+ * Speed is in knots (nautical miles per hour), so after `seconds` the airplane
+ * has flown speed × seconds / 3600 miles along its heading.
+ * Negative seconds go back in time (used for history dots).
+ */
+export function positionAt(ac: Ac, seconds: number): Point {
+  const miles = ac.speed * seconds / 3600;
+  const radians = ac.heading * Math.PI / 180;
+  return {
+    x: ac.position.x + Math.sin(radians) * miles,
+    y: ac.position.y + Math.cos(radians) * miles,
+  };
+}
+
+/**
+ * 📈 WHAT LEVEL IS THIS AIRPLANE AT?
+ * Moves the level towards levelChange.to at the climb/descent rate and stops there.
+ * Levels are shown in 100 feet steps (like a real Mode C readout).
+ * Once the new level is reached the level change is over.
+ */
+export function levelAt(ac: Ac, seconds: number): Pick<Ac, 'level' | 'levelChange'> {
+  if (!ac.levelChange || seconds <= 0) return { level: ac.level, levelChange: ac.levelChange };
+
+  const rate = ac.isVFR ? VERTICAL_RATE_VFR : VERTICAL_RATE_IFR;
+  const change = rate * seconds / 60;
+  const remaining = Math.abs(ac.levelChange.to - ac.level);
+
+  // 🛬 Reached the new level - level off
+  if (change >= remaining) return { level: ac.levelChange.to, levelChange: undefined };
+
+  const exactLevel = ac.levelChange.dir === '↑' ? ac.level + change : ac.level - change;
+  return { level: Math.round(exactLevel / 100) * 100, levelChange: ac.levelChange };
+}
+
+/**
+ * 🎯 CLOSEST POINT OF APPROACH CALCULATOR
+ * Think of two toy cars rolling in straight lines: at some moment they are
+ * closest to each other, and after that they only get further apart.
+ *
+ * Math: with relative position r and relative velocity v, the distance at time t
+ * is |r + v·t|, which is smallest at t = -(r·v) / (v·v). If that time is in the
+ * past the airplanes are already diverging, so "now" is the closest moment.
+ */
+export function closestPointOfApproach(target: Ac, intruder: Ac): ClosestApproach {
+  // 🏎️ Where each airplane is one second from now tells us its velocity (miles per second)
+  const targetNext = positionAt(target, 1);
+  const intruderNext = positionAt(intruder, 1);
+
+  const rx = intruder.position.x - target.position.x;
+  const ry = intruder.position.y - target.position.y;
+  const vx = (intruderNext.x - intruder.position.x) - (targetNext.x - target.position.x);
+  const vy = (intruderNext.y - intruder.position.y) - (targetNext.y - target.position.y);
+
+  const closingSpeed = vx * vx + vy * vy;
+  const time = closingSpeed > 0 ? Math.max(0, -(rx * vx + ry * vy) / closingSpeed) : 0;
+
+  const distance = Math.hypot(rx + vx * time, ry + vy * time);
+  const verticalSeparation = Math.abs(levelAt(intruder, time).level - levelAt(target, time).level);
+
+  return { distance, time, verticalSeparation };
+}
@@ -0,0 +1,146 @@
+// =============================================================================
+// 🗣️ PHRASEOLOGY PROFILES - Same Traffic, Different Accents!
+// =============================================================================
+
+/**
+ * 🧠 WHAT THIS FILE DOES:
+ * Controllers around the world describe the same traffic with slightly different
+ * words and in a slightly different order. This file holds one "profile" per region
+ * and turns the exercise data into the traffic information a controller there would say:
+ *
+ * 🌍 ICAO  = "Lufthansa 123, traffic, 2 o'clock, 5 miles, crossing right to left, 1000 feet above, A320"
+ * 🇺🇸 FAA   = "November 123 Alfa Bravo, traffic, two o'clock, four miles, westbound, altitude indicates 3,500, Piper PA-28"
+ * 🇬🇧 UK    = "Golf Alfa Bravo Charlie Delta, traffic, 2 o'clock, 5 miles, crossing right to left, tracking west, PA28, indicating 1000 feet above"
+ *
+ * Every profile reads the SAME structured solution (see solution.ts), so switching
+ * profile in Settings never changes the scenario - only the words.
+ * The callsign is always said in its radiotelephony form (see callsign.ts).
+ */
+
+import { radiotelephonyCallsign } from './callsign';
+import { relativeLevelText } from './solution';
+import { type Exercise, type Phraseology, type TrafficSolution } from './types';
+
+/**
+ * 🎛️ RENDER OPTIONS
+ * - abbreviatedCallsign: contact is established, so registrations are shortened
+ */
+export interface RenderOptions {
+  abbreviatedCallsign?: boolean;
+}
+
+/**
+ * 📋 PHRASEOLOGY PROFILE
+ * - label/description: shown in Settings
+ * - renderTraffic: words the traffic information for one intruder
+ */
+export interface PhraseologyProfile {
+  label: string;
+  description: string;
+  renderTraffic: (solution: TrafficSolution, options: RenderOptions) => string;
+}
+
+// =============================================================================
+// 🧰 WORDING HELPERS
+// =============================================================================
+
+// 🧭 Eight compass points, starting at north and going clockwise
+const CARDINAL_POINTS = ['north', 'northeast', 'east', 'southeast', 'south', 'southwest', 'west', 'northwest'];
+
+// 🔤 Numbers spoken as words (FAA reads clock positions and distances out)
+const NUMBER_WORDS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'eleven', 'twelve'];
+
+/**
+ * 🧭 CARDINAL DIRECTION OF TRAVEL
+ * Turns a heading into the nearest of the eight compass points (e.g. 265° → "west").
+ */
+export function cardinalDirection(heading: number): string {
+  const normalized = ((heading % 360) + 360) % 360;
+  return CARDINAL_POINTS[Math.round(normalized / 45) % CARDINAL_POINTS.length];
+}
+
+/**
+ * 🔤 NUMBER AS WORDS
+ * 1-12 become words; bigger numbers are read digit by digit ("one zero").
+ */
+function numberWords(value: number): string {
+  if (value >= 0 && value < NUMBER_WORDS.length) return NUMBER_WORDS[value];
+  return String(value).split('').map(digit => NUMBER_WORDS[Number(digit)]).join(' ');
+}
+
+/**
+ * 📏 ALTITUDE AS WRITTEN IN FAA PHRASEOLOGY
+ * Below 18,000 feet: "3,500". From 18,000 feet (the US transition altitude): "flight level 230".
+ */
+function faaAltitude(level: number): string {
+  if (level >= 18000) return `flight level ${Math.round(level / 100)}`;
+  return level.toLocaleString('en-US');
+}
+
+// 📞 "Speedbird 123, traffic" for the first call, the profile's own words for the others
+const opener = (solution: TrafficSolution, options: RenderOptions, additional: string) =>
+  solution.additional ? additional : `${radiotelephonyCallsign(solution.callsign, options.abbreviatedCallsign)}, traffic`;
+
+// 🛫 Heavy aircraft get "heavy" added after their type
+const wakeSuffix = (solution: TrafficSolution) => solution.wake === 'H' ? ', heavy' : '';
+
+// =============================================================================
+// 🌍 THE PROFILES
+// =============================================================================
+
+export const PHRASEOLOGY_PROFILES: Record<Phraseology, PhraseologyProfile> = {
+  // 🌍 ICAO Doc 4444: relative direction and relative level
+  icao: {
+    label: 'ICAO',
+    description: 'Clock, distance, relative direction, relative level, type',
+    renderTraffic: (solution, options) => {
+      return `${opener(solution, options, 'additional traffic')}, ${solution.clock} o'clock, ${solution.distance} miles, ${solution.direction}, ` +
+        `${relativeLevelText(solution.level, solution.levelChange)}, ${solution.type.designator}${wakeSuffix(solution)}`;
+    },
+  },
+
+  // 🇺🇸 FAA JO 7110.65: spoken clock and distance, direction of travel, Mode C altitude
+  faa: {
+    label: 'FAA',
+    description: 'Clock and distance in words, direction of travel (westbound), "altitude indicates"',
+    renderTraffic: (solution, options) => {
+      const levelChange = solution.levelChange ? `, ${solution.levelChange.dir}` : '';
+      return `${opener(solution, options, 'additional traffic')}, ${numberWords(solution.clock)} o'clock, ${numberWords(solution.distance)} ${solution.distance === 1 ? 'mile' : 'miles'}, ` +
+        `${cardinalDirection(solution.track)}bound, altitude indicates ${faaAltitude(solution.level.altitude)}${levelChange}, ${solution.type.name}${wakeSuffix(solution)}`;
+    },
+  },
+
+  // 🇬🇧 UK CAP 413: type before level, track for crossing traffic, "indicating" for Mode C levels
+  uk: {
+    label: 'UK CAP 413',
+    description: 'Relative direction plus track, type before level, "indicating" for unverified levels',
+    renderTraffic: (solution, options) => {
+      // Crossing and converging traffic also gets its track, so the pilot knows where to look next
+      const needsTrack = solution.direction !== 'opposite direction' && solution.direction !== 'overtaking';
+      const track = needsTrack ? `, tracking ${cardinalDirection(solution.track)}` : '';
+      return `${opener(solution, options, 'further traffic')}, ${solution.clock} o'clock, ${solution.distance} miles, ${solution.direction}${track}, ` +
+        `${solution.type.designator}${wakeSuffix(solution)}, indicating ${relativeLevelText(solution.level, solution.levelChange)}`;
+    },
+  },
+};
+
+// =============================================================================
+// 🎤 RENDERING FUNCTIONS
+// =============================================================================
+
+/**
+ * 🎤 ONE TRAFFIC CALL
+ * Turns a structured solution back into words in the chosen profile (ICAO by default).
+ */
+export function renderSolution(solution: TrafficSolution, phraseology: Phraseology = 'icao', options: RenderOptions = {}): string {
+  const profile = PHRASEOLOGY_PROFILES[phraseology] ?? PHRASEOLOGY_PROFILES.icao;
+  return profile.renderTraffic(solution, options);
+}
+
+/**
+ * 🎤 ALL TRAFFIC CALLS FOR AN EXERCISE
+ * One line per intruder, in the same order as exercise.intruders.
+ */
+export function renderSolutions(exercise: Exercise, phraseology: Phraseology = 'icao', options: RenderOptions = {}): string[] {
+  return exercise.solutions.map(solution => renderSolution(solution, phraseology, options));
+}
@@ -0,0 +1,105 @@
+// =============================================================================
+// 🔊 ICAO PRONUNCIATION - Saying It Like a Real Controller!
+// =============================================================================
+
+/**
+ * 🧠 WHAT THIS FILE DOES:
+ * On the radio, numbers and letters are said in a special way so nobody mixes them up:
+ *
+ * 🔢 3 → "tree", 5 → "fife", 9 → "niner"
+ * 📏 1000 → "one tousand", 1500 → "one tousand fife hundred", 12 → "one two"
+ * 📞 BAW123 → "speedbird one two tree" (the airline's telephony, not its ICAO code - see callsign.ts)
+ * 🔡 DEABC → "delta echo alfa bravo charlie" (registrations are spelled phonetically)
+ *
+ * This file turns a structured solution into that text, so the browser's speech
+ * synthesis can read the answer out loud. Plain text in, plain text out - no audio here.
+ */
+
+import { abbreviateCallsign, parseCallsign } from './callsign';
+import { ICAO_DIGITS, ICAO_HUNDRED, ICAO_THOUSAND, PHONETIC_ALPHABET } from './constants';
+import { type TrafficSolution } from './types';
+
+// 🕐 Clock positions above 9 are said as one word ("eleven o'clock")
+const CLOCK_WORDS: Record<number, string> = { 10: 'ten', 11: 'eleven', 12: 'twelve' };
+
+// =============================================================================
+// 🔢 NUMBERS AND LETTERS
+// =============================================================================
+
+/**
+ * 🔡 SPELL CHARACTER BY CHARACTER
+ * Digits in ICAO pronunciation, letters in the phonetic alphabet: "6OK" → "six oscar kilo"
+ */
+export function pronounceCharacters(text: string): string {
+  return text
+    .toUpperCase()
+    .split('')
+    .map(char => /\d/.test(char) ? ICAO_DIGITS[Number(char)] : PHONETIC_ALPHABET[char])
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * 🔢 SAY A NUMBER
+ * Whole thousands and hundreds are grouped ("tree tousand fife hundred"),
+ * everything else is read digit by digit ("one two").
+ */
+export function pronounceNumber(value: number): string {
+  const rounded = Math.round(Math.abs(value));
+  const thousands = Math.floor(rounded / 1000);
+  const hundreds = Math.floor((rounded % 1000) / 100);
+
+  if (rounded > 0 && rounded % 100 === 0) {
+    const parts: string[] = [];
+    if (thousands > 0) parts.push(`${pronounceCharacters(String(thousands))} ${ICAO_THOUSAND}`);
+    if (hundreds > 0) parts.push(`${ICAO_DIGITS[hundreds]} ${ICAO_HUNDRED}`);
+    return parts.join(' ');
+  }
+
+  return pronounceCharacters(String(rounded));
+}
+
+// =============================================================================
+// 📞 CALLSIGNS
+// =============================================================================
+
+/**
+ * 📞 SAY A CALLSIGN
+ * Telephony for airline and military callsigns (see callsign.ts), then the flight
+ * number spelled; registrations are spelled phonetically.
+ * @param abbreviated - use the abbreviated form (contact already established)
+ */
+export function pronounceCallsign(callsign: string, abbreviated: boolean = false): string {
+  const parts = parseCallsign(abbreviated ? abbreviateCallsign(callsign) : callsign);
+  if (parts.kind === 'registration') return pronounceCharacters(parts.identifier);
+  return `${parts.telephony} ${pronounceCharacters(parts.identifier)}`;
+}
+
+// =============================================================================
+// 🎤 TRAFFIC CALLS
+// =============================================================================
+
+/**
+ * 🎤 SAY ONE TRAFFIC CALL
+ * Same order as the ICAO phraseology profile, with every number and callsign pronounced.
+ */
+export function pronounceSolution(solution: TrafficSolution, abbreviatedCallsign: boolean = false): string {
+  const opener = solution.additional ? 'additional traffic' : `${pronounceCallsign(solution.callsign, abbreviatedCallsign)}, traffic`;
+  const clock = CLOCK_WORDS[solution.clock] ?? pronounceNumber(solution.clock);
+  const distance = `${pronounceNumber(solution.distance)} ${solution.distance === 1 ? 'mile' : 'miles'}`;
+  const level = solution.level.relation === 'same'
+    ? 'same level'
+    : `${pronounceNumber(solution.level.feet)} feet ${solution.level.relation}`;
+  const through = solution.levelChange?.throughYourLevel ? `, ${solution.levelChange.dir} through your level` : '';
+  const wake = solution.wake === 'H' ? ', heavy' : '';
+
+  return `${opener}, ${clock} o'clock, ${distance}, ${solution.direction}, ${level}${through}, ${solution.type.name}${wake}`;
+}
+
+/**
+ * 🎤 SAY ALL TRAFFIC CALLS
+ * One call after another, ready to hand to speech synthesis.
+ */
+export function pronounceSolutions(solutions: TrafficSolution[], abbreviatedCallsign: boolean = false): string {
+  return solutions.map(solution => pronounceSolution(solution, abbreviatedCallsign)).join(', ');
+}
@@ -0,0 +1,51 @@
+// =============================================================================
+// 🎲 SEEDED RANDOM NUMBERS - Dice That Always Roll the Same Way!
+// =============================================================================
+
+/**
+ * 🧠 WHAT THIS FILE DOES:
+ * Math.random() is like real dice: every roll is different and nobody can
+ * replay it. For training we want "magic dice" instead - if you remember the
+ * starting number (the SEED), you can roll the exact same sequence again.
+ *
+ * That lets us:
+ * - Reproduce a scenario a trainee complains about (just share the seed!)
+ * - Regenerate a whole set of exercises later
+ * - Render the same picture on the server and in the browser
+ */
+
+/**
+ * 🎲 RANDOM SOURCE
+ * A function that returns a number from 0 (inclusive) to 1 (exclusive),
+ * exactly like Math.random(). Anything with this shape can drive the generator.
+ */
+export type RandomSource = () => number;
+
+// Seeds are unsigned 32-bit integers (0 to 4294967295)
+const MAX_SEED = 0xffffffff;
+
+/**
+ * 🏭 SEEDED RANDOM FACTORY (mulberry32)
+ * Give it a seed and it hands back a RandomSource that always produces the
+ * same sequence for that seed. Small, fast and good enough for training scenarios.
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0; // 🔢 Force the seed into an unsigned 32-bit integer
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * 🌱 NEW SEED PICKER
+ * Picks a fresh seed when the caller doesn't care which scenario they get.
+ * This is the ONLY place that still uses Math.random().
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED);
+}
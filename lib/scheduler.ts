@@ -0,0 +1,171 @@
+// =============================================================================
+// 🗓️ SPACED REPETITION - Practising What You Find Hard, More Often!
+// =============================================================================
+
+/**
+ * 🧠 WHAT THIS FILE DOES:
+ * Flashcard apps like Anki show hard cards again soon and easy cards much later.
+ * We do the same, but our "cards" are scenario categories:
+ *
+ * ➡️ direction × 🛩️ flight rules × 📈 level change
+ * e.g. "overtaking, IFR, climbing/descending" or "converging, VFR, level"
+ *
+ * ⭐ After every assessment the category gets a new due date (SM-2 algorithm):
+ * - Correct → 1 day, then 6 days, then longer and longer
+ * - Almost  → same steps, but the intervals grow a bit slower
+ * - Hard    → half the interval, and slower growth from now on
+ * - Again   → back to the start, due again in a minute
+ *
+ * 🎲 Before every exercise we look at the DUE QUEUE (most overdue first, then
+ * categories never practised) and tell the generator which scenario to build.
+ */
+
+import { DIFFICULTY_PRESETS } from './constants';
+import {
+  type AssessmentOption,
+  type GeneratorOptions,
+  type ScenarioCategory,
+  type SchedulerState,
+  type ScoreMetadata,
+  type TrafficDirection,
+} from './types';
+
+// ⭐ SM-2 quality (0-5) of each assessment button
+const QUALITY: Record<AssessmentOption, number> = { correct: 5, almost: 4, hard: 3, again: 1 };
+
+const INITIAL_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+const HARD_INTERVAL_FACTOR = 0.5;  // "Hard" halves the next interval
+const AGAIN_DELAY_MINUTES = 1;     // "Again" is due again almost straight away
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DIRECTIONS: TrafficDirection[] = [
+  'crossing left to right',
+  'crossing right to left',
+  'converging',
+  'opposite direction',
+  'overtaking',
+];
+
+/**
+ * 📋 ALL CATEGORIES
+ * Direction changes fastest, so new categories are introduced in a varied order.
+ * Level changes only happen to IFR traffic, so VFR has no level-change category.
+ */
+export const SCENARIO_CATEGORIES: ScenarioCategory[] = [
+  ...DIRECTIONS.map(direction => ({ direction, flightRule: 'VFR' as const, levelChange: false })),
+  ...DIRECTIONS.map(direction => ({ direction, flightRule: 'IFR' as const, levelChange: false })),
+  ...DIRECTIONS.map(direction => ({ direction, flightRule: 'IFR' as const, levelChange: true })),
+];
+
+// =============================================================================
+// 🏷️ CATEGORY HELPERS
+// =============================================================================
+
+/**
+ * 🏷️ CATEGORY KEY
+ * "overtaking|IFR|level-change" - the key used in the stored scheduler state
+ */
+export function categoryKey(category: ScenarioCategory): string {
+  return `${category.direction}|${category.flightRule}|${category.levelChange ? 'level-change' : 'level'}`;
+}
+
+/**
+ * 🏷️ CATEGORY OF A SCORED EXERCISE
+ */
+export function categoryOf(meta: ScoreMetadata): ScenarioCategory {
+  return { direction: meta.direction, flightRule: meta.flightRule, levelChange: meta.levelChange };
+}
+
+// =============================================================================
+// ⭐ SM-2 REVIEW
+// =============================================================================
+
+/**
+ * ⭐ REVIEW A CATEGORY
+ * Returns a new scheduler state with the category's next due date (the old state is not changed).
+ */
+export function reviewCategory(state: SchedulerState, category: ScenarioCategory, option: AssessmentOption, now: Date = new Date()): SchedulerState {
+  const key = categoryKey(category);
+  const previous = state[key] ?? { repetitions: 0, interval: 0, easeFactor: INITIAL_EASE_FACTOR };
+  const quality = QUALITY[option];
+
+  // 📉 SM-2 ease factor update: perfect answers raise it a little, weak answers lower it
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    previous.easeFactor + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)
+  );
+
+  // 🔄 Failed: start over and come back in a minute
+  if (quality < 3) {
+    return {
+      ...state,
+      [key]: {
+        repetitions: 0,
+        interval: 0,
+        easeFactor,
+        due: new Date(now.getTime() + AGAIN_DELAY_MINUTES * 60 * 1000).toISOString(),
+        lastReviewed: now.toISOString(),
+      },
+    };
+  }
+
+  // 📈 Passed: 1 day, 6 days, then the last interval times the ease factor
+  const repetitions = previous.repetitions + 1;
+  let interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : previous.interval * easeFactor;
+  if (option === 'hard') interval *= HARD_INTERVAL_FACTOR;
+
+  return {
+    ...state,
+    [key]: {
+      repetitions,
+      interval,
+      easeFactor,
+      due: new Date(now.getTime() + interval * DAY_MS).toISOString(),
+      lastReviewed: now.toISOString(),
+    },
+  };
+}
+
+// =============================================================================
+// 📬 DUE QUEUE
+// =============================================================================
+
+/**
+ * 🎛️ CAN THE GENERATOR BUILD THIS CATEGORY WITH THESE OPTIONS?
+ * Switched-off directions, directions weighted 0, a 0% or 100% VFR mix and presets without
+ * level changes rule categories out (the generator would never pick them on its own either).
+ */
+function isAllowed(category: ScenarioCategory, options: GeneratorOptions): boolean {
+  const levelChangeRate = DIFFICULTY_PRESETS[options.difficulty]?.levelChangeRate ?? options.levelChangeRate;
+
+  if (options.directions.length > 0 && !options.directions.includes(category.direction)) return false;
+  if ((options.directionWeights[category.direction] ?? 0) <= 0) return false;
+  if (category.flightRule === 'VFR' && options.vfrProbability <= 0) return false;
+  if (category.flightRule === 'IFR' && options.vfrProbability >= 1) return false;
+  if (category.levelChange && levelChangeRate <= 0) return false;
+  return true;
+}
+
+/**
+ * 📬 DUE QUEUE
+ * Practised categories that are due (most overdue first), then categories never practised.
+ */
+export function dueQueue(state: SchedulerState, options: GeneratorOptions, now: Date = new Date()): ScenarioCategory[] {
+  const allowed = SCENARIO_CATEGORIES.filter(category => isAllowed(category, options));
+
+  const due = allowed
+    .filter(category => state[categoryKey(category)] && new Date(state[categoryKey(category)].due) <= now)
+    .sort((a, b) => new Date(state[categoryKey(a)].due).getTime() - new Date(state[categoryKey(b)].due).getTime());
+  const unseen = allowed.filter(category => !state[categoryKey(category)]);
+
+  return [...due, ...unseen];
+}
+
+/**
+ * 🎯 NEXT CATEGORY
+ * The front of the due queue, or undefined when nothing is due (the generator then uses its normal mix).
+ */
+export function nextCategory(state: SchedulerState, options: GeneratorOptions, now: Date = new Date()): ScenarioCategory | undefined {
+  return dueQueue(state, options, now)[0];
+}
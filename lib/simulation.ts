@@ -0,0 +1,109 @@
+// =============================================================================
+// 🎬 TRAFFIC SIMULATION - Making the Radar Picture Move!
+// =============================================================================
+
+/**
+ * 🧠 WHAT THIS FILE DOES:
+ * The generator hands us a photo: every airplane frozen in one spot. This file
+ * turns that photo into a movie. Give it an exercise and "how many seconds have
+ * passed" and it tells you where everybody is NOW:
+ *
+ * ✈️ Airplanes fly along their heading at their speed
+ * 🔸 History dots follow behind, one new dot every radar sweep
+ * 📈 Climbing/descending airplanes keep changing level until they reach their new level
+ * 🗣️ The solution is rewritten for this moment (new clock position, new distance)
+ *
+ * 🎯 The radar always stays centred on the target - when the target flies forward,
+ * the whole picture slides backwards underneath it (just like a real radar on board!)
+ *
+ * Everything here is a pure function of (exercise, seconds), so the same moment
+ * always looks exactly the same - no matter how you got there (play, step, replay).
+ */
+
+import { describeSituation } from './generator';
+import { buildSolution } from './solution';
+import { positionAt, levelAt } from './motion';
+import { type Ac, type Exercise } from './types';
+
+// =============================================================================
+// ⏱️ SIMULATION CONSTANTS
+// =============================================================================
+
+// 📡 Seconds between two radar sweeps (a typical approach radar turns every 4 seconds)
+export const SWEEP_SECONDS = 4;
+
+// ⏳ Longest we let a scenario run - after that the traffic is no longer a surprise
+export const MAX_SIMULATION_SECONDS = 180;
+
+// 🔸 How many history dots each airplane drags behind it
+const HISTORY_DOTS = 3;
+
+type Point = { x: number; y: number };
+
+// =============================================================================
+// 🧮 CLOCK MATH
+// =============================================================================
+
+/**
+ * 🕐 CLOCK POSITION FROM GEOMETRY
+ * Works out which clock position the intruder is at, as seen from the target's nose.
+ * 12 = straight ahead, 3 = right, 6 = behind, 9 = left.
+ */
+function clockPosition(target: Ac, intruder: Ac): number {
+  const dx = intruder.position.x - target.position.x;
+  const dy = intruder.position.y - target.position.y;
+  const bearing = Math.atan2(dx, dy) * 180 / Math.PI;               // 🧭 Compass bearing to the intruder
+  const relative = ((bearing - target.heading) % 360 + 360) % 360;  // 👃 Relative to the target's nose
+  const clock = Math.round(relative / 30) % 12;
+  return clock === 0 ? 12 : clock;
+}
+
+// =============================================================================
+// 🎬 MAIN SIMULATION FUNCTION
+// =============================================================================
+
+/**
+ * ⏩ FAST-FORWARD AN EXERCISE
+ * Returns the exercise as it looks `seconds` after it was generated:
+ * positions, history dots, levels, situations and solutions all updated.
+ * Zero seconds returns the exercise exactly as generated.
+ */
+export function advanceExercise(exercise: Exercise, seconds: number): Exercise {
+  if (seconds <= 0) return exercise;
+
+  // 🎯 How far the target has flown - everything is shifted back by this to keep the target centred
+  const targetMoved = positionAt(exercise.target, seconds);
+  const recentre = (p: Point): Point => ({ x: p.x - targetMoved.x, y: p.y - targetMoved.y });
+
+  // 📡 Sweeps already done since the start (each one leaves a fresh history dot)
+  const sweeps = Math.floor(seconds / SWEEP_SECONDS);
+
+  const advance = (ac: Ac): Ac => {
+    // 🔸 One dot per sweep behind the airplane; until enough sweeps have passed we keep the generated dots
+    const history: Point[] = [];
+    for (let i = 1; i <= HISTORY_DOTS; i++) {
+      const generatedDot = ac.history[i - sweeps - 1];
+      history.push(i <= sweeps || !generatedDot
+        ? recentre(positionAt(ac, seconds - i * SWEEP_SECONDS))
+        : recentre(generatedDot));
+    }
+
+    return {
+      ...ac,
+      ...levelAt(ac, seconds),
+      position: recentre(positionAt(ac, seconds)),
+      history,
+    };
+  };
+
+  const target = advance(exercise.target);
+  const intruders = exercise.intruders.map(advance);
+
+  // 🗣️ "Give traffic information NOW" - clock and distance for this exact moment
+  const situations = intruders.map((intruder, index) =>
+    describeSituation(target, intruder, exercise.situations[index].direction, clockPosition(target, intruder))
+  );
+  const solutions = situations.map((situation, index) => buildSolution(target, intruders[index], situation, index));
+
+  return { ...exercise, elapsed: seconds, target, intruders, situations, solutions };
+}
@@ -0,0 +1,197 @@
+// =============================================================================
+// 🧩 TRAFFIC SOLUTION - The Answer, Taken Apart Piece by Piece!
+// =============================================================================
+
+/**
+ * 🧠 WHAT THIS FILE DOES:
+ * A traffic call sounds like one sentence, but it is really a row of LEGO bricks:
+ *
+ * 📞 callsign → 🕐 clock → 📏 distance → ➡️ direction → 📶 level → ✈️ type → 🌪️ wake
+ *
+ * Keeping the bricks separate (instead of one long string) means we can:
+ * - Grade each brick on its own (did they get the clock right but the level wrong?)
+ * - Highlight and explain each brick on the exercise screen
+ * - Glue the bricks together in different orders (ICAO, FAA, UK - see phraseology.ts)
+ */
+
+import { parseCallsign, radiotelephonyCallsign, type CallsignKind } from './callsign';
+import { type Ac, type Situation, type TrafficSolution } from './types';
+
+type SolutionLevel = TrafficSolution['level'];
+type SolutionLevelChange = TrafficSolution['levelChange'];
+
+// =============================================================================
+// 📶 LEVEL HELPERS
+// =============================================================================
+
+/**
+ * 📶 LEVEL CHANGE DESCRIBER
+ * Is the intruder climbing or descending, and does it pass THROUGH the target's level?
+ */
+export function describeLevelChange(target: Ac, intruder: Ac): SolutionLevelChange {
+  if (!intruder.levelChange) return undefined;
+
+  const climbing = intruder.levelChange.dir === '↑';
+  const throughYourLevel = climbing
+    ? intruder.level < target.level && intruder.levelChange.to >= target.level
+    : intruder.level >= target.level && intruder.levelChange.to < target.level;
+
+  return { dir: climbing ? 'climbing' : 'descending', throughYourLevel, to: intruder.levelChange.to };
+}
+
+/**
+ * 📶 RELATIVE LEVEL DESCRIBER
+ * How far above or below the target the intruder is.
+ * Special case: an intruder AT your level that is descending through it is called
+ * "1000 feet below" - by the time the pilot looks, it will be below.
+ */
+export function describeLevel(target: Ac, intruder: Ac): SolutionLevel {
+  const levelDiff = intruder.level - target.level;
+  const levelChange = describeLevelChange(target, intruder);
+
+  if (levelDiff === 0 && levelChange?.dir === 'descending' && levelChange.throughYourLevel) {
+    return { feet: 1000, relation: 'below', altitude: intruder.level };
+  }
+
+  return {
+    feet: Math.abs(levelDiff),
+    relation: levelDiff === 0 ? 'same' : levelDiff > 0 ? 'above' : 'below',
+    altitude: intruder.level,
+  };
+}
+
+/**
+ * 📝 RELATIVE LEVEL AS WORDS
+ * "1000 feet above", "same level" or "500 feet below, climbing through your level"
+ */
+export function relativeLevelText(level: SolutionLevel, levelChange?: SolutionLevelChange): string {
+  const relative = level.relation === 'same' ? 'same level' : `${level.feet} feet ${level.relation}`;
+  return levelChange?.throughYourLevel ? `${relative}, ${levelChange.dir} through your level` : relative;
+}
+
+// =============================================================================
+// 🧱 SOLUTION BUILDER
+// =============================================================================
+
+/**
+ * 🧱 BUILD THE BRICKS FOR ONE INTRUDER
+ * Takes the airplanes and the situation and fills in every element of the call.
+ * @param index - 0 for the first intruder, 1+ for additional traffic
+ */
+export function buildSolution(target: Ac, intruder: Ac, situation: Situation, index: number): TrafficSolution {
+  return {
+    callsign: target.callsign,
+    additional: index > 0,
+    clock: situation.clock,
+    distance: situation.distance,
+    direction: situation.direction,
+    track: intruder.heading,
+    level: describeLevel(target, intruder),
+    levelChange: describeLevelChange(target, intruder),
+    type: { designator: intruder.type.type, name: intruder.type.name },
+    wake: intruder.wtc,
+  };
+}
+
+// =============================================================================
+// 💡 ELEMENT EXPLANATIONS - What Each Brick Means
+// =============================================================================
+
+/**
+ * 💡 SOLUTION ELEMENT
+ * One brick of the call as shown on the exercise screen:
+ * - label: short name ("Clock")
+ * - value: what to say for this exercise ("2 o'clock")
+ * - explanation: why that is the right thing to say
+ */
+export interface SolutionElement {
+  key: 'callsign' | 'clock' | 'distance' | 'direction' | 'level' | 'type' | 'wake';
+  label: string;
+  value: string;
+  explanation: string;
+}
+
+// 📖 Why each relative direction is called what it is
+const DIRECTION_EXPLANATIONS: Record<TrafficSolution['direction'], string> = {
+  'crossing left to right': 'The traffic comes from your left and will pass in front of you to the right.',
+  'crossing right to left': 'The traffic comes from your right and will pass in front of you to the left.',
+  'converging': 'The traffic flies a similar direction at a small angle - your paths slowly come together.',
+  'opposite direction': 'The traffic is ahead of you, flying almost straight towards you.',
+  'overtaking': 'The traffic is behind you, flying the same way but faster - it will catch up.',
+};
+
+// 📞 How each kind of callsign is said on the radio
+const CALLSIGN_EXPLANATIONS: Record<CallsignKind, string> = {
+  airline: 'Airline callsigns are said with the airline\'s telephony instead of its ICAO code, then the flight number.',
+  military: 'Military callsigns are said the way the unit speaks them, then the number.',
+  registration: 'Registrations are spelled with the phonetic alphabet.',
+};
+
+/**
+ * 💡 EXPLAIN EVERY BRICK
+ * Returns the elements in the order they are said, each with a plain-language explanation.
+ * Wake category only appears when it matters (heavy traffic).
+ * @param abbreviatedCallsign - contact is established, so registrations are shortened
+ */
+export function describeSolutionElements(solution: TrafficSolution, abbreviatedCallsign: boolean = false): SolutionElement[] {
+  const callsignKind = parseCallsign(solution.callsign).kind;
+  const abbreviationNote = abbreviatedCallsign && callsignKind === 'registration'
+    ? ' Once contact is established, only the first and last two characters are used.'
+    : '';
+
+  const elements: SolutionElement[] = [
+    {
+      key: 'callsign',
+      label: 'Callsign',
+      value: solution.additional ? 'additional traffic' : radiotelephonyCallsign(solution.callsign, abbreviatedCallsign),
+      explanation: solution.additional
+        ? 'Further contacts follow straight on from the first call, so no callsign is repeated.'
+        : `Start with the callsign (${solution.callsign}) so the right pilot knows the call is for them. ${CALLSIGN_EXPLANATIONS[callsignKind]}${abbreviationNote}`,
+    },
+    {
+      key: 'clock',
+      label: 'Clock',
+      value: `${solution.clock} o'clock`,
+      explanation: 'Where to look, relative to the nose of the aircraft: 12 is straight ahead, 3 to the right, 6 behind, 9 to the left.',
+    },
+    {
+      key: 'distance',
+      label: 'Distance',
+      value: `${solution.distance} miles`,
+      explanation: 'Current distance to the traffic, rounded to whole nautical miles.',
+    },
+    {
+      key: 'direction',
+      label: 'Direction',
+      value: solution.direction,
+      explanation: DIRECTION_EXPLANATIONS[solution.direction],
+    },
+    {
+      key: 'level',
+      label: 'Level',
+      value: relativeLevelText(solution.level, solution.levelChange),
+      explanation: solution.levelChange?.throughYourLevel
+        ? `The traffic is ${solution.levelChange.dir} to ${solution.levelChange.to}ft and will pass through your level - say so, it is the most important part!`
+        : solution.level.relation === 'same'
+          ? 'The traffic is at your level.'
+          : `The traffic is at ${solution.level.altitude}ft, ${solution.level.feet} feet ${solution.level.relation} you.`,
+    },
+    {
+      key: 'type',
+      label: 'Type',
+      value: solution.type.designator,
+      explanation: `${solution.type.name} - the type tells the pilot what size and shape to look for.`,
+    },
+  ];
+
+  if (solution.wake === 'H') {
+    elements.push({
+      key: 'wake',
+      label: 'Wake',
+      value: 'heavy',
+      explanation: 'Heavy aircraft leave strong wake turbulence, so the pilot must know.',
+    });
+  }
+
+  return elements;
+}
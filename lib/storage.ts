@@ -25,7 +25,29 @@
  * Think of it like a really smart filing cabinet that remembers everything!
  */
 
-import { Settings, SavedProgress, ExerciseSession, GamePhase } from './types';
+import { Settings, SavedProgress, ExerciseSession, GamePhase, Difficulty, ScoreMetadata, SchedulerState, Profile, AnswerMode } from './types';
+import { DEFAULT_GENERATOR_OPTIONS } from './constants';
+import type { EarnedAchievements } from './achievements';
+import {
+  type StorageAdapter,
+  createLocalStorageAdapter,
+  createMemoryStorageAdapter,
+  isIndexedDBAvailable,
+  isLocalStorageAvailable,
+  openIndexedDBAdapter,
+} from './storageAdapters';
+import {
+  ACHIEVEMENTS_SCHEMA,
+  type DataSchema,
+  HISTORY_SCHEMA,
+  PROFILES_SCHEMA,
+  PROGRESS_SCHEMA,
+  QUARANTINE_SCHEMA,
+  SCHEDULE_SCHEMA,
+  SETTINGS_SCHEMA,
+  readStored,
+  wrapForStorage,
+} from './storageSchema';
 
 // =============================================================================
 // 🗂️ STORAGE KEYS - The Labels on Our Filing Cabinet Drawers
@@ -40,16 +62,36 @@ import { Settings, SavedProgress, ExerciseSession, GamePhase } from './types';
  * 📁 PROGRESS = Where we keep their current session (so they can continue later)
  * 📁 STATISTICS = Where we keep overall performance stats (averages, bests, etc.)
  * 📁 SESSION_HISTORY = Where we keep records of all their completed sessions
+ * 📁 SCHEDULE = Where we keep when each scenario category is due again (spaced repetition)
+ * 📁 ACHIEVEMENTS = Where we keep which achievements were earned, and when
+ * 📁 QUARANTINE = Where broken saved data is kept aside instead of crashing the app
+ * 📁 PROFILES = Which trainees use this device (each has its own SETTINGS, PROGRESS,
+ *              SESSION_HISTORY, SCHEDULE and ACHIEVEMENTS drawers - see the PROFILES section)
  */
 
-// Storage keys - like labels on filing cabinet drawers
+// Storage keys - like labels on filing cabinet drawers (all start with the same prefix)
+const STORAGE_KEY_PREFIX = 'atc-ready-';
 const STORAGE_KEYS = {
   SETTINGS: 'atc-ready-settings',           // 🎛️ User preferences and settings
   PROGRESS: 'atc-ready-progress',           // 💾 Current session progress  
   STATISTICS: 'atc-ready-statistics',       // 📊 Overall performance statistics
   SESSION_HISTORY: 'atc-ready-session-history', // 📚 History of completed sessions
+  SCHEDULE: 'atc-ready-schedule',           // 🗓️ Spaced repetition due dates per scenario category
+  ACHIEVEMENTS: 'atc-ready-achievements',   // 🏅 Earned achievements and when they were earned
+  QUARANTINE: 'atc-ready-quarantine',       // 🧪 Saved data that was broken or unreadable, kept aside (whole device)
+  PROFILES: 'atc-ready-profiles',           // 👥 The trainee profiles on this device and which one is active
 } as const;
 
+// The drawers every profile has its own copy of (see profileKey)
+const PROFILE_KEYS = [
+  STORAGE_KEYS.SETTINGS,
+  STORAGE_KEYS.PROGRESS,
+  STORAGE_KEYS.STATISTICS,
+  STORAGE_KEYS.SESSION_HISTORY,
+  STORAGE_KEYS.SCHEDULE,
+  STORAGE_KEYS.ACHIEVEMENTS,
+];
+
 // =============================================================================
 // 🎛️ DEFAULT SETTINGS - Starting Values for New Users
 // =============================================================================
@@ -61,40 +103,74 @@ const STORAGE_KEYS = {
  * 
  * 📊 totalExercises: 10 = A good number for a training session (not too short, not too long)
  * 💾 saveProgress: true = Most people want their progress saved automatically
+ * 🎛️ generator: standard traffic mix (all directions, 75% VFR, 10% military, 30% level changes)
  */
 
 // Default settings for new users (like "factory defaults")
 export const DEFAULT_SETTINGS: Settings = {
   totalExercises: 10,    // 📊 Default to 10 exercises per session (good balance)
   saveProgress: true,    // 💾 Save progress by default (most users want this)
+  generator: DEFAULT_GENERATOR_OPTIONS, // 🎛️ Standard traffic mix for the generator
+  phraseology: 'icao',   // 🗣️ ICAO wording unless the user picks a regional profile
+  answerMode: 'self',    // ⭐ Self-assessment by default (typing is optional)
+  abbreviatedCallsigns: false, // 📞 Full callsigns until the user practises established contact
+  spacedRepetition: false, // 🗓️ Keep the configured traffic mix unless the user asks for due scenarios first
+  adaptiveDifficulty: false, // 🎯 Keep the chosen traffic mix unless the user asks for adaptive practice
+  dailyGoal: 10,         // 🏅 One default session a day
 };
 
 // =============================================================================
-// 🔍 STORAGE AVAILABILITY CHECKER - Does This Browser Support Storage?
+// 🗄️ STORAGE ADAPTER - Which Filing Cabinet Are We Using?
 // =============================================================================
 
 /**
- * 🕵️ STORAGE AVAILABILITY CHECK EXPLAINED:
- * Not all browsers or situations support localStorage (like private/incognito mode).
- * This function checks if we can actually save things before we try to!
- * 
- * It works by:
- * 1️⃣ Trying to save a test message
- * 2️⃣ Trying to remove the test message  
- * 3️⃣ If both work, storage is available! ✅
- * 4️⃣ If either fails, storage is not available ❌
+ * 🗄️ STORAGE ADAPTER EXPLAINED:
+ * Everything below goes through ONE adapter (see storageAdapters.ts):
+ *
+ * 🗃️ localStorage by default (or in-memory when the browser has none)
+ * 🏛️ IndexedDB once initializeStorage() has opened it, so history can outgrow localStorage
+ * 🧠 In-memory in tests - setStorageAdapter(createMemoryStorageAdapter())
+ */
+
+let adapter: StorageAdapter | null = null;
+
+// The adapter in use (picked on first use: localStorage if it works, memory otherwise)
+export function getStorageAdapter(): StorageAdapter {
+  if (!adapter) adapter = isLocalStorageAvailable() ? createLocalStorageAdapter() : createMemoryStorageAdapter();
+  return adapter;
+}
+
+// Swap the adapter (IndexedDB at startup, in-memory in tests)
+export function setStorageAdapter(storageAdapter: StorageAdapter): void {
+  adapter = storageAdapter;
+}
+
+/**
+ * 🏛️ INITIALIZE STORAGE EXPLAINED:
+ * Called once when the app starts, before anything is loaded:
+ *
+ * 1️⃣ Open IndexedDB (if the browser has it)
+ * 2️⃣ First time only: copy our drawers over from localStorage (the old copies stay as they are)
+ * 3️⃣ Use IndexedDB from now on
+ *
+ * If IndexedDB can't be opened (e.g. some private modes) we simply stay on localStorage.
  */
+export async function initializeStorage(): Promise<StorageAdapter> {
+  if (!isIndexedDBAvailable() || getStorageAdapter().name === 'indexedDB') return getStorageAdapter();
 
-// Check if localStorage is available (some browsers/modes don't support it)
-function isLocalStorageAvailable(): boolean {
   try {
-    const test = '__localStorage_test__';  // 🧪 Test message to try saving
-    localStorage.setItem(test, test);      // 💾 Try to save it
-    localStorage.removeItem(test);         // 🗑️ Try to remove it
-    return true;                          // ✅ Both worked! Storage is available
-  } catch {
-    return false;                         // ❌ Something failed! Storage not available
+    const indexedDBAdapter = await openIndexedDBAdapter({ onWriteError: retryLostWrite });
+    const previous = getStorageAdapter();
+    if (indexedDBAdapter.keys().length === 0) {
+      previous.keys()
+        .filter(key => key.startsWith(STORAGE_KEY_PREFIX))
+        .forEach(key => indexedDBAdapter.setItem(key, previous.getItem(key)!));
+    }
+    setStorageAdapter(indexedDBAdapter);
+  } catch (error) {
+    console.warn('IndexedDB unavailable, staying on localStorage:', error);
   }
+  return getStorageAdapter();
 }
 
 // =============================================================================
@@ -106,26 +182,44 @@ function isLocalStorageAvailable(): boolean {
  * This function tries to load saved data from browser storage. It's like
  * opening a filing cabinet drawer and looking for a specific document:
  * 
- * 1️⃣ First check if the filing cabinet is available (storage works)
+ * 1️⃣ Ask the filing cabinet (the storage adapter) for the drawer
  * 2️⃣ Try to open the drawer and look for the document (get the item)
- * 3️⃣ If we find it, try to read it (parse the JSON)
- * 4️⃣ If anything goes wrong, just use the default value
+ * 3️⃣ If we find it, read it with the drawer's schema (see storageSchema.ts):
+ *     upgrade old versions, check the shape, turn date strings back into Dates
+ * 4️⃣ Broken parts go to quarantine; if nothing is usable, the whole document does
+ *     and we use the default value
+ * 5️⃣ If it was upgraded or repaired, save the clean version back (so this happens once)
  * 
  * It's very safe - if anything fails, we always return something sensible!
  */
 
-// Generic function to get data from storage (with safe error handling)
-function getFromStorage<T>(key: string, defaultValue: T): T {
-  if (!isLocalStorageAvailable()) return defaultValue;  // 🚫 No storage? Use default
-  
+// Generic function to get data from storage (with validation, migrations and quarantine)
+function getFromStorage<T, D>(key: string, defaultValue: D, schema: DataSchema<T>): T | D {
+  let item: string | null;
   try {
-    const item = localStorage.getItem(key);              // 🔍 Look for the saved data
-    if (item === null) return defaultValue;             // 📭 Nothing found? Use default
-    return JSON.parse(item);                            // 📄 Found it! Read and return it
+    item = getStorageAdapter().getItem(key);            // 🔍 Look for the saved data
   } catch (error) {
-    console.warn(`Failed to parse localStorage item "${key}":`, error); // 🚨 Log the problem
+    console.warn(`Failed to read stored item "${key}":`, error); // 🚨 Log the problem
     return defaultValue;                                // 🛡️ Something went wrong? Use default
   }
+  if (item === null) return defaultValue;               // 📭 Nothing found? Use default
+
+  const result = readStored(item, schema);              // 📄 Found it! Upgrade and check it
+  if (!result.ok) {
+    console.warn(`Stored item "${key}" is unusable (${result.reason}), moved to quarantine`); // 🚨 Log the problem
+    quarantine(key, result.reason, item);               // 🧪 Keep the original text aside
+    removeFromStorage(key);                             // 🗑️ Don't trip over it again
+    return defaultValue;                                // 🛡️ Use default
+  }
+
+  if (result.corrupt.length > 0) {
+    console.warn(`Stored item "${key}" had ${result.corrupt.length} broken entries, moved to quarantine`);
+    quarantine(key, 'broken entries left out', result.corrupt); // 🧪 Keep the broken parts aside
+  }
+  if (result.migrated || result.corrupt.length > 0) {
+    setToStorage(key, result.value);                    // 💾 Save the upgraded/repaired version
+  }
+  return result.value;                                  // ✅ Clean, current-version data
 }
 
 /**
@@ -133,9 +227,9 @@ function getFromStorage<T>(key: string, defaultValue: T): T {
  * This function tries to save data to browser storage. It's like writing
  * on a document and putting it in a filing cabinet drawer:
  * 
- * 1️⃣ First check if the filing cabinet is available (storage works)
- * 2️⃣ Try to write the document (convert data to JSON)
- * 3️⃣ Try to put it in the drawer (save to localStorage)
+ * 1️⃣ Ask the filing cabinet (the storage adapter) for the drawer
+ * 2️⃣ Try to write the document (label it with the schema version, convert to JSON)
+ * 3️⃣ Try to put it in the drawer (save it with the storage adapter)
  * 4️⃣ Return true if it worked, false if it didn't
  * 
  * It returns true/false so the calling code knows if the save worked!
@@ -143,13 +237,11 @@ function getFromStorage<T>(key: string, defaultValue: T): T {
 
 // Generic function to save data to storage (with safe error handling)
 function setToStorage<T>(key: string, value: T): boolean {
-  if (!isLocalStorageAvailable()) return false;        // 🚫 No storage? Can't save
-  
   try {
-    localStorage.setItem(key, JSON.stringify(value));   // 💾 Convert to text and save
+    getStorageAdapter().setItem(key, JSON.stringify(wrapForStorage(value))); // 💾 Add the version label, convert to text and save
     return true;                                        // ✅ Success!
   } catch (error) {
-    console.warn(`Failed to save to localStorage "${key}":`, error); // 🚨 Log the problem
+    console.warn(`Failed to save stored item "${key}":`, error); // 🚨 Log the problem (e.g. quota full)
     return false;                                       // ❌ Something went wrong
   }
 }
@@ -159,7 +251,7 @@ function setToStorage<T>(key: string, value: T): boolean {
  * This function tries to delete saved data from browser storage. It's like
  * throwing away a document from the filing cabinet:
  * 
- * 1️⃣ First check if the filing cabinet is available (storage works)
+ * 1️⃣ Ask the filing cabinet (the storage adapter) for the drawer
  * 2️⃣ Try to remove the document from the drawer
  * 3️⃣ Return true if it worked, false if it didn't
  * 
@@ -168,13 +260,11 @@ function setToStorage<T>(key: string, value: T): boolean {
 
 // Generic function to remove data from storage (with safe error handling)
 function removeFromStorage(key: string): boolean {
-  if (!isLocalStorageAvailable()) return false;        // 🚫 No storage? Can't remove
-  
   try {
-    localStorage.removeItem(key);                       // 🗑️ Remove the saved data
+    getStorageAdapter().removeItem(key);                // 🗑️ Remove the saved data
     return true;                                        // ✅ Success (even if it wasn't there)
   } catch (error) {
-    console.warn(`Failed to remove from localStorage "${key}":`, error); // 🚨 Log the problem
+    console.warn(`Failed to remove stored item "${key}":`, error); // 🚨 Log the problem
     return false;                                       // ❌ Something went wrong
   }
 }
@@ -190,13 +280,23 @@ function removeFromStorage(key: string): boolean {
  * 
  * 🔍 Look for their saved settings in the SETTINGS drawer
  * 📋 If nothing is found, use the default settings instead
+ * 🧩 Settings saved by an older version may miss newer fields - fill those from the defaults
  * 
  * This way, new users get good defaults, and returning users get their preferences!
  */
 
-// Load user settings from storage (or use defaults for new users)
-export function loadSettings(): Settings {
-  return getFromStorage(STORAGE_KEYS.SETTINGS, DEFAULT_SETTINGS); // 📥 Get settings or defaults
+// Load user settings from storage (or use defaults for new users) - the active profile unless another is given
+export function loadSettings(profileId?: string): Settings {
+  return withDefaultSettings(getFromStorage(profileKey(STORAGE_KEYS.SETTINGS, profileId), {}, SETTINGS_SCHEMA)); // 📥 Get whatever was saved
+}
+
+// Fill the gaps in saved (or imported) settings from the defaults (or from other settings, e.g. the current ones)
+export function withDefaultSettings(saved: Partial<Settings>, base: Settings = DEFAULT_SETTINGS): Settings {
+  return {
+    ...base,                                                 // 📋 Start from the defaults
+    ...saved,                                                // 🎛️ Apply the user's preferences
+    generator: { ...base.generator, ...saved.generator },    // 🧩 Fill in missing generator options
+  };
 }
 
 /**
@@ -210,7 +310,7 @@ export function loadSettings(): Settings {
 
 // Save user settings to storage 
 export function saveSettings(settings: Settings): boolean {
-  return setToStorage(STORAGE_KEYS.SETTINGS, settings); // 💾 Save settings to storage
+  return setToStorage(profileKey(STORAGE_KEYS.SETTINGS), settings); // 💾 Save settings to storage
 }
 
 // =============================================================================
@@ -231,7 +331,7 @@ export function saveSettings(settings: Settings): boolean {
 
 // Load any saved in-progress session (or null if none exists)
 export function loadProgress(): SavedProgress | null {
-  return getFromStorage<SavedProgress | null>(STORAGE_KEYS.PROGRESS, null); // 📥 Get progress or null
+  return getFromStorage(profileKey(STORAGE_KEYS.PROGRESS), null, PROGRESS_SCHEMA); // 📥 Get progress (dates revived) or null
 }
 
 /**
@@ -267,7 +367,7 @@ export function saveProgress(
     savedAt: new Date().toISOString(), // 📅 When we saved this (for debugging)
   };
   
-  return setToStorage(STORAGE_KEYS.PROGRESS, progress); // 💾 Save the progress bundle
+  return setToStorage(profileKey(STORAGE_KEYS.PROGRESS), progress); // 💾 Save the progress bundle
 }
 
 /**
@@ -283,7 +383,7 @@ export function saveProgress(
 
 // Remove any saved progress (when session ends or user starts fresh)
 export function clearProgress(): boolean {
-  return removeFromStorage(STORAGE_KEYS.PROGRESS); // 🗑️ Remove saved progress
+  return removeFromStorage(profileKey(STORAGE_KEYS.PROGRESS)); // 🗑️ Remove saved progress
 }
 
 /**
@@ -346,10 +446,16 @@ export interface CompletedSession {
   scorePercentage: number;      // 📈 Performance percentage for this session
   duration: number; // in minutes // ⏱️ How long the session took
   completedAt: string;          // 📅 When they finished this session
+  difficulty?: Difficulty;      // 🎚️ Difficulty preset used (missing in older records)
+  answerMode?: AnswerMode;      // 🎙️ Self-assessed, typed or spoken (missing in older records)
+  compacted?: boolean;          // 🗜️ Per-exercise scores dropped to make room (totals kept)
   scores: Array<{              // 📝 Detailed record of each exercise:
     option: string;             //   What they rated themselves (Perfect/Good/etc.)
     points: number;             //   How many points they earned  
     timestamp: string;          //   When they submitted this answer
+    exercise?: ScoreMetadata;   //   The scenario they were scored on (missing in older records)
+    replay?: boolean;           //   Scored on a replay of a missed exercise
+    seconds?: number;           //   How long they took to rate it
   }>;
 }
 
@@ -363,9 +469,14 @@ export interface CompletedSession {
  * 📊 If found, return the complete history of their training
  */
 
-// Load complete history of finished training sessions
-export function loadSessionHistory(): CompletedSession[] {
-  return getFromStorage<CompletedSession[]>(STORAGE_KEYS.SESSION_HISTORY, []); // 📥 Get history or empty list
+// Load complete history of finished training sessions (the active profile unless another is given)
+export function loadSessionHistory(profileId?: string): CompletedSession[] {
+  return getFromStorage(profileKey(STORAGE_KEYS.SESSION_HISTORY, profileId), [], HISTORY_SCHEMA); // 📥 Get history or empty list
+}
+
+// Replace the whole history (used when importing a backup)
+export function saveSessionHistory(history: CompletedSession[]): boolean {
+  return setToStorage(profileKey(STORAGE_KEYS.SESSION_HISTORY), history); // 💾 Save the history
 }
 
 /**
@@ -378,8 +489,10 @@ export function loadSessionHistory(): CompletedSession[] {
  *     - What percentage they scored
  *     - How many exercises they completed
  * 📝 Create a detailed session record with all their scores
- * 📚 Add it to their history (keeping only last 50 to save space)
+ * 📚 Add it to their history - ALL of it is kept (IndexedDB has plenty of room)
  * 💾 Save the updated history
+ * 🗜️ If storage is full, older sessions keep only their totals and we try again -
+ *     right away on localStorage, once the write is lost on IndexedDB (see retryLostWrite)
  * 
  * This creates a permanent record they can look back on to track improvement!
  */
@@ -401,17 +514,60 @@ export function saveCompletedSession(session: ExerciseSession): boolean {
     scorePercentage: (session.totalScore / maxPossibleScore) * 100, // 📈 Performance percentage
     duration,                                             // ⏱️ How long it took (minutes)
     completedAt: new Date().toISOString(),                // 📅 When they finished
+    difficulty: session.difficulty,                       // 🎚️ Which difficulty preset they trained on
+    answerMode: session.answerMode,                       // 🎙️ How they answered
     scores: session.scores.map(score => ({               // 📝 Convert scores to saveable format
       option: score.option,                               //   Their self-assessment
       points: score.points,                               //   Points earned
       timestamp: score.timestamp.toISOString(),           //   When they submitted it
+      exercise: score.exercise,                           //   The scenario behind the score
+      replay: score.replay,                               //   First try or a replay
+      seconds: score.seconds,                             //   Time taken (the exercise itself stays out of history)
     })),
   };
   
-  // 📚 Add to history but keep storage manageable (last 50 sessions only)
-  const updatedHistory = [completedSession, ...history].slice(0, 50);
+  // 📚 Add to history (nothing is dropped)
+  const updatedHistory = [completedSession, ...history];
+  const key = profileKey(STORAGE_KEYS.SESSION_HISTORY);
   
-  return setToStorage(STORAGE_KEYS.SESSION_HISTORY, updatedHistory); // 💾 Save updated history
+  return setToStorage(key, updatedHistory) ||             // 💾 Save updated history
+    setToStorage(key, compactHistory(updatedHistory));    // 🗜️ Storage full? Save it compacted instead
+}
+
+const DETAILED_SESSIONS = 50; // 🔍 The newest sessions always keep their per-exercise scores
+
+/**
+ * 🗜️ COMPACT HISTORY EXPLAINED:
+ * When storage runs out of room, sessions older than the newest 50 keep their
+ * totals (score, percentage, duration, date...) but drop the per-exercise scores,
+ * which take most of the space. Statistics and charts still count them; only the
+ * scenario breakdown loses their details.
+ */
+export function compactHistory(history: CompletedSession[]): CompletedSession[] {
+  return history.map((session, index) =>
+    index < DETAILED_SESSIONS || session.compacted ? session : { ...session, scores: [], compacted: true }
+  );
+}
+
+/**
+ * 🗜️ RETRY A LOST WRITE EXPLAINED:
+ * IndexedDB stores writes in the background, so a full quota only shows up after
+ * saveCompletedSession has returned. The adapter tells us here instead: a lost
+ * history is saved again compacted (if compacting leaves anything out).
+ */
+export function retryLostWrite(key: string, value: string | null): void {
+  if (value === null || !key.endsWith(STORAGE_KEYS.SESSION_HISTORY.slice(STORAGE_KEY_PREFIX.length))) return;
+  const result = readStored(value, HISTORY_SCHEMA);
+  if (!result.ok) return;
+  const compacted = compactHistory(result.value);
+  if (compacted.some((session, index) => session !== result.value[index])) setToStorage(key, compacted);
+}
+
+// Delete one session from the history
+export function deleteSession(sessionId: string): boolean {
+  const history = loadSessionHistory();
+  const remaining = history.filter(session => session.id !== sessionId);
+  return remaining.length < history.length && saveSessionHistory(remaining);
 }
 
 /**
@@ -433,8 +589,11 @@ export function saveCompletedSession(session: ExerciseSession): boolean {
 
 // Calculate comprehensive statistics across all completed sessions
 export function getSessionStatistics(): SessionStats {
-  const history = loadSessionHistory();                    // 📚 Get complete session history
-  
+  return summarizeSessions(loadSessionHistory());          // 📚 Get complete session history
+}
+
+// The same statistics for any list of sessions (e.g. the history browser's filtered results)
+export function summarizeSessions(history: CompletedSession[]): SessionStats {
   // 🚫 If no sessions completed yet, return empty statistics
   if (history.length === 0) {
     return {
@@ -476,3 +635,185 @@ export function getSessionStatistics(): SessionStats {
     lastPlayed: history[0]?.completedAt || '',
   };
 }
+
+// =============================================================================
+// 🗓️ SPACED REPETITION SCHEDULE - When Is Each Scenario Due Again?
+// =============================================================================
+
+/**
+ * 🗓️ SCHEDULE EXPLAINED:
+ * Every scenario category (direction × flight rules × level change) has its own
+ * SM-2 record: how often it was passed in a row, its interval, ease factor and
+ * due date. It lives in its own drawer, so it survives finished sessions.
+ */
+
+// Load the spaced repetition schedule (empty for new users; the active profile unless another is given)
+export function loadSchedule(profileId?: string): SchedulerState {
+  return getFromStorage(profileKey(STORAGE_KEYS.SCHEDULE, profileId), {}, SCHEDULE_SCHEMA); // 📥 Get schedule or empty
+}
+
+// Save the spaced repetition schedule
+export function saveSchedule(schedule: SchedulerState): boolean {
+  return setToStorage(profileKey(STORAGE_KEYS.SCHEDULE), schedule); // 💾 Save the schedule
+}
+
+// =============================================================================
+// 🏅 ACHIEVEMENTS - Milestones That Stay Earned
+// =============================================================================
+
+/**
+ * 🏅 ACHIEVEMENTS EXPLAINED:
+ * Which achievements the trainee has earned and when (see achievements.ts).
+ * They live in their own drawer, so deleting old sessions doesn't take them away.
+ */
+
+// Load the earned achievements (none for new users; the active profile unless another is given)
+export function loadAchievements(profileId?: string): EarnedAchievements {
+  return getFromStorage(profileKey(STORAGE_KEYS.ACHIEVEMENTS, profileId), {}, ACHIEVEMENTS_SCHEMA); // 📥 Get achievements or none
+}
+
+// Save the earned achievements
+export function saveAchievements(achievements: EarnedAchievements): boolean {
+  return setToStorage(profileKey(STORAGE_KEYS.ACHIEVEMENTS), achievements); // 💾 Save the achievements
+}
+
+// =============================================================================
+// 🧪 QUARANTINE - Broken Saved Data, Kept Aside
+// =============================================================================
+
+/**
+ * 🧪 QUARANTINE EXPLAINED:
+ * When a drawer holds something we can't use (half-written JSON, a wrong shape,
+ * data from a newer version of the app), we don't crash and we don't throw it
+ * away either. It goes into the QUARANTINE drawer with the reason, so it can be
+ * inspected or recovered later. Only the newest few are kept.
+ */
+
+const MAX_QUARANTINED_ITEMS = 20; // 🔢 Older quarantined items are dropped
+
+// One piece of broken data that was taken out of a drawer
+export interface QuarantinedItem {
+  key: string;           // 🔑 The drawer it came from
+  reason: string;        // ❓ Why it couldn't be used
+  data: unknown;         // 📦 The original text (unusable drawer) or the broken entries
+  quarantinedAt: string; // 📅 When it was taken out
+}
+
+// Load everything in quarantine (newest first); a broken quarantine simply starts over
+export function loadQuarantine(): QuarantinedItem[] {
+  try {
+    const item = getStorageAdapter().getItem(STORAGE_KEYS.QUARANTINE);
+    const result = item === null ? undefined : readStored(item, QUARANTINE_SCHEMA);
+    return result?.ok ? result.value : [];
+  } catch {
+    return [];
+  }
+}
+
+// Put broken data in quarantine
+function quarantine(key: string, reason: string, data: unknown): boolean {
+  const item: QuarantinedItem = { key, reason, data, quarantinedAt: new Date().toISOString() };
+  return setToStorage(STORAGE_KEYS.QUARANTINE, [item, ...loadQuarantine()].slice(0, MAX_QUARANTINED_ITEMS));
+}
+
+// Empty the quarantine
+export function clearQuarantine(): boolean {
+  return removeFromStorage(STORAGE_KEYS.QUARANTINE);
+}
+
+// =============================================================================
+// 👥 PROFILES - One Filing Cabinet, Several Trainees
+// =============================================================================
+
+/**
+ * 👥 PROFILES EXPLAINED:
+ * Classroom computers are shared, so each trainee gets a named profile with
+ * their OWN settings, progress, history and schedule drawers:
+ *
+ * 🗂️ The first profile ("default") keeps the original drawer names, so everything
+ *    saved before profiles existed simply belongs to it
+ * 🗂️ Other profiles get their own labels: 'atc-ready-profile-<id>-settings', ...
+ * 🔀 Switching profiles just changes which labels are used from then on
+ *
+ * The PROFILES drawer lists the profiles and remembers the active one.
+ */
+
+export const DEFAULT_PROFILE_ID = 'default';
+const DEFAULT_PROFILE_NAME = 'Trainee';  // 🏷️ Name of the first profile until it is renamed
+const MAX_PROFILE_NAME_LENGTH = 40;
+
+// Everyone on this device and who is training right now
+export interface ProfileRegistry {
+  profiles: Profile[];
+  activeProfileId: string;
+}
+
+// The drawer label for a profile (the active one unless another is given)
+function profileKey(key: string, profileId: string = loadProfiles().activeProfileId): string {
+  if (profileId === DEFAULT_PROFILE_ID) return key; // 🗂️ The first profile keeps the original labels
+  return `${STORAGE_KEY_PREFIX}profile-${profileId}-${key.slice(STORAGE_KEY_PREFIX.length)}`;
+}
+
+// Load the profiles (a device without any has just the default profile)
+export function loadProfiles(): ProfileRegistry {
+  const registry = getFromStorage(STORAGE_KEYS.PROFILES, null, PROFILES_SCHEMA);
+  if (!registry || registry.profiles.length === 0) {
+    return { profiles: [{ id: DEFAULT_PROFILE_ID, name: DEFAULT_PROFILE_NAME, createdAt: '' }], activeProfileId: DEFAULT_PROFILE_ID };
+  }
+  const active = registry.profiles.some(profile => profile.id === registry.activeProfileId);
+  return active ? registry : { ...registry, activeProfileId: registry.profiles[0].id }; // 🛟 Active profile missing? Use the first
+}
+
+// The profile that is training right now
+export function getActiveProfile(): Profile {
+  const { profiles, activeProfileId } = loadProfiles();
+  return profiles.find(profile => profile.id === activeProfileId)!;
+}
+
+// Tidy a name typed by the user (empty names are not allowed)
+function cleanProfileName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').slice(0, MAX_PROFILE_NAME_LENGTH);
+}
+
+// Add a profile (it becomes active only when switched to) - null if the name is empty or saving failed
+export function createProfile(name: string): Profile | null {
+  const registry = loadProfiles();
+  const cleanName = cleanProfileName(name);
+  if (!cleanName) return null;
+
+  let id = Date.now().toString(36);                      // 🆔 Short, unique id from the time
+  while (registry.profiles.some(profile => profile.id === id)) id += '0';
+  const profile: Profile = { id, name: cleanName, createdAt: new Date().toISOString() };
+  return setToStorage(STORAGE_KEYS.PROFILES, { ...registry, profiles: [...registry.profiles, profile] }) ? profile : null;
+}
+
+// Make another profile the active one
+export function switchProfile(profileId: string): boolean {
+  const registry = loadProfiles();
+  if (!registry.profiles.some(profile => profile.id === profileId)) return false;
+  return setToStorage(STORAGE_KEYS.PROFILES, { ...registry, activeProfileId: profileId });
+}
+
+// Give a profile a new name
+export function renameProfile(profileId: string, name: string): boolean {
+  const registry = loadProfiles();
+  const cleanName = cleanProfileName(name);
+  if (!cleanName || !registry.profiles.some(profile => profile.id === profileId)) return false;
+  const profiles = registry.profiles.map(profile => profile.id === profileId ? { ...profile, name: cleanName } : profile);
+  return setToStorage(STORAGE_KEYS.PROFILES, { ...registry, profiles });
+}
+
+/**
+ * 🗑️ DELETE A PROFILE
+ * Empties all of the profile's drawers. The last profile can't be deleted; if the
+ * active profile is deleted, the first remaining one becomes active.
+ */
+export function deleteProfile(profileId: string): boolean {
+  const registry = loadProfiles();
+  if (registry.profiles.length <= 1 || !registry.profiles.some(profile => profile.id === profileId)) return false;
+
+  PROFILE_KEYS.forEach(key => removeFromStorage(profileKey(key, profileId))); // 🗑️ Empty its drawers
+  const profiles = registry.profiles.filter(profile => profile.id !== profileId);
+  const activeProfileId = registry.activeProfileId === profileId ? profiles[0].id : registry.activeProfileId;
+  return setToStorage(STORAGE_KEYS.PROFILES, { profiles, activeProfileId });
+}
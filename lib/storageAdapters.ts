@@ -0,0 +1,205 @@
+// =============================================================================
+// 🗄️ STORAGE ADAPTERS - Different Filing Cabinets, Same Drawers!
+// =============================================================================
+
+/**
+ * 🧠 WHAT THIS FILE DOES:
+ * storage.ts decides WHAT we keep (settings, progress, history...). This file
+ * decides WHERE it is kept. Every adapter has the same tiny set of drawers:
+ * getItem / setItem / removeItem / keys - always with text (JSON) inside.
+ *
+ * 🗃️ localStorage = the classic browser filing cabinet (small: ~5 MB)
+ * 🏛️ IndexedDB    = the browser's big archive, so history can keep growing
+ * 🧠 In-memory    = a pretend cabinet that forgets everything - perfect for tests in Node
+ *
+ * 🏛️ IndexedDB only answers asynchronously, but the rest of the app reads
+ * storage synchronously. So the IndexedDB adapter reads EVERYTHING into memory
+ * once when it opens, answers from that copy, and writes changes through in
+ * the background. Other tabs hear about every stored change (BroadcastChannel),
+ * so two open tabs never save over each other's history with a stale copy.
+ */
+
+/**
+ * 🗄️ STORAGE ADAPTER
+ * setItem and removeItem throw when the backend refuses right away (e.g. the
+ * localStorage quota is full). IndexedDB writes are fire-and-forget: they return
+ * before anything is stored, and a write lost later is reported to the
+ * adapter's onWriteError instead (see openIndexedDBAdapter).
+ */
+export interface StorageAdapter {
+  name: 'localStorage' | 'indexedDB' | 'memory';
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  keys(): string[];
+}
+
+// =============================================================================
+// 🗃️ LOCAL STORAGE
+// =============================================================================
+
+/**
+ * 🕵️ IS LOCAL STORAGE AVAILABLE?
+ * Not all browsers or situations support it (private mode, server rendering).
+ * We try to save and remove a test message - if both work, it's available.
+ */
+export function isLocalStorageAvailable(): boolean {
+  try {
+    const test = '__localStorage_test__';  // 🧪 Test message to try saving
+    localStorage.setItem(test, test);      // 💾 Try to save it
+    localStorage.removeItem(test);         // 🗑️ Try to remove it
+    return true;                           // ✅ Both worked! Storage is available
+  } catch {
+    return false;                          // ❌ Something failed! Storage not available
+  }
+}
+
+// 🗃️ The browser's localStorage, as an adapter
+export function createLocalStorageAdapter(): StorageAdapter {
+  return {
+    name: 'localStorage',
+    getItem: key => localStorage.getItem(key),
+    setItem: (key, value) => localStorage.setItem(key, value),
+    removeItem: key => localStorage.removeItem(key),
+    keys: () => Array.from({ length: localStorage.length }, (_, index) => localStorage.key(index))
+      .filter((key): key is string => key !== null),
+  };
+}
+
+// =============================================================================
+// 🧠 IN-MEMORY
+// =============================================================================
+
+/**
+ * 🧠 IN-MEMORY ADAPTER
+ * Keeps everything in a Map - gone when the page (or test) ends.
+ * @param initial - drawers to start with, e.g. { 'atc-ready-settings': '{...}' }
+ */
+export function createMemoryStorageAdapter(initial: Record<string, string> = {}): StorageAdapter {
+  const items = new Map(Object.entries(initial));
+  return {
+    name: 'memory',
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => { items.set(key, value); },
+    removeItem: key => { items.delete(key); },
+    keys: () => [...items.keys()],
+  };
+}
+
+// =============================================================================
+// 🏛️ INDEXED DB
+// =============================================================================
+
+const INDEXED_DB_NAME = 'atc-ready';
+const INDEXED_DB_STORE = 'items';
+
+// 🕵️ Does this browser have IndexedDB at all?
+export function isIndexedDBAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+// 📣 What a tab tells the others after storing a change (value null = removed)
+interface StoredChange {
+  key: string;
+  value: string | null;
+}
+
+export interface IndexedDBAdapterOptions {
+  databaseName?: string;
+  // 🚨 A background write was lost (quota full, transaction aborted); the adapter already went back to the stored value
+  onWriteError?: (key: string, value: string | null, error: unknown) => void;
+}
+
+/**
+ * 🏛️ OPEN THE INDEXED DB ADAPTER
+ * Resolves once every stored item has been read into memory.
+ *
+ * 💾 Each change is written in its own background transaction. If it fails,
+ *    the in-memory copy goes back to what IndexedDB still holds (unless a newer
+ *    change to the same item is on its way) and onWriteError is told.
+ * 📣 Stored changes are announced to the other tabs, which update their copy -
+ *    except for items they are still writing themselves.
+ */
+export function openIndexedDBAdapter({ databaseName = INDEXED_DB_NAME, onWriteError }: IndexedDBAdapterOptions = {}): Promise<StorageAdapter> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(databaseName, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(INDEXED_DB_STORE);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const database = request.result;
+      const items = new Map<string, string>();      // 🧠 What this tab reads from
+      const stored = new Map<string, string>();     // 💾 What IndexedDB is known to hold
+      const pending = new Map<string, number>();    // ⏳ The newest unfinished write per item
+      let writes = 0;
+      const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(`${databaseName}-changes`) : null;
+
+      const apply = (map: Map<string, string>, { key, value }: StoredChange) => {
+        if (value === null) map.delete(key);
+        else map.set(key, value);
+      };
+
+      // ✍️ Write one change in the background
+      const write = (change: StoredChange) => {
+        const transaction = database.transaction(INDEXED_DB_STORE, 'readwrite');
+        const store = transaction.objectStore(INDEXED_DB_STORE);
+        if (change.value === null) store.delete(change.key);
+        else store.put(change.value, change.key);
+
+        const id = ++writes;
+        pending.set(change.key, id);
+        apply(items, change);
+
+        const settle = () => {
+          const newest = pending.get(change.key) === id;
+          if (newest) pending.delete(change.key);
+          return newest;
+        };
+        transaction.oncomplete = () => {
+          settle();
+          apply(stored, change);
+          channel?.postMessage(change);
+        };
+        // 🚨 A full quota aborts the transaction (onabort also follows a failed request, so handle it once)
+        let failed = false;
+        const fail = () => {
+          if (failed) return;
+          failed = true;
+          if (settle()) apply(items, { key: change.key, value: stored.get(change.key) ?? null });
+          console.warn(`Failed to write IndexedDB item "${change.key}":`, transaction.error);
+          onWriteError?.(change.key, change.value, transaction.error);
+        };
+        transaction.onerror = fail;
+        transaction.onabort = fail;
+      };
+
+      const adapter: StorageAdapter = {
+        name: 'indexedDB',
+        getItem: key => items.get(key) ?? null,
+        setItem: (key, value) => write({ key, value }),
+        removeItem: key => write({ key, value: null }),
+        keys: () => [...items.keys()],
+      };
+
+      // 📣 Another tab stored a change
+      if (channel) {
+        channel.onmessage = ({ data }: MessageEvent<StoredChange>) => {
+          apply(stored, data);
+          if (!pending.has(data.key)) apply(items, data);
+        };
+      }
+
+      // 📥 Read everything once
+      const transaction = database.transaction(INDEXED_DB_STORE, 'readonly');
+      const cursorRequest = transaction.objectStore(INDEXED_DB_STORE).openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        items.set(String(cursor.key), String(cursor.value));
+        stored.set(String(cursor.key), String(cursor.value));
+        cursor.continue();
+      };
+      transaction.oncomplete = () => resolve(adapter);
+      transaction.onerror = () => reject(transaction.error);
+    };
+  });
+}
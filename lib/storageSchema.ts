@@ -0,0 +1,373 @@
+// =============================================================================
+// 🧾 STORAGE SCHEMA - Version Labels, Health Checks and Repairs for Saved Data
+// =============================================================================
+
+/**
+ * 🧠 WHAT THIS FILE DOES:
+ * Everything we save is wrapped in a tiny envelope with a version number:
+ *
+ *   { "schemaVersion": 2, "data": ... }
+ *
+ * When a drawer is opened again we:
+ * 1️⃣ Read the version (no envelope = version 1, saved before versions existed)
+ * 2️⃣ Run the migrations one version at a time up to the current version
+ * 3️⃣ Check the data really has the shape the app expects (JSON can contain anything!)
+ * 4️⃣ Turn date strings back into Date objects where the app uses Dates
+ *
+ * Nothing here throws at the app. Broken parts are handed back to storage.ts,
+ * which puts them in quarantine (a separate drawer) and carries on without them.
+ */
+
+import type { EarnedAchievements } from './achievements';
+import type { CompletedSession, ProfileRegistry, QuarantinedItem } from './storage';
+import {
+  ASSESSMENT_POINTS,
+  type AnswerMode,
+  type AssessmentScore,
+  type CategorySchedule,
+  type Difficulty,
+  type Exercise,
+  type GamePhase,
+  type GeneratorOptions,
+  type Phraseology,
+  type Profile,
+  type SavedProgress,
+  type SchedulerState,
+  type Settings,
+} from './types';
+import { DEFAULT_GENERATOR_OPTIONS, DIFFICULTY_PRESETS, DIRECTION_WEIGHTS } from './constants';
+import { PHRASEOLOGY_PROFILES } from './phraseology';
+
+// 🔢 The version written with every save (bump it and add a migration when the shape changes)
+export const STORAGE_SCHEMA_VERSION = 2;
+
+// ✉️ What actually ends up in storage
+export interface StoredEnvelope {
+  schemaVersion: number;
+  data: unknown;
+}
+
+/**
+ * 📋 THE RULES FOR ONE DRAWER
+ * - migrations[n] turns version n data into version n + 1 data
+ * - parse checks current-version data: the usable value plus any broken parts that were
+ *   left out, or undefined when nothing can be used at all
+ */
+export interface DataSchema<T> {
+  migrations: Record<number, (data: unknown) => unknown>;
+  parse: (data: unknown) => { value: T; corrupt: unknown[] } | undefined;
+}
+
+// 📬 The result of reading one drawer
+export type ReadResult<T> =
+  | { ok: true; value: T; migrated: boolean; corrupt: unknown[] }
+  | { ok: false; reason: string };
+
+// =============================================================================
+// ✉️ ENVELOPES AND MIGRATIONS
+// =============================================================================
+
+// Wrap data for saving with the current version
+export function wrapForStorage(data: unknown): StoredEnvelope {
+  return { schemaVersion: STORAGE_SCHEMA_VERSION, data };
+}
+
+// Unwrap saved JSON (anything without an envelope was saved before versions existed)
+function unwrapStored(stored: unknown): StoredEnvelope {
+  if (isObject(stored) && Number.isInteger(stored.schemaVersion) && 'data' in stored) {
+    return { schemaVersion: stored.schemaVersion as number, data: stored.data };
+  }
+  return { schemaVersion: 1, data: stored };
+}
+
+/**
+ * 📬 READ A STORED VALUE
+ * Parses the raw text, migrates it to the current version and checks it.
+ * Data from a NEWER version of the app can't be understood, so it counts as unusable
+ * (storage.ts keeps a copy in quarantine rather than guessing).
+ */
+export function readStored<T>(raw: string, schema: DataSchema<T>): ReadResult<T> {
+  let stored: unknown;
+  try {
+    stored = JSON.parse(raw);
+  } catch {
+    return { ok: false, reason: 'not valid JSON' };
+  }
+  return readStoredValue(stored, schema);
+}
+
+// 📬 Same as readStored, for JSON that was already parsed (e.g. one part of an imported file)
+export function readStoredValue<T>(stored: unknown, schema: DataSchema<T>): ReadResult<T> {
+  const envelope = unwrapStored(stored);
+  if (envelope.schemaVersion > STORAGE_SCHEMA_VERSION) {
+    return { ok: false, reason: `saved by a newer version (schema ${envelope.schemaVersion})` };
+  }
+
+  let data = envelope.data;
+  try {
+    for (let version = envelope.schemaVersion; version < STORAGE_SCHEMA_VERSION; version++) {
+      const migrate = schema.migrations[version];
+      if (migrate) data = migrate(data);
+    }
+  } catch (error) {
+    return { ok: false, reason: `migration failed: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  const parsed = schema.parse(data);
+  if (!parsed) return { ok: false, reason: 'unexpected shape' };
+  return { ok: true, value: parsed.value, migrated: envelope.schemaVersion < STORAGE_SCHEMA_VERSION, corrupt: parsed.corrupt };
+}
+
+// =============================================================================
+// 🔍 SHAPE CHECKS
+// =============================================================================
+
+type Json = Record<string, unknown>;
+
+const TRAFFIC_DIRECTIONS = DIRECTION_WEIGHTS.map(item => item.direction);
+const DIFFICULTIES = Object.keys(DIFFICULTY_PRESETS) as Difficulty[];
+const PHRASEOLOGIES = Object.keys(PHRASEOLOGY_PROFILES) as Phraseology[];
+const ANSWER_MODES: AnswerMode[] = ['self', 'typed', 'speech'];
+const ASSESSMENT_OPTIONS = Object.keys(ASSESSMENT_POINTS) as AssessmentScore['option'][];
+const GAME_PHASES: GamePhase[] = ['start', 'exercise', 'assessment', 'end'];
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+const isDateString = (value: unknown): value is string =>
+  typeof value === 'string' && !Number.isNaN(new Date(value).getTime());
+const isOneOf = <T extends string>(values: readonly T[]) => (value: unknown): value is T =>
+  values.includes(value as T);
+const isOptional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value);
+
+// 🏷️ The scenario tag on a score (ScoreMetadata)
+const isScoreMetadata = (value: unknown) =>
+  isObject(value) && isOneOf(TRAFFIC_DIRECTIONS)(value.direction) && isNumber(value.clock) &&
+  isNumber(value.distance) && isOneOf(['VFR', 'IFR'])(value.flightRule) && isNumber(value.seed) &&
+  isOptional(value.options, isObject);
+
+// 🛩️ A whole exercise (on screen, queued for a replay or kept for the review) - checked just deep enough to draw it
+const isExercise = (value: unknown): value is Exercise =>
+  isObject(value) && isNumber(value.seed) && isObject(value.target) && isObject(value.target.position) &&
+  Array.isArray(value.intruders) && value.intruders.every(intruder => isObject(intruder) && isObject(intruder.position)) &&
+  Array.isArray(value.situations) && Array.isArray(value.solutions);
+
+// 🎯 What adaptive difficulty did so far in a running session
+const isSessionAdaptations = (value: unknown) =>
+  isObject(value) && Array.isArray(value.focus) && Array.isArray(value.difficultyChanges);
+
+// 📝 One score, as it sits in a running session or in history (timestamps are strings either way once saved)
+const isScore = (value: unknown): value is Json =>
+  isObject(value) && isOneOf(ASSESSMENT_OPTIONS)(value.option) && isNumber(value.points) &&
+  isDateString(value.timestamp) && isOptional(value.exercise, isScoreMetadata) &&
+  isOptional(value.replay, isBoolean) && isOptional(value.seconds, isNumber);
+
+// 🧹 Keep the items that pass the check, hand back the rest as broken parts
+function partition<T>(items: unknown[], check: (item: unknown) => item is T): { value: T[]; corrupt: unknown[] } {
+  return {
+    value: items.filter(check),
+    corrupt: items.filter(item => !check(item)),
+  };
+}
+
+// =============================================================================
+// ⚙️ SETTINGS
+// =============================================================================
+
+// Settings fields are checked one by one: a broken field falls back to its default, the rest survive
+const SETTINGS_FIELDS: { [K in keyof Settings]?: (value: unknown) => boolean } = {
+  totalExercises: value => isNumber(value) && value >= 1,
+  saveProgress: isBoolean,
+  phraseology: isOneOf(PHRASEOLOGIES),
+  answerMode: isOneOf(ANSWER_MODES),
+  abbreviatedCallsigns: isBoolean,
+  spacedRepetition: isBoolean,
+  adaptiveDifficulty: isBoolean,
+  dailyGoal: value => isNumber(value) && value >= 1,
+};
+
+const isProbability = (value: unknown) => isNumber(value) && value >= 0 && value <= 1;
+
+const GENERATOR_FIELDS: { [K in keyof GeneratorOptions]?: (value: unknown) => boolean } = {
+  directions: value => Array.isArray(value) && value.every(isOneOf(TRAFFIC_DIRECTIONS)),
+  directionWeights: value => isObject(value) && TRAFFIC_DIRECTIONS.every(direction => isOptional(value[direction], isNumber)),
+  vfrProbability: isProbability,
+  militaryRate: isProbability,
+  levelChangeRate: isProbability,
+  intruderCount: value => isNumber(value) && value >= 1,
+  difficulty: isOneOf(DIFFICULTIES),
+};
+
+// Copy the fields that pass their check; report the others as { field: value }
+function pickValidFields<T>(data: Json, fields: { [K in keyof T]?: (value: unknown) => boolean }) {
+  const value: Json = {};
+  const corrupt: unknown[] = [];
+  for (const [field, check] of Object.entries(fields) as [string, (value: unknown) => boolean][]) {
+    if (data[field] === undefined) continue;
+    if (check(data[field])) value[field] = data[field];
+    else corrupt.push({ [field]: data[field] });
+  }
+  return { value: value as Partial<T>, corrupt };
+}
+
+export const SETTINGS_SCHEMA: DataSchema<Partial<Settings>> = {
+  migrations: {},
+  parse: data => {
+    if (!isObject(data)) return undefined;
+    const settings = pickValidFields<Settings>(data, SETTINGS_FIELDS);
+    if (data.generator === undefined) return settings;
+    if (!isObject(data.generator)) return { ...settings, corrupt: [...settings.corrupt, { generator: data.generator }] };
+
+    const generator = pickValidFields<GeneratorOptions>(data.generator, GENERATOR_FIELDS);
+    return {
+      value: { ...settings.value, generator: generator.value as GeneratorOptions }, // loadSettings fills the gaps from the defaults
+      corrupt: [...settings.corrupt, ...generator.corrupt.map(field => ({ generator: field }))],
+    };
+  },
+};
+
+// =============================================================================
+// 💾 PROGRESS
+// =============================================================================
+
+export const PROGRESS_SCHEMA: DataSchema<SavedProgress> = {
+  migrations: {
+    // 1 → 2: sessions saved before difficulties and replays existed
+    1: data => isObject(data) && isObject(data.session)
+      ? {
+        ...data,
+        session: {
+          difficulty: DEFAULT_GENERATOR_OPTIONS.difficulty,
+          retryQueue: [],
+          ...data.session,
+        },
+      }
+      : data,
+  },
+  parse: data => {
+    if (!isObject(data) || !isObject(data.session)) return undefined;
+    const session = data.session;
+    const valid =
+      isOneOf(GAME_PHASES)(data.gamePhase) && isBoolean(data.showAnswer) && isBoolean(data.showDetails) &&
+      isNumber(session.currentExercise) && isNumber(session.totalExercises) && isNumber(session.totalScore) &&
+      isDateString(session.startTime) && isOneOf(DIFFICULTIES)(session.difficulty) &&
+      isOptional(session.answerMode, isOneOf(ANSWER_MODES)) &&
+      Array.isArray(session.scores) && session.scores.every(isScore) && Array.isArray(session.retryQueue);
+    if (!valid) return undefined; // Scores and totals belong together - a half session isn't worth restoring
+
+    // A broken exercise is left out: the replay is skipped, or a fresh exercise is put on screen
+    const retryQueue = partition(session.retryQueue as unknown[], isExercise);
+    const activeExerciseValid = isOptional(session.activeExercise, isExercise);
+    const corrupt = [...retryQueue.corrupt, ...(activeExerciseValid ? [] : [session.activeExercise])];
+
+    const scores = (session.scores as Json[]).map(score => ({
+      ...score,
+      timestamp: new Date(score.timestamp as string),    // 📅 Back to a Date, as the running session uses
+      snapshot: isOptional(score.snapshot, isExercise) ? score.snapshot : undefined,
+    }));
+
+    return {
+      value: {
+        ...data,
+        session: {
+          ...session,
+          startTime: new Date(session.startTime as string), // 📅 Back to a Date
+          scores,
+          retryQueue: retryQueue.value,
+          activeExercise: activeExerciseValid ? session.activeExercise : undefined,
+          answerElapsed: activeExerciseValid && isNumber(session.answerElapsed) ? session.answerElapsed : undefined,
+          adaptations: isSessionAdaptations(session.adaptations) ? session.adaptations : undefined,
+        },
+        savedAt: isDateString(data.savedAt) ? data.savedAt : '',
+      } as SavedProgress,
+      corrupt,
+    };
+  },
+};
+
+// =============================================================================
+// 📚 SESSION HISTORY
+// =============================================================================
+
+const isCompletedSession = (value: unknown): value is CompletedSession =>
+  isObject(value) && typeof value.id === 'string' && isNumber(value.totalScore) &&
+  isNumber(value.maxPossibleScore) && isNumber(value.exercisesCompleted) && isNumber(value.totalExercises) &&
+  isNumber(value.scorePercentage) && isNumber(value.duration) && isDateString(value.completedAt) &&
+  isOptional(value.difficulty, isOneOf(DIFFICULTIES)) && isOptional(value.answerMode, isOneOf(ANSWER_MODES)) &&
+  isOptional(value.compacted, isBoolean) && Array.isArray(value.scores) && value.scores.every(isScore);
+
+// One broken session doesn't take the whole history with it
+export const HISTORY_SCHEMA: DataSchema<CompletedSession[]> = {
+  migrations: {},
+  parse: data => Array.isArray(data) ? partition(data, isCompletedSession) : undefined,
+};
+
+// =============================================================================
+// 🗓️ SPACED REPETITION SCHEDULE
+// =============================================================================
+
+const isCategorySchedule = (value: unknown): value is CategorySchedule =>
+  isObject(value) && isNumber(value.repetitions) && isNumber(value.interval) && isNumber(value.easeFactor) &&
+  isDateString(value.due) && isDateString(value.lastReviewed);
+
+// A broken category is simply due again, like one that was never practised
+export const SCHEDULE_SCHEMA: DataSchema<SchedulerState> = {
+  migrations: {},
+  parse: data => {
+    if (!isObject(data)) return undefined;
+    const entries = Object.entries(data);
+    return {
+      value: Object.fromEntries(entries.filter(([, entry]) => isCategorySchedule(entry))) as SchedulerState,
+      corrupt: entries.filter(([, entry]) => !isCategorySchedule(entry)).map(([key, entry]) => ({ [key]: entry })),
+    };
+  },
+};
+
+// =============================================================================
+// 🏅 ACHIEVEMENTS
+// =============================================================================
+
+// An entry without a date is dropped - it is simply earned again on the next check
+export const ACHIEVEMENTS_SCHEMA: DataSchema<EarnedAchievements> = {
+  migrations: {},
+  parse: data => {
+    if (!isObject(data)) return undefined;
+    const entries = Object.entries(data);
+    return {
+      value: Object.fromEntries(entries.filter(([, earnedAt]) => isDateString(earnedAt))) as EarnedAchievements,
+      corrupt: entries.filter(([, earnedAt]) => !isDateString(earnedAt)).map(([id, earnedAt]) => ({ [id]: earnedAt })),
+    };
+  },
+};
+
+// =============================================================================
+// 🧪 QUARANTINE
+// =============================================================================
+
+const isQuarantinedItem = (value: unknown): value is QuarantinedItem =>
+  isObject(value) && typeof value.key === 'string' && typeof value.reason === 'string' &&
+  isDateString(value.quarantinedAt);
+
+export const QUARANTINE_SCHEMA: DataSchema<QuarantinedItem[]> = {
+  migrations: {},
+  parse: data => Array.isArray(data) ? { value: data.filter(isQuarantinedItem), corrupt: [] } : undefined,
+};
+
+// =============================================================================
+// 👥 PROFILES
+// =============================================================================
+
+const isProfile = (value: unknown): value is Profile =>
+  isObject(value) && typeof value.id === 'string' && /^[a-z0-9]+$/.test(value.id) &&
+  typeof value.name === 'string' && value.name.trim() !== '' && typeof value.createdAt === 'string';
+
+// A broken profile entry is left out (its drawers stay untouched in storage)
+export const PROFILES_SCHEMA: DataSchema<ProfileRegistry> = {
+  migrations: {},
+  parse: data => {
+    if (!isObject(data) || !Array.isArray(data.profiles) || typeof data.activeProfileId !== 'string') return undefined;
+    const profiles = partition(data.profiles, isProfile);
+    return { value: { profiles: profiles.value, activeProfileId: data.activeProfileId }, corrupt: profiles.corrupt };
+  },
+};
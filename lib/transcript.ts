@@ -0,0 +1,149 @@
+// =============================================================================
+// 🎙️ SPEECH TRANSCRIPTS - Turning Radio Talk Back Into Text!
+// =============================================================================
+
+/**
+ * 🧠 WHAT THIS FILE DOES:
+ * When the trainee practises out loud, the browser's speech recognition hands us
+ * a transcript. Recognisers don't know radio talk, so we get things like:
+ *
+ *   "speedbird one two three traffic tree o'clock fife miles ... one thousand feet above"
+ *   "Speedbird 1 2 3 traffic 3:00 5 miles ..."
+ *
+ * This file tidies that up into the same text a trainee would have typed:
+ *
+ *   "baw123 traffic 3 oclock 5 miles ... 1000 feet above"
+ *
+ * 1. 🔤 Radio pronunciations become normal words ("tree" → three, "niner" → nine)
+ * 2. 🔢 Numbers become digits (using the same normalizer as typed answers)
+ * 3. 📞 Airline telephony becomes the ICAO code ("speedbird 123" → BAW123)
+ * 4. 🔡 Phonetic spelling becomes letters ("golf alpha bravo" → GAB)
+ *
+ * No microphone needed here - everything is plain text in, plain text out,
+ * so it can be tested in Node with recorded transcripts.
+ */
+
+import { AIRLINES, PHONETIC_ALPHABET } from './constants';
+import { normalizeCall, parseTrafficCalls, type ParsedTrafficCall } from './grading';
+
+// =============================================================================
+// 📖 RADIO VOCABULARY
+// =============================================================================
+
+// 🔤 ICAO pronunciations (and common recogniser spellings) → normal number words
+const SPOKEN_NUMBERS: Record<string, string> = {
+  wun: 'one',
+  too: 'two',
+  tree: 'three',
+  fower: 'four',
+  fife: 'five',
+  ait: 'eight',
+  niner: 'nine',
+  tousand: 'thousand',
+  hundered: 'hundred',
+};
+
+// 🔡 ICAO phonetic alphabet, word → letter (plus the common "alpha" and "juliet" spellings)
+const PHONETIC_LETTERS: Record<string, string> = {
+  ...Object.fromEntries(Object.entries(PHONETIC_ALPHABET).map(([letter, word]) => [word, letter.toLowerCase()])),
+  alpha: 'a',
+  juliet: 'j',
+};
+
+// 📞 Longest telephony first, so "air canada" wins over a shorter name inside it
+const TELEPHONY = [...AIRLINES].sort((a, b) => b.callsign.length - a.callsign.length);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// =============================================================================
+// 🧽 NORMALIZER STEPS
+// =============================================================================
+
+/**
+ * 🔤 RADIO WORDS → NORMAL WORDS
+ * "tree" → "three", "niner" → "nine", "x-ray" → "xray", "3:00" → "3 o'clock"
+ */
+function replaceRadioWords(transcript: string): string {
+  return transcript
+    .toLowerCase()
+    .replace(/\b(\d{1,2}):00\b/g, "$1 o'clock")
+    .replace(/\bx[- ]?ray\b/g, 'xray')
+    .split(/\s+/)
+    .map(word => SPOKEN_NUMBERS[word] ?? word)
+    .join(' ');
+}
+
+/**
+ * 🔢 GLUE SEPARATE DIGITS
+ * Recognisers often write "one two three" as "1 2 3" - that is 123.
+ */
+function joinSingleDigits(text: string): string {
+  return text.replace(/\b\d(?: \d\b)+/g, digits => digits.replace(/ /g, ''));
+}
+
+/**
+ * 🔡 PHONETIC SPELLING → LETTERS
+ * A run of at least two phonetic words (digits allowed in between, like US
+ * registrations) is one registration: "november 123 alpha bravo" → "n123ab".
+ * A single word on its own ("delta 123") is left alone - it may be telephony.
+ */
+function spellPhonetics(text: string): string {
+  const words = text.split(' ');
+  const output: string[] = [];
+  let run: string[] = [];
+
+  const flush = () => {
+    const letters = run.filter(word => word in PHONETIC_LETTERS).length;
+    if (letters >= 2) output.push(run.map(word => PHONETIC_LETTERS[word] ?? word).join(''));
+    else output.push(...run);
+    run = [];
+  };
+
+  for (const word of words) {
+    if (word in PHONETIC_LETTERS || (/^\d+$/.test(word) && run.length > 0)) {
+      run.push(word);
+    } else {
+      flush();
+      output.push(word);
+    }
+  }
+  flush();
+
+  return output.join(' ');
+}
+
+/**
+ * 📞 TELEPHONY → ICAO CODE
+ * "speedbird 123" → "baw123", "air canada 45" → "aca45"
+ */
+function replaceTelephony(text: string): string {
+  return TELEPHONY.reduce(
+    (result, airline) => result.replace(
+      new RegExp(`\\b${escapeRegExp(airline.callsign)} (\\d+[a-z]?)\\b`, 'g'),
+      (_, flightNumber: string) => `${airline.icao.toLowerCase()}${flightNumber}`
+    ),
+    text
+  );
+}
+
+// =============================================================================
+// 🎙️ PUBLIC FUNCTIONS
+// =============================================================================
+
+/**
+ * 🧽 NORMALIZE A SPOKEN TRANSCRIPT
+ * Returns the same normalized text a typed answer would produce, ready for grading.
+ */
+export function normalizeTranscript(transcript: string): string {
+  const words = replaceRadioWords(transcript);
+  const numbers = joinSingleDigits(normalizeCall(words));
+  return replaceTelephony(spellPhonetics(numbers));
+}
+
+/**
+ * 🔍 PARSE A SPOKEN TRANSCRIPT
+ * The structured answer: one parsed call per intruder, exactly like a typed answer.
+ */
+export function parseTranscript(transcript: string): ParsedTrafficCall[] {
+  return parseTrafficCalls(normalizeTranscript(transcript));
+}
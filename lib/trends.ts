@@ -0,0 +1,115 @@
+// =============================================================================
+// 📈 PROGRESS TRENDS - Is the Trainee Getting Better?
+// =============================================================================
+
+/**
+ * 🧠 WHAT THIS FILE DOES:
+ * Turns the session history into the numbers behind the Statistics charts.
+ * The charts themselves are plain SVG drawn by the app - nothing is sent
+ * anywhere:
+ *
+ * 📈 Score trend   → each session's score, oldest first, with a rolling average
+ * 🎨 Distribution  → how often each rating (Correct/Almost/Hard/Again) was given
+ * 🗓️ Calendar      → exercises done on each day of the last few weeks
+ */
+
+import { localDay } from './history';
+import { type CompletedSession } from './storage';
+import { ASSESSMENT_BUTTONS, type AssessmentOption } from './types';
+
+// 📈 One session on the score chart
+export interface TrendPoint {
+  completedAt: string;
+  scorePercentage: number;
+  rollingAverage: number; // Average of this session and the ones just before it
+}
+
+// 🎨 One rating in the distribution
+export interface RatingShare {
+  option: AssessmentOption;
+  label: string;
+  count: number;
+  percentage: number; // Share of all ratings (0 when there are none)
+}
+
+// 🗓️ One square of the calendar
+export interface CalendarDay {
+  day: string;        // Local "YYYY-MM-DD"
+  sessions: number;
+  exercises: number;
+  future: boolean;    // Later this week - drawn empty
+}
+
+export const ROLLING_WINDOW = 5;   // 📏 Sessions in the rolling average
+export const CALENDAR_WEEKS = 12;  // 🗓️ Weeks shown in the heat-map
+
+// =============================================================================
+// 📈 SCORE TREND
+// =============================================================================
+
+/**
+ * 📈 SCORE OVER TIME
+ * History is stored newest first; charts read left to right, so this
+ * returns the sessions oldest first. The first few points average over
+ * however many sessions exist so far.
+ */
+export function scoreTrend(history: CompletedSession[], window = ROLLING_WINDOW): TrendPoint[] {
+  const sessions = [...history].reverse();
+  return sessions.map((session, index) => {
+    const recent = sessions.slice(Math.max(0, index - window + 1), index + 1);
+    return {
+      completedAt: session.completedAt,
+      scorePercentage: session.scorePercentage,
+      rollingAverage: recent.reduce((sum, s) => sum + s.scorePercentage, 0) / recent.length,
+    };
+  });
+}
+
+// =============================================================================
+// 🎨 RATING DISTRIBUTION
+// =============================================================================
+
+/**
+ * 🎨 HOW WAS EACH EXERCISE RATED?
+ * Counts every rating, replays included, in the order of the rating buttons.
+ * Compacted sessions no longer have their ratings and are not counted.
+ */
+export function ratingDistribution(history: CompletedSession[]): RatingShare[] {
+  const scores = history.flatMap(session => session.scores);
+  return ASSESSMENT_BUTTONS.map(({ option, label }) => {
+    const count = scores.filter(score => score.option === option).length;
+    return { option, label, count, percentage: scores.length > 0 ? (count / scores.length) * 100 : 0 };
+  });
+}
+
+// =============================================================================
+// 🗓️ PRACTICE CALENDAR
+// =============================================================================
+
+/**
+ * 🗓️ PRACTICE DAYS
+ * Whole weeks (Monday to Sunday), oldest first, ending with the week of
+ * `today`. Each week is a column of seven days, like a wall calendar
+ * turned on its side.
+ */
+export function practiceCalendar(history: CompletedSession[], today = new Date(), weeks = CALENDAR_WEEKS): CalendarDay[][] {
+  const perDay = new Map<string, { sessions: number; exercises: number }>();
+  for (const session of history) {
+    const day = localDay(session.completedAt);
+    const totals = perDay.get(day) ?? { sessions: 0, exercises: 0 };
+    perDay.set(day, { sessions: totals.sessions + 1, exercises: totals.exercises + session.exercisesCompleted });
+  }
+
+  const todayKey = localDay(today);
+  const mondayOffset = (today.getDay() + 6) % 7; // 📅 Days since Monday (getDay counts from Sunday)
+  const firstMonday = new Date(today.getFullYear(), today.getMonth(), today.getDate() - mondayOffset - (weeks - 1) * 7);
+
+  return Array.from({ length: weeks }, (_, week) =>
+    Array.from({ length: 7 }, (_, weekday) => {
+      // Building each date from its parts keeps days whole across daylight saving changes
+      const day = localDay(new Date(firstMonday.getFullYear(), firstMonday.getMonth(), firstMonday.getDate() + week * 7 + weekday));
+      const totals = perDay.get(day);
+      return { day, sessions: totals?.sessions ?? 0, exercises: totals?.exercises ?? 0, future: day > todayKey };
+    })
+  );
+}
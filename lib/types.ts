@@ -8,6 +8,34 @@ export interface AssessmentScore {
   option: AssessmentOption;
   points: number;
   timestamp: Date;
+  exercise?: ScoreMetadata; // What the exercise was about (missing in older records)
+  replay?: boolean;         // Rated on a replay of a missed exercise, not on the first try
+  seconds?: number;         // Time from showing the exercise to rating it
+  snapshot?: Exercise;      // The exercise as rated, for the session review (not kept in history)
+}
+
+/**
+ * One rated exercise, as submitted from the exercise screen
+ */
+export interface AssessmentAttempt {
+  shown: Exercise;   // The exercise as first shown (replayed later if rated "again")
+  rated: Exercise;   // The live picture when it was rated - the solution refers to this moment
+  seconds: number;   // Time from showing the exercise to rating it
+}
+
+/**
+ * The scenario behind a score, so performance can be broken down later.
+ * Describes the first intruder - the one the traffic information starts with.
+ */
+export interface ScoreMetadata {
+  direction: TrafficDirection;
+  clock: number;
+  distance: number; // Nautical miles
+  flightRule: 'VFR' | 'IFR'; // Intruder flight rules
+  military: boolean;
+  levelChange: boolean; // Intruder climbing or descending
+  seed: number; // generateExercise(seed, options) rebuilds the exercise
+  options?: GeneratorOptions; // What the exercise was generated with (missing in older saves)
 }
 
 export interface ExerciseSession {
@@ -16,11 +44,24 @@ export interface ExerciseSession {
   scores: AssessmentScore[];
   totalScore: number;
   startTime: Date;
+  difficulty: Difficulty; // The settings' difficulty, or the one adaptive difficulty moved to
+  answerMode?: AnswerMode;  // How the trainee answers this session (missing in older saves)
+  retryQueue: Exercise[]; // Exercises rated "again", replayed in order after the planned set
+  activeExercise?: Exercise; // The exercise on screen (restored as-is after a reload)
+  adaptations?: SessionAdaptations; // What adaptive difficulty changed over the session (missing when it is off)
+  answerElapsed?: number;    // Simulated seconds on the radar when the answer was shown
 }
 
 export interface Settings {
   totalExercises: number;
   saveProgress: boolean;
+  generator: GeneratorOptions;
+  phraseology: Phraseology;
+  answerMode: AnswerMode;
+  abbreviatedCallsigns: boolean; // Contact established - registrations shortened to first + last two characters
+  spacedRepetition: boolean; // Draw the next exercise's scenario from the scheduler's due queue
+  adaptiveDifficulty: boolean; // Shift direction weights, traffic mix and difficulty towards weak areas
+  dailyGoal: number; // Exercises to complete each day
 }
 
 export interface SavedProgress {
@@ -31,12 +72,64 @@ export interface SavedProgress {
   savedAt: string;
 }
 
+// A trainee on a shared device, with their own settings, progress, history and schedule
+export interface Profile {
+  id: string;        // Part of the profile's storage keys
+  name: string;      // Shown in the profile switcher
+  createdAt: string; // ISO date the profile was added
+}
+
 export interface AppState {
   gamePhase: GamePhase;
   session: ExerciseSession;
   showAnswer: boolean;
   showDetails: boolean;
   settings: Settings;
+  storageReady: boolean; // Storage opened and saved settings loaded (IndexedDB opens asynchronously)
+  profiles: Profile[];   // Trainee profiles on this device (empty until storage is ready)
+  activeProfileId: string; // Whose settings, progress and history are in use
+  rewards: SessionRewards | null; // Daily goal, streak and achievements after the finished session was saved
+}
+
+// An achievement the trainee has earned
+export interface EarnedAchievement {
+  id: string;
+  title: string;
+  description: string;
+  earnedAt: string;  // When it was earned (ISO date)
+}
+
+// What a saved session added up to, shown on the end screen
+export interface SessionRewards {
+  exercisesToday: number;
+  dailyGoal: number;
+  currentStreak: number;   // Days in a row with at least one session, up to today
+  longestStreak: number;
+  newAchievements: EarnedAchievement[]; // Earned by this session
+  achievementsEarned: number; // All earned so far
+  achievementsTotal: number;
+}
+
+// An area adaptive difficulty practises more ("overtaking", "VFR traffic", "level changes"), with the recent results behind it
+export interface AdaptiveFocus {
+  area: string;
+  scorePercentage: number;
+  attempts: number;
+}
+
+// A difficulty step made by adaptive difficulty, with the recent results behind it
+export interface DifficultyChange {
+  from: Difficulty;
+  to: Difficulty;
+  raised: boolean;
+  scorePercentage: number;
+  attempts: number;
+}
+
+// Everything adaptive difficulty did over one session, shown on the end screen
+export interface SessionAdaptations {
+  focus: AdaptiveFocus[];                // Every area that was emphasized, with its latest results
+  difficultyChanges: DifficultyChange[]; // Every step up or down, in order
 }
 
 // Assessment scoring system
@@ -86,6 +179,72 @@ export const ASSESSMENT_BUTTONS: AssessmentButton[] = [
 // GENERATOR TYPES
 // =============================================================================
 
+/**
+ * Relative direction of the intruder's movement, as used in the traffic information
+ */
+export type TrafficDirection =
+  | 'crossing left to right'
+  | 'crossing right to left'
+  | 'converging'
+  | 'opposite direction'
+  | 'overtaking';
+
+/**
+ * Difficulty presets that change the scenario geometry (see DIFFICULTY_PRESETS)
+ */
+export type Difficulty = 'beginner' | 'intermediate' | 'advanced';
+
+/**
+ * Regional phraseology used to word the traffic information (see PHRASEOLOGY_PROFILES)
+ */
+export type Phraseology = 'icao' | 'faa' | 'uk';
+
+/**
+ * How the trainee answers: self-assessment only, or a typed or spoken call that is graded automatically
+ */
+export type AnswerMode = 'self' | 'typed' | 'speech';
+
+/**
+ * Generator options that instructors can tune per session
+ */
+export interface GeneratorOptions {
+  directions: TrafficDirection[];                     // Enabled directions (empty = all)
+  directionWeights: Record<TrafficDirection, number>; // Relative weight of each direction
+  vfrProbability: number;                             // 0-1 chance the exercise is VFR (rest is IFR)
+  militaryRate: number;                               // 0-1 chance a VFR intruder is military
+  levelChangeRate: number;                            // 0-1 chance an IFR intruder climbs/descends through
+  intruderCount: number;                              // Conflicting contacts per exercise (1-3)
+  difficulty: Difficulty;                             // Geometry preset (may override the rates above)
+  category?: ScenarioCategory;                        // Forced scenario for one exercise (from the scheduler, kept with the exercise but never in Settings)
+}
+
+/**
+ * A scenario category for spaced repetition: direction × flight rules × level change.
+ * Level changes only exist for IFR traffic, so there is no VFR level-change category.
+ */
+export interface ScenarioCategory {
+  direction: TrafficDirection;
+  flightRule: 'VFR' | 'IFR';
+  levelChange: boolean;
+}
+
+/**
+ * SM-2 review state of one scenario category
+ */
+export interface CategorySchedule {
+  repetitions: number;  // Successful reviews in a row (reset by "again")
+  interval: number;     // Days between the last review and the next one
+  easeFactor: number;   // How fast the interval grows (starts at 2.5, never below 1.3)
+  due: string;          // ISO date of the next review
+  lastReviewed: string; // ISO date of the last review
+}
+
+/**
+ * Scheduler state: one entry per category key (see categoryKey in lib/scheduler.ts).
+ * Categories that were never practised have no entry and count as due.
+ */
+export type SchedulerState = Record<string, CategorySchedule>;
+
 /**
  * Aircraft interface for aviation traffic exercises
  */
@@ -110,16 +269,41 @@ export interface Ac {
 export interface Situation {
   clock: number;
   distance: number;
-  direction: string;
+  direction: TrafficDirection;
   level: string;
+  cpaDistance: number; // Closest point of approach, nautical miles (1 decimal)
+  timeToCpa: number; // Seconds until the closest point of approach
+  cpaVerticalSeparation: number; // Feet between the aircraft at the closest point of approach
+}
+
+/**
+ * Structured traffic information for one intruder - every element the controller has to say.
+ * Render it to text with renderSolution (lib/phraseology.ts).
+ */
+export interface TrafficSolution {
+  callsign: string; // Target callsign the call is addressed to, as filed ("BAW123") - said via radiotelephonyCallsign
+  additional: boolean; // Second or third intruder ("additional traffic")
+  clock: number;
+  distance: number; // Nautical miles
+  direction: TrafficDirection;
+  track: number; // Intruder heading, for the cardinal direction of travel
+  level: { feet: number; relation: 'above' | 'below' | 'same'; altitude: number }; // Relative level plus the intruder's own level
+  levelChange?: { dir: 'climbing' | 'descending'; throughYourLevel: boolean; to: number };
+  type: { designator: string; name: string };
+  wake: 'L' | 'M' | 'H';
 }
 
 /**
- * Complete aviation exercise interface containing target, intruder, situation, and solution
+ * Complete aviation exercise interface containing the target and its intruders.
+ * situations[i] and solutions[i] describe intruders[i]; solutions are read out in order.
  */
 export interface Exercise {
+  seed: number; // Generator seed - generateExercise(seed, options) rebuilds this exact exercise
+  options?: GeneratorOptions; // Everything the generator was asked for, scheduled category and adaptive weights included (missing in older saves)
+  difficulty: Difficulty;
+  elapsed: number; // Simulated seconds since the generated picture (0 = as generated)
   target: Ac;
-  intruder: Ac;
-  situation: Situation;
-  solution: string;
+  intruders: Ac[];
+  situations: Situation[];
+  solutions: TrafficSolution[];
 }
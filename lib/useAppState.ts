@@ -15,13 +15,17 @@
  * Think of it like a really smart notebook that remembers everything!
  */
 
-import { useReducer, useCallback, useEffect } from 'react';
+import { useReducer, useCallback, useEffect, type Dispatch } from 'react';
 import { 
   AppState, 
   GamePhase, 
   AssessmentOption, 
+  AssessmentAttempt,
   ASSESSMENT_POINTS,
+  Exercise,
   ExerciseSession,
+  Profile,
+  SessionRewards,
   Settings 
 } from './types';
 import { 
@@ -31,9 +35,25 @@ import {
   saveProgress, 
   clearProgress,
   saveCompletedSession,
+  loadSessionHistory,
+  loadAchievements,
+  saveAchievements,
   hasMeaningfulProgress,
+  initializeStorage,
+  loadSchedule,
+  saveSchedule,
+  loadProfiles,
+  createProfile as createStoredProfile,
+  switchProfile as switchStoredProfile,
+  renameProfile as renameStoredProfile,
+  deleteProfile as deleteStoredProfile,
   DEFAULT_SETTINGS 
 } from './storage';
+import { DEFAULT_GENERATOR_OPTIONS } from './constants';
+import { categoryOf, reviewCategory } from './scheduler';
+import { describeExercise } from './analytics';
+import { type AdaptivePlan, recordAdaptivePlan } from './adaptive';
+import { evaluateAchievements, exercisesOnDay, practiceStreak, sessionRewards } from './achievements';
 
 // =============================================================================
 // 📝 ACTION TYPES - All the Things Our App Can Do
@@ -48,6 +68,7 @@ import {
  * 👁️ SHOW_ANSWER = "Show me the correct answer!"  
  * 🙈 HIDE_ANSWER = "Hide the answer again!"
  * 📖 TOGGLE_DETAILS = "Show/hide extra details!"
+ * 🖼️ SET_EXERCISE = "This is the exercise on screen now!"
  * ⭐ SUBMIT_ASSESSMENT = "I think my answer was: Perfect/Good/Okay/Again"
  * ➡️ NEXT_EXERCISE = "Move to the next exercise!"
  * 🔄 RETRY_EXERCISE = "Let me try this one again!"
@@ -55,23 +76,29 @@ import {
  * 🔄 RESET_SESSION = "Start completely over!"
  * ⚙️ UPDATE_SETTINGS = "Change my preferences!"
  * 📚 RESTORE_PROGRESS = "Continue where I left off!"
- * 💾 LOAD_SETTINGS = "Load my saved settings!"
+ * 👥 LOAD_PROFILE = "It's my turn - load my settings!" (at startup and when switching trainee)
+ * 🏷️ UPDATE_PROFILES = "The list of trainees changed!" (added, renamed, deleted)
+ * 🏅 SESSION_SAVED = "My finished session is saved - how did I do today?"
  */
 
 // Action types for the state reducer
-type AppAction =
+export type AppAction =
   | { type: 'START_SESSION' }
-  | { type: 'SHOW_ANSWER' }
+  | { type: 'SET_EXERCISE'; payload: Exercise }
+  | { type: 'RECORD_ADAPTIVE_PLAN'; payload: AdaptivePlan }
+  | { type: 'SHOW_ANSWER'; payload?: { elapsed: number } }
   | { type: 'HIDE_ANSWER' }
   | { type: 'TOGGLE_DETAILS' }
-  | { type: 'SUBMIT_ASSESSMENT'; payload: AssessmentOption }
+  | { type: 'SUBMIT_ASSESSMENT'; payload: { option: AssessmentOption; attempt?: AssessmentAttempt } }
   | { type: 'NEXT_EXERCISE' }
   | { type: 'RETRY_EXERCISE' }
   | { type: 'END_SESSION' }
   | { type: 'RESET_SESSION' }
   | { type: 'UPDATE_SETTINGS'; payload: Partial<Settings> }
   | { type: 'RESTORE_PROGRESS'; payload: { session: ExerciseSession; gamePhase: GamePhase; showAnswer: boolean; showDetails: boolean } }
-  | { type: 'LOAD_SETTINGS'; payload: Settings };
+  | { type: 'LOAD_PROFILE'; payload: { profiles: Profile[]; activeProfileId: string; settings: Settings } }
+  | { type: 'UPDATE_PROFILES'; payload: Profile[] }
+  | { type: 'SESSION_SAVED'; payload: SessionRewards };
 
 // =============================================================================
 // 🏗️ INITIAL STATE FACTORIES - Setting Up Our App's Starting Values
@@ -94,6 +121,8 @@ const createInitialSession = (): ExerciseSession => ({
   scores: [],               // 📝 Empty list - no scores yet!
   totalScore: 0,            // 🏆 Starting score is zero
   startTime: new Date(),    // ⏰ Remember when we started
+  difficulty: DEFAULT_GENERATOR_OPTIONS.difficulty, // 🎚️ Default difficulty (changeable)
+  retryQueue: [],           // 🔁 No missed exercises yet
 });
 
 /**
@@ -106,12 +135,16 @@ const createInitialSession = (): ExerciseSession => ({
  * - Don't show details initially  
  * - Use default settings
  */
-const createInitialState = (): AppState => ({
+export const createInitialState = (): AppState => ({
   gamePhase: 'start',           // 🚦 Start on the welcome screen
   session: createInitialSession(), // 📚 Create a new training session
   showAnswer: false,            // 🙈 Don't show answers yet
   showDetails: false,           // 📖 Don't show extra details yet
   settings: DEFAULT_SETTINGS,   // ⚙️ Use the default user preferences
+  storageReady: false,          // 🗄️ Storage isn't open yet
+  profiles: [],                 // 👥 Profiles come from storage
+  activeProfileId: '',          // 👤 Nobody picked yet
+  rewards: null,                // 🏅 No session saved yet
 });
 
 // =============================================================================
@@ -133,8 +166,17 @@ const createInitialState = (): AppState => ({
  * and "reduces" them down to a new state!
  */
 
+// 🔍 Same setting? (settings are plain JSON, so the order of the keys doesn't matter)
+function sameValue(a: unknown, b: unknown): boolean {
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return a === b;
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length &&
+    keys.every(key => sameValue((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
+
 // State reducer with comprehensive action handling
-function appStateReducer(state: AppState, action: AppAction): AppState {
+// (exported so tests can drive it in Node with the in-memory storage adapter)
+export function appStateReducer(state: AppState, action: AppAction): AppState {
   switch (action.type) {
     
     // 🎯 START A NEW TRAINING SESSION
@@ -142,12 +184,37 @@ function appStateReducer(state: AppState, action: AppAction): AppState {
       // Create a brand new session with the user's preferred number of exercises
       const newSession = createInitialSession();
       newSession.totalExercises = state.settings.totalExercises;
+      newSession.difficulty = state.settings.generator.difficulty;
+      newSession.answerMode = state.settings.answerMode;
       return {
         ...state,                // Keep everything else the same
         gamePhase: 'exercise',   // 🎮 Switch to exercise screen  
         session: newSession,     // 📚 Use the new session
         showAnswer: false,       // 🙈 Don't show answers
         showDetails: false,      // 📖 Don't show details
+        rewards: null,           // 🏅 The last session's rewards are done with
+      };
+
+    // 🖼️ A NEW EXERCISE IS ON SCREEN (kept in the session so a reload shows the same picture)
+    case 'SET_EXERCISE':
+      return {
+        ...state,                // Keep everything else the same
+        session: {
+          ...state.session,
+          activeExercise: action.payload, // 🖼️ The exercise being shown
+          answerElapsed: undefined,       // ⏱️ Answer not shown yet
+        },
+      };
+
+    // 🎯 ADAPTIVE DIFFICULTY PLANNED THE NEXT EXERCISE (the session keeps a record for the end screen)
+    case 'RECORD_ADAPTIVE_PLAN':
+      return {
+        ...state,
+        session: {
+          ...state.session,
+          difficulty: action.payload.options.difficulty, // 🎚️ The difficulty actually practised
+          adaptations: recordAdaptivePlan(state.session.adaptations, action.payload, state.session.difficulty),
+        },
       };
 
     // 👁️ SHOW THE CORRECT ANSWER
@@ -156,6 +223,10 @@ function appStateReducer(state: AppState, action: AppAction): AppState {
         ...state,                // Keep everything else the same
         gamePhase: 'assessment', // 🎯 Switch to assessment screen
         showAnswer: true,        // 👁️ Now show the answer!
+        session: {
+          ...state.session,
+          answerElapsed: action.payload?.elapsed, // ⏱️ The radar moment the answer is about
+        },
       };
 
     // 🙈 HIDE THE ANSWER AGAIN  
@@ -175,8 +246,9 @@ function appStateReducer(state: AppState, action: AppAction): AppState {
 
     // ⭐ STUDENT SUBMITTED THEIR SELF-ASSESSMENT
     case 'SUBMIT_ASSESSMENT': {
-      // Get the assessment (Perfect, Good, Okay, or Again)
-      const assessment = action.payload;
+      // Get the assessment (Perfect, Good, Okay, or Again) and the exercise it was for
+      const { option: assessment, attempt } = action.payload;
+      const replaying = state.session.currentExercise > state.session.totalExercises; // Past the planned set?
       
       // Look up how many points this assessment is worth
       // Perfect = 3 points, Good = 2 points, Okay = 1 point, Again = 0 points
@@ -187,31 +259,30 @@ function appStateReducer(state: AppState, action: AppAction): AppState {
         option: assessment,      // What they chose (Perfect/Good/Okay/Again)
         points,                 // How many points they earned
         timestamp: new Date(),   // When they submitted it
+        exercise: attempt && describeExercise(attempt.shown, attempt.rated), // What the exercise was about (direction, clock, level change...)
+        ...(replaying && { replay: true }), // A second (or later) try of a missed exercise
+        seconds: attempt?.seconds,           // How long they took
+        snapshot: attempt?.rated,            // The picture they rated, for the review screen
       };
 
-      // 🔄 SPECIAL CASE: "Again" means retry the same exercise
-      if (assessment === 'again') {
-        return {
-          ...state,                // Keep everything else the same
-          gamePhase: 'exercise',   // 🎮 Go back to exercise screen
-          showAnswer: false,       // 🙈 Hide the answer
-          showDetails: false,      // 📖 Hide details
-          session: {
-            ...state.session,      // Keep session info the same
-            scores: [...state.session.scores, newScore], // But add this score
-          },
-        };
-      }
+      // 🔁 MISSED EXERCISES: "Again" keeps the exact picture for a replay after the planned set.
+      // While replaying, the exercise just rated is the front of the queue - it leaves the queue,
+      // and comes back at the end if it was missed again.
+      const remainingQueue = replaying ? state.session.retryQueue.slice(1) : state.session.retryQueue;
+      const retryQueue = assessment === 'again' && attempt ? [...remainingQueue, attempt.shown] : remainingQueue;
 
-      // 📊 FOR OTHER ASSESSMENTS: Add points and move forward
+      // 📊 Add the score and points
       const updatedSession: ExerciseSession = {
         ...state.session,          // Keep session info
         scores: [...state.session.scores, newScore],           // Add the new score
         totalScore: state.session.totalScore + points,         // Add points to total
+        retryQueue,                                            // Missed exercises still to replay
+        activeExercise: undefined,                             // 🖼️ Done with this picture
+        answerElapsed: undefined,
       };
 
-      // 🏁 CHECK: Was this the last exercise?
-      if (state.session.currentExercise >= state.session.totalExercises) {
+      // 🏁 CHECK: Planned set done and nothing left to replay?
+      if (state.session.currentExercise >= state.session.totalExercises && retryQueue.length === 0) {
         return {
           ...state,                // Keep everything else the same
           gamePhase: 'end',        // 🏁 Go to end/results screen
@@ -221,7 +292,7 @@ function appStateReducer(state: AppState, action: AppAction): AppState {
         };
       }
 
-      // ➡️ NOT THE LAST EXERCISE: Move to next exercise
+      // ➡️ MORE TO DO: Move to the next exercise (a missed one once the planned set is done)
       return {
         ...state,                    // Keep everything else the same
         gamePhase: 'exercise',       // 🎮 Stay on exercise screen
@@ -235,12 +306,18 @@ function appStateReducer(state: AppState, action: AppAction): AppState {
     }
 
     // ➡️ MANUALLY MOVE TO NEXT EXERCISE (without assessment)
-    case 'NEXT_EXERCISE':
-      // 🏁 CHECK: Are we already at the last exercise?
-      if (state.session.currentExercise >= state.session.totalExercises) {
+    case 'NEXT_EXERCISE': {
+      // 🔁 Skipping a replayed exercise gives up on it: it leaves the queue
+      const retryQueue = state.session.currentExercise > state.session.totalExercises
+        ? state.session.retryQueue.slice(1)
+        : state.session.retryQueue;
+
+      // 🏁 CHECK: Are we already at the last exercise, with nothing left to replay?
+      if (state.session.currentExercise >= state.session.totalExercises && retryQueue.length === 0) {
         return {
           ...state,           // Keep everything else the same  
           gamePhase: 'end',   // 🏁 Go to end screen
+          session: { ...state.session, retryQueue, activeExercise: undefined, answerElapsed: undefined },
         };
       }
       // ➡️ NOT THE LAST: Move to next exercise
@@ -250,10 +327,14 @@ function appStateReducer(state: AppState, action: AppAction): AppState {
         session: {
           ...state.session,     // Keep session info
           currentExercise: state.session.currentExercise + 1, // Increment exercise number
+          retryQueue,           // Missed exercises still to replay
+          activeExercise: undefined, // 🖼️ A new picture comes next
+          answerElapsed: undefined,
         },
         showAnswer: false,      // 🙈 Hide answer for new exercise
         showDetails: false,     // 📖 Hide details for new exercise
       };
+    }
 
     // 🔄 RETRY THE CURRENT EXERCISE (without changing exercise number)
     case 'RETRY_EXERCISE':
@@ -279,27 +360,54 @@ function appStateReducer(state: AppState, action: AppAction): AppState {
         session: createInitialSession(), // 📚 Create brand new session
         showAnswer: false,           // 🙈 Hide answer
         showDetails: false,          // 📖 Hide details
+        rewards: null,               // 🏅 Nothing to show on the start screen
       };
 
     // ⚙️ UPDATE USER SETTINGS/PREFERENCES
-    case 'UPDATE_SETTINGS':
+    case 'UPDATE_SETTINGS': {
       // Merge the new settings with existing ones (like updating a preferences form)
       const updatedSettings = { ...state.settings, ...action.payload };
       
       // 💾 AUTOMATICALLY SAVE: Save settings to browser storage immediately
       // This way if the user closes the browser, their preferences are remembered!
       saveSettings(updatedSettings);
+
+      // 🎛️ New traffic settings while an exercise is unanswered? Swap it for one built with them
+      // (compared by value: an imported backup hands over every setting, changed or not)
+      const changesTraffic = (['generator', 'spacedRepetition', 'adaptiveDifficulty'] as const)
+        .some(key => key in action.payload && !sameValue(action.payload[key], state.settings[key]));
       
       return {
         ...state,                  // Keep everything else the same
         settings: updatedSettings, // Use the new settings
+        session: changesTraffic && state.gamePhase === 'exercise'
+          ? { ...state.session, activeExercise: undefined }
+          : state.session,
       };
+    }
 
-    // 💾 LOAD SAVED SETTINGS (usually when app first starts)
-    case 'LOAD_SETTINGS':
+    // 👥 LOAD A PROFILE (when the app first starts, and when another trainee takes over)
+    case 'LOAD_PROFILE':
       return {
-        ...state,               // Keep everything else the same
-        settings: action.payload, // Use the loaded settings
+        ...createInitialState(), // 🆕 A fresh start screen - nothing carries over between trainees
+        settings: action.payload.settings, // Use the profile's saved settings
+        profiles: action.payload.profiles,
+        activeProfileId: action.payload.activeProfileId,
+        storageReady: true,     // 🗄️ Settings come from storage, so it is open now
+      };
+
+    // 🏷️ PROFILES ADDED, RENAMED OR DELETED (the active one stays)
+    case 'UPDATE_PROFILES':
+      return {
+        ...state,
+        profiles: action.payload,
+      };
+
+    // 🏅 THE FINISHED SESSION IS SAVED (daily goal, streak and achievements for the end screen)
+    case 'SESSION_SAVED':
+      return {
+        ...state,
+        rewards: action.payload,
       };
 
     // 📚 RESTORE SAVED PROGRESS (continue where user left off)
@@ -312,9 +420,12 @@ function appStateReducer(state: AppState, action: AppAction): AppState {
         session: {
           ...session,           // Use the saved session info
           startTime: new Date(session.startTime), // Make sure startTime is a proper Date object
+          difficulty: session.difficulty ?? DEFAULT_GENERATOR_OPTIONS.difficulty, // Older saves have no difficulty
+          retryQueue: session.retryQueue ?? [], // Older saves have no missed exercises
         },
-        gamePhase,             // Go to the screen they were on
-        showAnswer,            // Show/hide answer as they had it
+        // Older saves have no exercise on screen: a new one is built, so the answer can't be showing yet
+        gamePhase: gamePhase === 'assessment' && !session.activeExercise ? 'exercise' : gamePhase,
+        showAnswer: showAnswer && session.activeExercise !== undefined, // Show/hide answer as they had it
         showDetails,           // Show/hide details as they had it  
       };
 
@@ -324,6 +435,61 @@ function appStateReducer(state: AppState, action: AppAction): AppState {
   }
 }
 
+/**
+ * 👥 LOAD THE ACTIVE PROFILE:
+ * Used when the app starts and after switching trainee:
+ * 1️⃣ Load the profile's saved settings (from its own storage drawers)
+ * 2️⃣ If progress saving is enabled, restore where this trainee left off
+ */
+function loadActiveProfile(dispatch: Dispatch<AppAction>) {
+  // 💾 STEP 1: Load the trainee's saved settings from browser storage
+  const { profiles, activeProfileId } = loadProfiles();
+  const savedSettings = loadSettings();
+  dispatch({ type: 'LOAD_PROFILE', payload: { profiles, activeProfileId, settings: savedSettings } });
+
+  // 📚 STEP 2: If progress saving is enabled, try to restore where they left off
+  if (savedSettings.saveProgress) {
+    const savedProgress = loadProgress();
+    
+    // Only restore if they actually made meaningful progress
+    // (we don't want to restore if they just opened the app and left)
+    if (hasMeaningfulProgress(savedProgress)) {
+      dispatch({
+        type: 'RESTORE_PROGRESS',
+        payload: {
+          session: savedProgress!.session,
+          gamePhase: savedProgress!.gamePhase,
+          showAnswer: savedProgress!.showAnswer,
+          showDetails: savedProgress!.showDetails,
+        },
+      });
+    }
+  }
+}
+
+/**
+ * 🏅 CHECK ACHIEVEMENTS AFTER A SAVED SESSION:
+ * 1️⃣ Work out today's exercises and the practice streak from the history
+ * 2️⃣ Add any newly earned achievements to storage
+ * 3️⃣ Hand back what the end screen shows (the same answer if run twice)
+ */
+function recordAchievements(sessionStart: Date): SessionRewards {
+  const history = loadSessionHistory();
+  const now = new Date();
+  const context = {
+    history,
+    streak: practiceStreak(history, now),
+    exercisesToday: exercisesOnDay(history, now),
+    dailyGoal: loadSettings().dailyGoal, // Saved with every settings change (read here so changing it doesn't save the session again)
+  };
+
+  const stored = loadAchievements();
+  const earned = evaluateAchievements(context, stored, now);
+  if (Object.keys(earned).length > Object.keys(stored).length) saveAchievements(earned);
+
+  return sessionRewards(context, earned, sessionStart);
+}
+
 // =============================================================================
 // 🪝 MAIN HOOK - The App State Manager Everyone Uses!
 // =============================================================================
@@ -345,30 +511,18 @@ export function useAppState() {
   // This creates our state and gives us a way to change it
   const [state, dispatch] = useReducer(appStateReducer, createInitialState());
 
-  // 🚀 WHEN THE APP FIRST LOADS: Set up settings and restore progress
+  // 🚀 WHEN THE APP FIRST LOADS: Open storage, then load the active profile's settings and progress
   useEffect(() => {
-    // 💾 STEP 1: Load the user's saved settings from browser storage
-    const savedSettings = loadSettings();
-    dispatch({ type: 'LOAD_SETTINGS', payload: savedSettings });
+    let cancelled = false;
 
-    // 📚 STEP 2: If progress saving is enabled, try to restore where they left off
-    if (savedSettings.saveProgress) {
-      const savedProgress = loadProgress();
-      
-      // Only restore if they actually made meaningful progress
-      // (we don't want to restore if they just opened the app and left)
-      if (hasMeaningfulProgress(savedProgress)) {
-        dispatch({
-          type: 'RESTORE_PROGRESS',
-          payload: {
-            session: savedProgress!.session,
-            gamePhase: savedProgress!.gamePhase,
-            showAnswer: savedProgress!.showAnswer,
-            showDetails: savedProgress!.showDetails,
-          },
-        });
-      }
-    }
+    // 🗄️ Open storage first (IndexedDB answers asynchronously; localStorage is the fallback)
+    initializeStorage().then(() => {
+      if (!cancelled) loadActiveProfile(dispatch);
+    });
+
+    return () => {
+      cancelled = true; // 🧹 Unmounted before storage opened (e.g. StrictMode's test mount)
+    };
   }, []); // Empty array = only run this when component first mounts
 
   // 💾 AUTO-SAVE PROGRESS: Automatically save user's progress as they work
@@ -393,7 +547,10 @@ export function useAppState() {
   useEffect(() => {
     if (state.gamePhase === 'end' && state.settings.saveProgress) {
       // 📊 SAVE RESULTS: If progress saving is enabled, save their final session to statistics
-      saveCompletedSession(state.session);
+      // 🏅 ...then see what it added to the daily goal, the streak and the achievements
+      if (saveCompletedSession(state.session)) {
+        dispatch({ type: 'SESSION_SAVED', payload: recordAchievements(state.session.startTime) });
+      }
       
       // 🧹 CLEAN UP: Clear the "in progress" data since they finished
       clearProgress();
@@ -416,11 +573,17 @@ export function useAppState() {
       // Start new session (session details will be created by the reducer)
       dispatch({ type: 'START_SESSION' });
     }, []),
-    showAnswer: useCallback(() => dispatch({ type: 'SHOW_ANSWER' }), []),
+    setExercise: useCallback((exercise: Exercise) => dispatch({ type: 'SET_EXERCISE', payload: exercise }), []),
+    recordAdaptivePlan: useCallback((plan: AdaptivePlan) => dispatch({ type: 'RECORD_ADAPTIVE_PLAN', payload: plan }), []),
+    showAnswer: useCallback((elapsed?: number) =>
+      dispatch({ type: 'SHOW_ANSWER', payload: elapsed === undefined ? undefined : { elapsed } }), []),
     hideAnswer: useCallback(() => dispatch({ type: 'HIDE_ANSWER' }), []),
     toggleDetails: useCallback(() => dispatch({ type: 'TOGGLE_DETAILS' }), []),
-    submitAssessment: useCallback((option: AssessmentOption) => 
-      dispatch({ type: 'SUBMIT_ASSESSMENT', payload: option }), []),
+    submitAssessment: useCallback((option: AssessmentOption, attempt?: AssessmentAttempt) => {
+      // Reschedule the scenario category (kept out of the reducer, which may run twice)
+      if (attempt) saveSchedule(reviewCategory(loadSchedule(), categoryOf(describeExercise(attempt.shown, attempt.rated)), option));
+      dispatch({ type: 'SUBMIT_ASSESSMENT', payload: { option, attempt } });
+    }, []),
     nextExercise: useCallback(() => dispatch({ type: 'NEXT_EXERCISE' }), []),
     retryExercise: useCallback(() => dispatch({ type: 'RETRY_EXERCISE' }), []),
     endSession: useCallback(() => dispatch({ type: 'END_SESSION' }), []),
@@ -430,16 +593,39 @@ export function useAppState() {
     }, []),
     updateSettings: useCallback((settings: Partial<Settings>) => 
       dispatch({ type: 'UPDATE_SETTINGS', payload: settings }), []),
+    // 👥 Profiles: switching (or adding, which switches to the new trainee) loads that profile's settings and progress
+    switchProfile: useCallback((profileId: string) => {
+      if (switchStoredProfile(profileId)) loadActiveProfile(dispatch);
+    }, []),
+    createProfile: useCallback((name: string) => {
+      const profile = createStoredProfile(name);
+      if (profile && switchStoredProfile(profile.id)) loadActiveProfile(dispatch);
+      return profile !== null;
+    }, []),
+    renameProfile: useCallback((profileId: string, name: string) => {
+      const renamed = renameStoredProfile(profileId, name);
+      dispatch({ type: 'UPDATE_PROFILES', payload: loadProfiles().profiles });
+      return renamed;
+    }, []),
+    deleteProfile: useCallback((profileId: string) => {
+      const wasActive = loadProfiles().activeProfileId === profileId;
+      if (!deleteStoredProfile(profileId)) return false;
+      if (wasActive) loadActiveProfile(dispatch); // Another trainee takes over
+      else dispatch({ type: 'UPDATE_PROFILES', payload: loadProfiles().profiles });
+      return true;
+    }, []),
   };
 
   // 🧮 COMPUTED VALUES: Calculate helpful numbers that components need
   // (Instead of making components do math, we do it here once)
   const computed = {
     // 🔚 ARE WE DONE?: Check if this is the last exercise in the session
-    isLastExercise: state.session.currentExercise >= state.session.totalExercises,
+    // (missed exercises waiting for a replay come after the planned set)
+    isLastExercise: state.session.currentExercise >= state.session.totalExercises &&
+      state.session.retryQueue.length <= (state.session.currentExercise > state.session.totalExercises ? 1 : 0),
     
-    // 📊 HOW FAR ALONG?: Calculate percentage complete (for progress bars)
-    progressPercentage: (state.session.currentExercise / state.session.totalExercises) * 100,
+    // 📊 HOW FAR ALONG?: Calculate percentage complete (for progress bars, full while replaying)
+    progressPercentage: Math.min(state.session.currentExercise / state.session.totalExercises, 1) * 100,
     
     // 🌟 AVERAGE SCORE: Calculate overall performance as a percentage
     // (Divide total points by max possible points, then convert to percentage)
@@ -448,7 +634,7 @@ export function useAppState() {
       : 0,
     
     // ✅ HOW MANY COMPLETED?: Count exercises that weren't marked "again"
-    // (Because "again" means they want to retry, so it doesn't count as completed)
+    // (A missed exercise counts once it is rated better on a replay)
     completedExercises: state.session.scores.filter(s => s.option !== 'again').length,
   };
 
@@ -0,0 +1,71 @@
+/**
+ * 🎬 SIMULATION HOOK - The Radar's Play/Pause Remote Control!
+ *
+ * WHAT THIS FILE DOES (explain it like I'm 5):
+ * The simulation (lib/simulation.ts) knows where every airplane is after X seconds.
+ * This hook is the remote control that decides what X is right now:
+ * ▶️ Play  = add one radar sweep every tick
+ * ⏸️ Pause = stop the clock (this is the moment you give traffic information!)
+ * ⏭️ Step  = move exactly one radar sweep forward
+ * ⏮️ Reset = go back to the picture as it was generated
+ *
+ * A new exercise always starts again from the beginning.
+ */
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { Exercise } from './types';
+import { advanceExercise, SWEEP_SECONDS, MAX_SIMULATION_SECONDS } from './simulation';
+
+// ⏩ Real milliseconds per radar sweep while playing (4 second sweeps shown once a second = 4× speed)
+const PLAYBACK_TICK_MS = 1000;
+
+/**
+ * 🪝 USE SIMULATION HOOK
+ * @param exercise - The exercise as generated (time zero)
+ * @param frozen - When true the clock can't move (e.g. while the answer is being assessed)
+ * @param startAt - Simulated seconds to open a new exercise at (a restored answer's moment)
+ */
+export function useSimulation(exercise: Exercise, frozen: boolean, startAt = 0) {
+  const [elapsed, setElapsed] = useState(startAt);    // ⏱️ Simulated seconds since the start
+  const [isPlaying, setIsPlaying] = useState(true);   // ▶️ Movie running or paused?
+
+  // 🔄 New exercise = new movie, start from the first frame (or the restored moment)
+  useEffect(() => {
+    setElapsed(startAt);
+    setIsPlaying(true);
+  }, [exercise, startAt]);
+
+  const isFinished = elapsed >= MAX_SIMULATION_SECONDS;
+  const isRunning = isPlaying && !frozen && !isFinished;
+
+  // ⏰ THE TICKER: one radar sweep per tick while the movie is running
+  useEffect(() => {
+    if (!isRunning) return;
+    const timer = setInterval(() => {
+      setElapsed(current => Math.min(current + SWEEP_SECONDS, MAX_SIMULATION_SECONDS));
+    }, PLAYBACK_TICK_MS);
+    return () => clearInterval(timer);
+  }, [isRunning]);
+
+  // 🎬 The picture for this exact moment (recomputed only when the moment changes)
+  const liveExercise = useMemo(() => advanceExercise(exercise, elapsed), [exercise, elapsed]);
+
+  const play = useCallback(() => setIsPlaying(true), []);
+  const pause = useCallback(() => setIsPlaying(false), []);
+  const step = useCallback(() => {
+    setIsPlaying(false);
+    setElapsed(current => Math.min(current + SWEEP_SECONDS, MAX_SIMULATION_SECONDS));
+  }, []);
+  const reset = useCallback(() => {
+    setIsPlaying(false);
+    setElapsed(0);
+  }, []);
+
+  return {
+    exercise: liveExercise,
+    elapsed,
+    isRunning,
+    isFinished,
+    controls: { play, pause, step, reset },
+  };
+}